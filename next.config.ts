@@ -1,7 +1,20 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // These load native binaries, worker scripts or data files at runtime,
+  // which can't be bundled: the local embedding provider's ONNX runtime and
+  // the OCR engine, its language data and the PDF renderer
+  serverExternalPackages: [
+    "@huggingface/transformers",
+    "tesseract.js",
+    "@tesseract.js-data/eng",
+    "@tesseract.js-data/tel",
+    "pdf-to-img",
+  ],
+  eslint: {
+    // Lint the tests along with the app
+    dirs: ["src", "tests"],
+  },
 };
 
 export default nextConfig;
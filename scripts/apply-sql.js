@@ -83,6 +83,7 @@ async function applySqlFunctions() {
     console.log('\n🎉 SQL functions applied successfully!');
     console.log('\n📋 SQL functions created:');
     console.log('  - match_pdf_chunks');
+    console.log('  - match_pdf_chunks_multi');
     console.log('  - match_documents');
     
   } catch (error) {
@@ -0,0 +1,139 @@
+// Script to re-chunk and re-embed documents, e.g. after changing the
+// embedding model. Starts a re-index job on the running app and follows it.
+// Run this with: npm run reindex -- <scope> [options]
+//
+// Scope (at least one; combined conditions must all match):
+//   --all                 Every document in the library
+//   --document <id>       One document (repeat for more)
+//   --user <id>           One user's documents
+//   --format <format>     Documents of one format, e.g. pdf or link
+//   --stale-model         Documents embedded with another model than the
+//                         configured one
+// Options:
+//   --chunking <strategy> Re-chunk with fixed, sentence, semantic, page or
+//                         heading (default: each document keeps its own)
+//
+// Needs CRON_SECRET, and APP_URL if the app doesn't run on localhost:3000.
+
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const appUrl = process.env.APP_URL || 'http://localhost:3000';
+const cronSecret = process.env.CRON_SECRET;
+
+// How often the job's progress is fetched
+const POLL_INTERVAL_MS = 2000;
+
+if (!cronSecret) {
+  console.error('❌ Missing required environment variable: CRON_SECRET');
+  process.exit(1);
+}
+
+// Read the command line into the request body of /api/reindex
+function parseArgs(args) {
+  const body = {};
+  let hasScope = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--all':
+        hasScope = true;
+        break;
+      case '--document':
+        body.pdfIds = [...(body.pdfIds || []), value];
+        hasScope = true;
+        i++;
+        break;
+      case '--user':
+        body.userId = value;
+        hasScope = true;
+        i++;
+        break;
+      case '--format':
+        body.format = value;
+        hasScope = true;
+        i++;
+        break;
+      case '--stale-model':
+        body.staleModel = true;
+        hasScope = true;
+        break;
+      case '--chunking':
+        body.chunkingStrategy = value;
+        i++;
+        break;
+      default:
+        console.error(`❌ Unknown option: ${args[i]}`);
+        process.exit(1);
+    }
+  }
+
+  // Never re-index the whole library by accident
+  if (!hasScope) {
+    console.error(
+      '❌ Choose what to re-index: --all, --document <id>, --user <id>, --format <format> or --stale-model'
+    );
+    process.exit(1);
+  }
+
+  return body;
+}
+
+// Call /api/reindex and return its JSON response
+async function callApi(method, query = '', body) {
+  const response = await fetch(`${appUrl}/api/reindex${query}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${cronSecret}`,
+      'Content-Type': 'application/json',
+    },
+    body: body && JSON.stringify(body),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data;
+}
+
+async function reindex() {
+  try {
+    console.log(`🔁 Starting re-index on ${appUrl}...`);
+    let job = await callApi('POST', '', parseArgs(process.argv.slice(2)));
+    console.log(`📥 Queued job ${job.id} for ${job.progress_total} documents`);
+
+    while (job.status === 'queued' || job.status === 'running') {
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+      job = await callApi('GET', `?jobId=${job.id}`);
+
+      const current = job.current_pdf_id
+        ? `, ${job.current_pdf_id}: ${job.current_chunks_done}/${job.current_chunks_total} chunks`
+        : '';
+      console.log(
+        `📊 ${job.progress_done}/${job.progress_total} documents (${job.percent}%)${current}`
+      );
+    }
+
+    for (const failure of job.failed) {
+      console.error(`❌ ${failure.pdf_id}: ${failure.error}`);
+    }
+    if (job.status === 'failed') {
+      console.error(`❌ Re-index stopped: ${job.error}`);
+      process.exit(1);
+    }
+
+    console.log(
+      `✅ Re-indexed ${job.progress_total - job.failed.length}/${job.progress_total} documents`
+    );
+    process.exit(job.failed.length > 0 ? 1 : 0);
+  } catch (error) {
+    console.error('❌ Re-index failed:', error.message);
+    process.exit(1);
+  }
+}
+
+reindex();
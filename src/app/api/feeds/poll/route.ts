@@ -0,0 +1,45 @@
+import { after, NextResponse } from "next/server";
+import { pollDueFeeds } from "@/lib/feeds";
+import { runIngestionJobs } from "@/lib/ingestion-jobs";
+
+// The queued entries are fetched and embedded after responding, which can
+// take a while
+export const maxDuration = 300;
+
+/**
+ * API route for scheduled feed polling
+ *
+ * Polls every feed subscription that is due and queues an ingestion job for
+ * each new entry, then runs the jobs after responding. Jobs that don't
+ * finish in time are picked up by /api/ingestion/run.
+ * Meant to be called by a scheduler (the cron job in vercel.json, or any
+ * other that can send a request) with the CRON_SECRET as a bearer token:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" https://your-app/api/feeds/poll
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    console.warn("🚫 Feed polling called without a valid CRON_SECRET");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { feeds, queued, jobIds } = await pollDueFeeds();
+    after(() => runIngestionJobs(jobIds));
+
+    console.log(
+      `✅ Feed polling finished: ${queued} entries queued from ${feeds} feeds`,
+    );
+    return NextResponse.json({ success: true, feeds, queued });
+  } catch (error) {
+    console.error("❌ Error polling feeds:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
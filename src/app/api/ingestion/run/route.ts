@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { runPendingIngestionJobs } from "@/lib/ingestion-jobs";
+import { runPendingReindexJobs } from "@/lib/reindex-jobs";
+
+// Jobs extract, embed and summarize documents, which can take a while
+export const maxDuration = 300;
+
+/**
+ * API route for running background ingestion jobs
+ *
+ * Runs queued jobs, and resumes jobs whose worker stopped (e.g. a request
+ * that timed out), in case they weren't started right after being queued.
+ * Afterwards, picks up a re-index job that is queued or whose worker
+ * stopped (see reindex-jobs.ts).
+ * Meant to be called by a scheduler (the cron job in vercel.json, or any
+ * other that can send a request) with the CRON_SECRET as a bearer token:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" https://your-app/api/ingestion/run
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    console.warn("🚫 Ingestion run called without a valid CRON_SECRET");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runPendingIngestionJobs();
+    const reindex = await runPendingReindexJobs();
+    console.log(
+      `✅ Ingestion run finished: ${result.run} jobs run, ${reindex.run} re-index jobs run`,
+    );
+    return NextResponse.json({
+      success: true,
+      ...result,
+      reindexRun: reindex.run,
+    });
+  } catch (error) {
+    console.error("❌ Error running ingestion jobs:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
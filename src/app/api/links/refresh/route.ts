@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { refreshDueLinks } from "@/lib/link-refresh";
+
+// Refreshing re-fetches pages and embeds changed chunks, which can take a while
+export const maxDuration = 300;
+
+/**
+ * API route for scheduled link refreshes
+ *
+ * Refreshes every saved link whose refresh interval has passed. Meant to be
+ * called by a scheduler (the cron job in vercel.json, or any other that can
+ * send a request) with the CRON_SECRET as a bearer token:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" https://your-app/api/links/refresh
+ */
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    console.warn("🚫 Link refresh called without a valid CRON_SECRET");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await refreshDueLinks();
+    console.log(
+      `✅ Link refresh finished: ${result.changed} of ${result.refreshed} links changed`,
+    );
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("❌ Error refreshing links:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { after, NextResponse } from "next/server";
+import { isChunkingStrategy } from "@/lib/chunking-config";
+import {
+  createReindexJob,
+  getReindexJob,
+  ReindexFilter,
+  runReindexJob,
+  toReindexProgress,
+} from "@/lib/reindex-jobs";
+
+// Re-indexing embeds every chunk of the documents again, which can take a
+// while; jobs outliving a request are resumed by /api/ingestion/run
+export const maxDuration = 300;
+
+/**
+ * Check the CRON_SECRET bearer token of a request
+ */
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  return (
+    !!secret && request.headers.get("authorization") === `Bearer ${secret}`
+  );
+}
+
+/**
+ * API route for starting a re-index job (used by scripts/reindex.mjs)
+ *
+ * Takes a JSON body with the documents to re-index (all given conditions
+ * must match, an empty body selects the whole library) and optionally a
+ * chunking strategy, and returns the job's progress:
+ *
+ *   curl -X POST -H "Authorization: Bearer $CRON_SECRET" \
+ *     -d '{"staleModel": true}' https://your-app/api/reindex
+ */
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) {
+    console.warn("🚫 Re-index requested without a valid CRON_SECRET");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const filter: ReindexFilter = {
+      pdfIds: Array.isArray(body.pdfIds) ? body.pdfIds : undefined,
+      userId: body.userId || undefined,
+      format: body.format || undefined,
+      staleModel: body.staleModel === true,
+    };
+    if (body.chunkingStrategy && !isChunkingStrategy(body.chunkingStrategy)) {
+      return NextResponse.json(
+        { error: `Unknown chunking strategy "${body.chunkingStrategy}"` },
+        { status: 400 },
+      );
+    }
+
+    const job = await createReindexJob(
+      filter,
+      body.chunkingStrategy || null,
+      "cli",
+    );
+    after(() => runReindexJob(job.id));
+
+    return NextResponse.json(toReindexProgress(job));
+  } catch (error) {
+    console.error("❌ Error starting re-index:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * API route for following a re-index job
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" https://your-app/api/reindex?jobId=...
+ */
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) {
+    console.warn("🚫 Re-index progress requested without a valid CRON_SECRET");
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const jobId = new URL(request.url).searchParams.get("jobId");
+  try {
+    const job = jobId ? await getReindexJob(jobId) : null;
+    if (!job) {
+      return NextResponse.json(
+        { error: "Re-index job not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json(toReindexProgress(job));
+  } catch (error) {
+    console.error("❌ Error loading re-index job:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { queryDocument } from "@/lib/rag-service";
+import { generateSummary } from "@/lib/summary-service";
+import { encodeEvent } from "@/lib/streaming";
+
+/**
+ * API route for streaming chat answers and summaries
+ *
+ * Accepts the same form data as the queryPdfDocument and generateSummary
+ * server actions, plus a "mode" field ("chat" or "summary"), and responds
+ * with Server-Sent Events:
+ * - token: Each piece of generated text as it arrives
+ * - done: The final result ({ answer, sources } or { summary, sectionCount })
+ * - error: { message } if generation failed
+ *
+ * Closing the connection (e.g. the user pressing "Stop") aborts the
+ * underlying model calls through the request's abort signal.
+ */
+export async function POST(request: Request) {
+  const formData = await request.formData();
+  const mode = (formData.get("mode") as "chat" | "summary") || "chat";
+  const signal = request.signal;
+
+  console.log(`📡 Streaming ${mode} request started`);
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!signal.aborted) {
+          controller.enqueue(encoder.encode(encodeEvent(event, data)));
+        }
+      };
+      const onToken = (token: string) => send("token", token);
+
+      try {
+        if (mode === "summary") {
+          const result = await generateSummary(formData, { onToken, signal });
+          send("done", result);
+        } else {
+          const result = await queryDocument(formData, { onToken, signal });
+          send("done", result);
+        }
+        console.log(`✅ Streaming ${mode} request completed`);
+      } catch (error) {
+        if (signal.aborted) {
+          console.log(`⏹️ Streaming ${mode} request cancelled by the client`);
+        } else {
+          console.error(`❌ Error in streaming ${mode} request:`, error);
+          send("error", {
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // The stream was already closed because the client disconnected
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { signIn, signUp } from "@/lib/auth-service";
+
+/**
+ * Login Page Component
+ *
+ * Lets visitors sign in, or create an account, with email and password.
+ * Everything else in the app requires a signed-in user, so the middleware
+ * sends visitors here until they have a session.
+ */
+export default function LoginPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Submit the credentials to the sign-in or sign-up server action
+   */
+  const handleSubmit = async (mode: "signIn" | "signUp") => {
+    const formData = new FormData();
+    formData.append("email", email);
+    formData.append("password", password);
+
+    try {
+      setIsSubmitting(true);
+
+      if (mode === "signUp") {
+        const result = await signUp(formData);
+        if (result.error) {
+          toast.error(result.error);
+          return;
+        }
+        if (result.needsConfirmation) {
+          toast.success("Check your email to confirm your account");
+          return;
+        }
+      } else {
+        const result = await signIn(formData);
+        if (result.error) {
+          toast.error(result.error);
+          return;
+        }
+      }
+
+      router.push("/");
+      router.refresh();
+    } catch (error) {
+      console.error("Error signing in:", error);
+      toast.error("Something went wrong. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Glance Buddy</CardTitle>
+          <CardDescription>
+            Sign in to summarize and chat with your documents
+          </CardDescription>
+        </CardHeader>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            handleSubmit("signIn");
+          }}
+        >
+          <CardContent className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                required
+              />
+            </div>
+          </CardContent>
+          <CardFooter className="flex gap-2 mt-6">
+            <Button type="submit" className="flex-1" disabled={isSubmitting}>
+              {isSubmitting ? "Please wait..." : "Sign in"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              disabled={isSubmitting || !email || !password}
+              onClick={() => handleSubmit("signUp")}
+            >
+              Create account
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
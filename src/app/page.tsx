@@ -1,12 +1,30 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
 import { FileUpload } from "@/components/file-upload";
 import { SummaryOutput } from "@/components/summary-output";
 import { Button } from "@/components/button";
-import { generateSummary } from "@/lib/summary-service";
-import { processPdf, processLink } from "@/lib/rag-service";
-import { TEMPORARY_USER_ID } from "@/lib/constants";
+import { GeneratedSummary } from "@/lib/summary-service";
+import { isAbortError, streamFromServer } from "@/lib/streaming";
+import {
+  processPdf,
+  processLink,
+  retryIngestionJob,
+  discardIngestionJob,
+} from "@/lib/rag-service";
+import type { DuplicateDocument } from "@/lib/deduplication";
+import type { IngestionProgress } from "@/lib/ingestion-jobs";
+import {
+  describeIngestion,
+  waitForIngestionJob,
+} from "@/lib/ingestion-progress";
+import { getCurrentUserEmail, signOut } from "@/lib/auth-service";
+import type { CrawlMode } from "@/lib/web-crawler";
+import {
+  ChunkingStrategy,
+  DEFAULT_CHUNKING_STRATEGY,
+} from "@/lib/chunking-config";
 import { SUPPORTED_LANGUAGES, SupportedLanguage } from "@/lib/language-config";
 import { Toaster } from "@/components/ui/sonner";
 import { toast } from "sonner";
@@ -21,6 +39,9 @@ import { Label } from "@/components/ui/label";
 import { ChatInterface } from "@/components/chat-interface";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PdfLibrary } from "@/components/pdf-library";
+import { FeedSubscriptions } from "@/components/feed-subscriptions";
+import { ReindexPanel } from "@/components/reindex-panel";
+import { ChunkingStrategySelect } from "@/components/chunking-strategy-select";
 import { Input } from "@/components/ui/input";
 
 /**
@@ -35,25 +56,51 @@ import { Input } from "@/components/ui/input";
  * summary generation, and integrates with the RAG system.
  */
 export default function Home() {
+  const router = useRouter();
+
   // State for the uploaded PDF file
   const [file, setFile] = useState<File | null>(null);
 
   // State for the URL input
   const [url, setUrl] = useState<string | null>(null);
 
+  // Whether to load just the URL or crawl its site, and the crawl's page limit
+  const [crawlMode, setCrawlMode] = useState<CrawlMode>("single");
+  const [maxPages, setMaxPages] = useState(25);
+
+  // How the next upload or link is split into chunks
+  const [chunkingStrategy, setChunkingStrategy] = useState<ChunkingStrategy>(
+    DEFAULT_CHUNKING_STRATEGY,
+  );
+
   // State for the generated summary
   const [summary, setSummary] = useState<string | null>(null);
 
+  // Number of document sections folded into the summary
+  const [summarySections, setSummarySections] = useState(0);
+
   // State for loading indicators
   const [isLoading, setIsLoading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
 
+  // Progress of the background job ingesting the file or URL
+  const [ingestion, setIngestion] = useState<IngestionProgress | null>(null);
+
+  // Controller used to cancel the summary being generated
+  const [summaryAbortController, setSummaryAbortController] =
+    useState<AbortController | null>(null);
+
   // State for language selection
   const [language, setLanguage] = useState<SupportedLanguage>("english");
 
   // State for the processed content ID (for RAG)
   const [contentId, setContentId] = useState<string | null>(null);
 
+  // State for the library documents selected for multi-document chat
+  const [chatDocuments, setChatDocuments] = useState<
+    Array<{ id: string; name: string }>
+  >([]);
+
   // State for selected content name (for display)
   const [selectedContentName, setSelectedContentName] = useState<string | null>(
     null,
@@ -62,8 +109,12 @@ export default function Home() {
   // Type of content being processed (pdf or link)
   const [contentType, setContentType] = useState<"pdf" | "link">("pdf");
 
-  // Using the imported TEMPORARY_USER_ID constant instead of hardcoding
-  const userId = TEMPORARY_USER_ID;
+  // Email of the signed-in user, shown in the header
+  const [userEmail, setUserEmail] = useState<string | null>(null);
+
+  useEffect(() => {
+    getCurrentUserEmail().then(setUserEmail);
+  }, []);
 
   /**
    * Handle file upload
@@ -73,6 +124,7 @@ export default function Home() {
     setFile(selectedFile);
     setSummary(null);
     setContentId(null);
+    setChatDocuments([]);
     setSelectedContentName(selectedFile?.name || null);
     setUrl(null);
   };
@@ -84,6 +136,7 @@ export default function Home() {
     setUrl(event.target.value);
     setSummary(null);
     setContentId(null);
+    setChatDocuments([]);
     setFile(null);
   };
 
@@ -96,16 +149,124 @@ export default function Home() {
     setSummary(null);
   };
 
+  /**
+   * Offer the choice between an existing copy of the content and a new version
+   * Shown when the file or URL being processed is already in the library; a
+   * new version is added to the existing item's version history
+   */
+  const offerDuplicateChoice = (
+    duplicate: DuplicateDocument,
+    storeNewVersion: (versionOf: string) => void,
+  ) => {
+    const savedOn = new Date(duplicate.created_at).toLocaleDateString();
+    toast(`This is already in your library as "${duplicate.name}"`, {
+      description: `Saved on ${savedOn}. Open it, or store this as a new version?`,
+      duration: Infinity,
+      action: {
+        label: "Open existing",
+        onClick: () => {
+          setContentId(duplicate.id);
+          setSelectedContentName(duplicate.name);
+          setChatDocuments([]);
+        },
+      },
+      cancel: {
+        label: "Store new version",
+        onClick: () => storeNewVersion(duplicate.id),
+      },
+    });
+  };
+
+  /**
+   * Follow a background ingestion job until it completes or fails
+   * Progress is shown on the process buttons. A failed job can be retried,
+   * resuming at the stage that failed, or discarded, which deletes
+   * everything it stored.
+   *
+   * @param onReady - Called with the completed job
+   * @param storeNewVersion - Re-processes the content as a new version, if
+   *   the job finds it is already in the library
+   */
+  const followIngestionJob = async (
+    jobId: string,
+    onReady: (job: IngestionProgress) => void,
+    storeNewVersion: (versionOf: string) => void,
+  ) => {
+    const job = await waitForIngestionJob(jobId, setIngestion);
+    setIngestion(null);
+
+    if (job.status === "failed") {
+      toast.error(`Processing failed: ${job.error}`, {
+        duration: Infinity,
+        action: {
+          label: "Retry",
+          onClick: () => retryIngestion(jobId, onReady, storeNewVersion),
+        },
+        cancel: {
+          label: "Discard",
+          onClick: () => discardIngestion(jobId),
+        },
+      });
+      return;
+    }
+
+    // Same text uploaded before: let the user choose
+    if (job.duplicate) {
+      offerDuplicateChoice(job.duplicate, storeNewVersion);
+      return;
+    }
+
+    onReady(job);
+  };
+
+  /**
+   * Discard a failed ingestion job
+   */
+  const discardIngestion = async (jobId: string) => {
+    try {
+      const formData = new FormData();
+      formData.append("jobId", jobId);
+      await discardIngestionJob(formData);
+    } catch (error) {
+      console.error("Error discarding processing:", error);
+      toast.error("Failed to discard the failed upload");
+    }
+  };
+
+  /**
+   * Retry a failed ingestion job and follow it again
+   */
+  const retryIngestion = async (
+    jobId: string,
+    onReady: (job: IngestionProgress) => void,
+    storeNewVersion: (versionOf: string) => void,
+  ) => {
+    try {
+      setIsProcessing(true);
+      const formData = new FormData();
+      formData.append("jobId", jobId);
+      await retryIngestionJob(formData);
+      await followIngestionJob(jobId, onReady, storeNewVersion);
+    } catch (error) {
+      console.error("Error retrying processing:", error);
+      toast.error("Failed to retry processing");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   /**
    * Process the PDF for RAG
    * This prepares the PDF for chat by:
    * 1. Storing the PDF in the database
    * 2. Splitting into chunks
    * 3. Generating embeddings
+   *
+   * @param versionOf - Store the file as a new version of this library item
    */
-  const handleProcessPDF = async () => {
+  const handleProcessPDF = async (versionOf?: string) => {
     if (!file) {
-      toast.error("Please upload a PDF file first");
+      toast.error("Please upload a file first");
       return;
     }
 
@@ -115,23 +276,42 @@ export default function Home() {
       // Create FormData to pass to server action
       const formData = new FormData();
       formData.append("file", file);
-      formData.append("userId", userId);
+      formData.append("chunkingStrategy", chunkingStrategy);
+      if (versionOf) {
+        formData.append("versionOf", versionOf);
+      }
 
-      // Process the PDF for RAG
+      // Queue the PDF for RAG
       const result = await processPdf(formData);
 
-      // Store the PDF ID for later use in chat
-      setContentId(result.pdfId);
-
-      // If we got a summary, use it
-      if (result.summary) {
-        setSummary(result.summary);
+      // Same file uploaded before: let the user choose
+      if (result.duplicate) {
+        offerDuplicateChoice(result.duplicate, handleProcessPDF);
+        return;
       }
 
-      toast.success("PDF processed successfully! You can now chat with it.");
+      // The file is processed in the background; wait for it to be ready
+      await followIngestionJob(
+        result.jobId as string,
+        (job) => {
+          // Store the PDF ID for later use in chat
+          setContentId(job.pdf_id);
+
+          // If we got a summary, use it
+          if (job.summary) {
+            setSummary(job.summary);
+            setSummarySections(job.summary_sections);
+          }
+
+          toast.success(
+            "File processed successfully! You can now chat with it.",
+          );
+        },
+        handleProcessPDF,
+      );
     } catch (error) {
       console.error("Error processing PDF:", error);
-      toast.error("Failed to process PDF for chat");
+      toast.error("Failed to process file for chat");
     } finally {
       setIsProcessing(false);
     }
@@ -143,8 +323,10 @@ export default function Home() {
    * 1. Fetching and storing the content in the database
    * 2. Splitting into chunks
    * 3. Generating embeddings
+   *
+   * @param versionOf - Store the page as a new version of this library item
    */
-  const handleProcessLink = async () => {
+  const handleProcessLink = async (versionOf?: string) => {
     if (!url) {
       toast.error("Please enter a valid URL first");
       return;
@@ -156,21 +338,36 @@ export default function Home() {
       // Create FormData to pass to server action
       const formData = new FormData();
       formData.append("url", url);
-      formData.append("userId", userId);
+      formData.append("crawlMode", crawlMode);
+      formData.append("maxPages", String(maxPages));
+      formData.append("chunkingStrategy", chunkingStrategy);
+      if (versionOf) {
+        formData.append("versionOf", versionOf);
+      }
 
-      // Process the URL for RAG
+      // Queue the URL for RAG
       const result = await processLink(formData);
 
-      // Store the content ID for later use in chat
-      setContentId(result.contentId);
-      setSelectedContentName(url);
-
-      // If we got a summary, use it
-      if (result.summary) {
-        setSummary(result.summary);
+      // URL saved before: let the user choose
+      if (result.duplicate) {
+        offerDuplicateChoice(result.duplicate, handleProcessLink);
+        return;
       }
 
-      toast.success("URL processed successfully! You can now chat with it.");
+      // The page is processed in the background; wait for it to be ready
+      await followIngestionJob(
+        result.jobId as string,
+        (job) => {
+          // Store the content ID for later use in chat
+          setContentId(job.pdf_id);
+          setSelectedContentName(url);
+
+          toast.success(
+            "URL processed successfully! You can now chat with it.",
+          );
+        },
+        handleProcessLink,
+      );
     } catch (error) {
       console.error("Error processing URL:", error);
       toast.error("Failed to process URL for chat");
@@ -181,12 +378,12 @@ export default function Home() {
 
   /**
    * Generate a summary of the content
-   * This uses the summary service to generate a summary
+   * This streams the summary from the summary service as it is generated
    */
   const handleGenerateSummary = async () => {
     // Check if we have either a file, URL, or a content ID
     if (!file && !url && !contentId) {
-      toast.error("Please upload a PDF or enter a URL first");
+      toast.error("Please upload a file or enter a URL first");
       return;
     }
 
@@ -201,8 +398,9 @@ export default function Home() {
         formData.append("file", file);
       }
 
-      // If we have a URL, use that
-      if (url) {
+      // If we have an unprocessed URL, use that; processed links (including
+      // crawled sites) are summarized from their stored content
+      if (url && !contentId) {
         formData.append("url", url);
       }
 
@@ -213,24 +411,65 @@ export default function Home() {
       }
 
       formData.append("language", language);
-      formData.append("userId", userId);
-
-      const result = await generateSummary(formData);
-      setSummary(result);
+      formData.append("mode", "summary");
+
+      // Stream the summary into the output as it is generated
+      const controller = new AbortController();
+      setSummaryAbortController(controller);
+      setSummary(null);
+      setSummarySections(0);
+
+      let streamedSummary = "";
+      await streamFromServer<GeneratedSummary>(
+        formData,
+        {
+          onToken: (token) => {
+            streamedSummary += token;
+            setSummary(streamedSummary);
+          },
+          onDone: (result) => {
+            setSummary(result.summary);
+            setSummarySections(result.sectionCount);
+          },
+        },
+        controller.signal,
+      );
       toast.success("Summary generated successfully");
     } catch (error) {
+      if (isAbortError(error)) {
+        toast.info("Summary generation stopped");
+        return;
+      }
       console.error("Error generating summary:", error);
       toast.error("Failed to generate summary");
     } finally {
       setIsLoading(false);
+      setSummaryAbortController(null);
     }
   };
 
+  /**
+   * Stop the summary that is currently being generated
+   */
+  const handleStopSummary = () => {
+    summaryAbortController?.abort();
+  };
+
+  /**
+   * Sign out and return to the login page
+   */
+  const handleSignOut = async () => {
+    await signOut();
+    router.push("/login");
+    router.refresh();
+  };
+
   /**
    * Handle selecting a PDF from the library
    */
   const handleSelectPdf = (id: string, name: string) => {
     setContentId(id);
+    setChatDocuments([]);
     setSelectedContentName(name);
     setContentType("pdf");
     // We're using an existing PDF, so we don't have the File object
@@ -239,15 +478,38 @@ export default function Home() {
     toast.success(`Selected "${name}" for chat`);
   };
 
+  /**
+   * Handle selecting several PDFs from the library to chat with together
+   * Summaries work on a single document, so no contentId is set here
+   */
+  const handleSelectPdfs = (pdfs: Array<{ id: string; name: string }>) => {
+    setContentId(null);
+    setChatDocuments(pdfs);
+    setSelectedContentName(pdfs.map((pdf) => pdf.name).join(", "));
+    setContentType("pdf");
+    setSummary(null);
+    setFile(null);
+    setUrl(null);
+    toast.success(`Selected ${pdfs.length} documents for chat`);
+  };
+
   return (
     <div className="min-h-screen p-6 md:p-12">
       <Toaster position="top-right" />
       <div className="max-w-4xl mx-auto">
         <header className="mb-8 text-center">
+          {userEmail && (
+            <div className="flex items-center justify-end gap-2 mb-4 text-sm text-muted-foreground">
+              <span>{userEmail}</span>
+              <Button variant="outline" size="sm" onClick={handleSignOut}>
+                Sign out
+              </Button>
+            </div>
+          )}
           <h1 className="text-3xl font-bold mb-2">Glance Buddy</h1>
           <p className="text-muted-foreground">
-            Upload a PDF or enter a URL to generate summaries and chat with your
-            content
+            Upload a document or enter a URL to generate summaries and chat with
+            your content
           </p>
         </header>
 
@@ -257,14 +519,14 @@ export default function Home() {
             onValueChange={(value) => setContentType(value as "pdf" | "link")}
           >
             <TabsList className="grid w-full max-w-md mx-auto grid-cols-2">
-              <TabsTrigger value="pdf">PDF</TabsTrigger>
+              <TabsTrigger value="pdf">File</TabsTrigger>
               <TabsTrigger value="link">Link</TabsTrigger>
             </TabsList>
 
             <TabsContent value="pdf" className="mt-6">
               <Tabs defaultValue="upload">
                 <TabsList className="grid w-full max-w-md mx-auto grid-cols-2">
-                  <TabsTrigger value="upload">Upload New PDF</TabsTrigger>
+                  <TabsTrigger value="upload">Upload New File</TabsTrigger>
                   <TabsTrigger value="library">Your PDF Library</TabsTrigger>
                 </TabsList>
 
@@ -273,7 +535,11 @@ export default function Home() {
                 </TabsContent>
 
                 <TabsContent value="library" className="mt-6">
-                  <PdfLibrary onSelectPdf={handleSelectPdf} />
+                  <PdfLibrary
+                    onSelectPdf={handleSelectPdf}
+                    onSelectPdfs={handleSelectPdfs}
+                  />
+                  <ReindexPanel />
                 </TabsContent>
               </Tabs>
             </TabsContent>
@@ -290,20 +556,65 @@ export default function Home() {
                     value={url || ""}
                   />
                 </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="crawl-mode-select">Pages to include</Label>
+                  <Select
+                    value={crawlMode}
+                    onValueChange={(value) => setCrawlMode(value as CrawlMode)}
+                  >
+                    <SelectTrigger
+                      id="crawl-mode-select"
+                      className="w-full max-w-[260px]"
+                    >
+                      <SelectValue placeholder="Select pages" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="single">This page only</SelectItem>
+                      <SelectItem value="links">
+                        Follow links on the same site
+                      </SelectItem>
+                      <SelectItem value="sitemap">
+                        Pages listed in sitemap.xml
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {crawlMode !== "single" && (
+                  <div className="grid gap-2">
+                    <Label htmlFor="max-pages-input">Maximum pages</Label>
+                    <Input
+                      id="max-pages-input"
+                      type="number"
+                      min={1}
+                      className="w-full max-w-[120px]"
+                      value={maxPages}
+                      onChange={(event) =>
+                        setMaxPages(Number(event.target.value) || 1)
+                      }
+                    />
+                  </div>
+                )}
+                <ChunkingStrategySelect
+                  id="link-chunking-select"
+                  value={chunkingStrategy}
+                  onChange={setChunkingStrategy}
+                />
                 <Button
-                  onClick={handleProcessLink}
+                  onClick={() => handleProcessLink()}
                   disabled={!url || isProcessing}
                   className="w-full max-w-[200px] mx-auto"
                 >
                   {isProcessing
-                    ? "Processing..."
+                    ? describeIngestion(ingestion)
                     : "Process Link for Chat & Summary"}
                 </Button>
+                <FeedSubscriptions />
               </div>
             </TabsContent>
           </Tabs>
 
-          {((contentType === "pdf" && (file || contentId)) ||
+          {((contentType === "pdf" &&
+            (file || contentId || chatDocuments.length > 0)) ||
             (contentType === "link" && (url || contentId))) && (
             <Tabs defaultValue="chat">
               <TabsList className="grid w-full max-w-md mx-auto grid-cols-2">
@@ -335,7 +646,14 @@ export default function Home() {
                     </Select>
                   </div>
 
-                  <div className="flex justify-center">
+                  {chatDocuments.length > 0 && (
+                    <p className="text-sm text-muted-foreground text-center">
+                      Summaries work on one document at a time. Select a single
+                      document from your library to summarize it.
+                    </p>
+                  )}
+
+                  <div className="flex justify-center gap-2">
                     <Button
                       onClick={handleGenerateSummary}
                       disabled={!((file || url || contentId) && !isLoading)}
@@ -343,9 +661,18 @@ export default function Home() {
                     >
                       {isLoading ? "Generating..." : "Generate Summary"}
                     </Button>
+                    {summaryAbortController && (
+                      <Button variant="outline" onClick={handleStopSummary}>
+                        Stop
+                      </Button>
+                    )}
                   </div>
 
-                  <SummaryOutput summary={summary} isLoading={isLoading} />
+                  <SummaryOutput
+                    summary={summary}
+                    sectionCount={summarySections}
+                    isLoading={isLoading && !summary}
+                  />
                 </div>
               </TabsContent>
 
@@ -360,11 +687,16 @@ export default function Home() {
                           first. This extracts the text, splits it into chunks,
                           and generates embeddings for search.
                         </p>
+                        <ChunkingStrategySelect
+                          id="chunking-select"
+                          value={chunkingStrategy}
+                          onChange={setChunkingStrategy}
+                        />
                         <Button
-                          onClick={
+                          onClick={() =>
                             contentType === "pdf"
-                              ? handleProcessPDF
-                              : handleProcessLink
+                              ? handleProcessPDF()
+                              : handleProcessLink()
                           }
                           disabled={
                             contentType === "pdf" ? !file : !url || isProcessing
@@ -372,15 +704,15 @@ export default function Home() {
                           className="w-full max-w-[200px]"
                         >
                           {isProcessing
-                            ? "Processing..."
+                            ? describeIngestion(ingestion)
                             : contentType === "pdf"
-                              ? "Process PDF for Chat & Summary"
+                              ? "Process File for Chat & Summary"
                               : "Process Link for Chat & Summary"}
                         </Button>
                       </div>
                     )}
 
-                  {contentId && (
+                  {(contentId || chatDocuments.length > 0) && (
                     <>
                       {selectedContentName && (
                         <div className="border rounded-lg p-4 bg-muted/50">
@@ -391,9 +723,10 @@ export default function Home() {
                         </div>
                       )}
                       <ChatInterface
+                        key={contentId ?? chatDocuments.map((d) => d.id).join()}
                         pdfFile={contentType === "pdf" ? file : null}
-                        pdfId={contentId}
-                        userId={userId}
+                        pdfId={contentId ?? undefined}
+                        pdfIds={chatDocuments.map((doc) => doc.id)}
                         contentType={contentType}
                       />
                     </>
@@ -8,7 +8,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { queryPdfDocument } from "@/lib/chat-service";
+import { isAbortError, streamFromServer } from "@/lib/streaming";
 import {
   testServerAction,
   testDatabaseAccess,
@@ -17,7 +17,22 @@ import {
   checkDatabaseContent,
   checkMatchDocumentsFunction,
 } from "@/lib/test-service";
-import { TEMPORARY_USER_ID } from "@/lib/constants";
+import { Source } from "@/lib/citations";
+import { SourceFootnotes } from "@/components/source-footnotes";
+import {
+  DEFAULT_RETRIEVAL_MODE,
+  RETRIEVAL_MODE_CONFIG,
+  RETRIEVAL_MODES,
+  RetrievalMode,
+} from "@/lib/retrieval-config";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
 
 /**
  * Message Type
@@ -25,10 +40,12 @@ import { TEMPORARY_USER_ID } from "@/lib/constants";
  * Defines the structure of chat messages in the interface:
  * - role: Identifies whether the message is from the user or assistant
  * - content: The actual text content of the message
+ * - sources: The document chunks an assistant answer cites, if any
  */
 type Message = {
   role: "user" | "assistant";
   content: string;
+  sources?: Source[];
 };
 
 /**
@@ -37,13 +54,13 @@ type Message = {
  * Props for the ChatInterface component:
  * - pdfFile: The PDF file object that was uploaded
  * - pdfId: The database ID of the stored PDF document (needed for RAG)
- * - userId: The ID of the current user (for storing chat history)
+ * - pdfIds: The IDs of several documents to chat with together (multi-document chat)
  * - contentType: The type of content being queried (pdf or link)
  */
 interface ChatInterfaceProps {
   pdfFile: File | null;
   pdfId?: string;
-  userId?: string;
+  pdfIds?: string[];
   contentType?: "pdf" | "link";
 }
 
@@ -56,7 +73,8 @@ interface ChatInterfaceProps {
  * Features:
  * - Message history display with user/assistant messages
  * - Text input for user questions
- * - Send button to submit queries
+ * - Search mode setting (hybrid, semantic or keyword retrieval)
+ * - Send button to submit queries, and a Stop button while an answer streams
  * - Loading indicator during processing
  *
  * The component communicates with the backend RAG service to generate
@@ -65,7 +83,7 @@ interface ChatInterfaceProps {
 export function ChatInterface({
   pdfFile,
   pdfId,
-  userId = TEMPORARY_USER_ID,
+  pdfIds = [],
   contentType = "pdf",
 }: ChatInterfaceProps) {
   // Track chat message history
@@ -73,31 +91,46 @@ export function ChatInterface({
     {
       role: "assistant",
       content:
-        contentType === "pdf"
-          ? "Hello! I can answer questions about your uploaded PDF. What would you like to know?"
-          : "Hello! I can answer questions about your web page. What would you like to know?",
+        pdfIds.length > 1
+          ? `Hello! I can answer questions across the ${pdfIds.length} documents you selected, and compare them. What would you like to know?`
+          : contentType === "pdf"
+            ? "Hello! I can answer questions about your uploaded PDF. What would you like to know?"
+            : "Hello! I can answer questions about your web page. What would you like to know?",
     },
   ]);
 
   // Track the current input value
   const [input, setInput] = useState("");
 
+  // Track how chunks are retrieved (hybrid, vector-only or keyword-only)
+  const [retrievalMode, setRetrievalMode] = useState<RetrievalMode>(
+    DEFAULT_RETRIEVAL_MODE,
+  );
+
   // Track loading state during query processing
   const [isLoading, setIsLoading] = useState(false);
 
+  // Track whether answer text is currently arriving
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  // Controller used to cancel the answer being generated
+  const [abortController, setAbortController] =
+    useState<AbortController | null>(null);
+
   /**
    * Handle sending a message to the RAG system
    *
    * This function:
    * 1. Validates the input and required props
    * 2. Adds the user message to the chat
-   * 3. Sends the query to the backend RAG service
-   * 4. Adds the assistant's response to the chat
+   * 3. Streams the query through the backend RAG service
+   * 4. Renders the assistant's response as it arrives, until it finishes
+   *    or the user stops it
    */
   const handleSendMessage = async () => {
     // Validate input and required props
     if (!input.trim()) return;
-    if (!pdfId) {
+    if (!pdfId && pdfIds.length === 0) {
       console.error("Missing pdfId - cannot query document");
       const errorMessage: Message = {
         role: "assistant",
@@ -114,43 +147,72 @@ export function ChatInterface({
     setInput("");
     setIsLoading(true);
 
+    // Allow the user to cancel the answer while it is being generated
+    const controller = new AbortController();
+    setAbortController(controller);
+
+    // Whether the assistant message for this answer has been added yet
+    let started = false;
+
+    // Add the assistant message on the first event, then keep updating it
+    const updateAnswer = (update: (message: Message) => Message) => {
+      const isFirst = !started;
+      started = true;
+      setMessages((prev) =>
+        isFirst
+          ? [...prev, update({ role: "assistant", content: "" })]
+          : [...prev.slice(0, -1), update(prev[prev.length - 1])],
+      );
+      setIsStreaming(true);
+    };
+
     try {
-      // Create FormData to pass to server action
+      // Create FormData to pass to the streaming route
       const formData = new FormData();
+      formData.append("mode", "chat");
       formData.append("query", userMessage.content);
-      formData.append("pdfId", pdfId);
-      formData.append("userId", userId);
+      if (pdfIds.length > 0) {
+        pdfIds.forEach((id) => formData.append("pdfIds", id));
+      } else if (pdfId) {
+        formData.append("pdfId", pdfId);
+      }
       formData.append("contentType", contentType);
+      formData.append("retrievalMode", retrievalMode);
 
       console.log(
-        `Sending query for content ID: ${pdfId}, type: ${contentType}`,
+        `Sending query for content ID(s): ${pdfIds.length > 0 ? pdfIds.join(", ") : pdfId}, type: ${contentType}`,
       );
 
-      // Set a timeout to detect if server actions aren't responding
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => {
-          reject(
-            new Error(
-              "Request to server timed out - server actions may not be working",
-            ),
-          );
-        }, 10000); // 10 second timeout
-      });
-
-      // Race between the actual query and the timeout
-      const response = (await Promise.race([
-        queryPdfDocument(formData),
-        timeoutPromise,
-      ])) as { answer: string };
-
-      // Add response to chat
-      const assistantMessage: Message = {
-        role: "assistant",
-        content: response.answer,
-      };
-
-      setMessages((prev) => [...prev, assistantMessage]);
+      // Stream the answer into the chat as it is generated
+      await streamFromServer<{ answer: string; sources: Source[] }>(
+        formData,
+        {
+          onToken: (token) =>
+            updateAnswer((message) => ({
+              ...message,
+              content: message.content + token,
+            })),
+          onDone: (response) =>
+            updateAnswer((message) => ({
+              ...message,
+              content: response.answer,
+              sources: response.sources,
+            })),
+        },
+        controller.signal,
+      );
     } catch (error) {
+      if (isAbortError(error)) {
+        // Keep whatever was generated so far and mark it as stopped
+        updateAnswer((message) => ({
+          ...message,
+          content: message.content
+            ? `${message.content} [stopped]`
+            : "Stopped before an answer was generated.",
+        }));
+        return;
+      }
+
       console.error("Error in chat request:", error);
 
       // Handle error with friendly message
@@ -161,9 +223,18 @@ export function ChatInterface({
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
       setIsLoading(false);
+      setIsStreaming(false);
+      setAbortController(null);
     }
   };
 
+  /**
+   * Cancel the answer that is currently being generated
+   */
+  const handleStop = () => {
+    abortController?.abort();
+  };
+
   // Add a new function to test server actions
   const handleTestServerAction = async () => {
     setIsLoading(true);
@@ -365,7 +436,7 @@ export function ChatInterface({
   };
 
   // Don't render if neither PDF file nor PDF ID is available
-  if (!pdfFile && !pdfId) {
+  if (!pdfFile && !pdfId && pdfIds.length === 0) {
     return null;
   }
 
@@ -374,7 +445,9 @@ export function ChatInterface({
       <CardHeader>
         <CardTitle className="flex flex-col sm:flex-row gap-2 justify-between items-start sm:items-center">
           <span>
-            Chat with your {contentType === "pdf" ? "PDF" : "web page"}
+            {pdfIds.length > 1
+              ? `Chat with ${pdfIds.length} documents`
+              : `Chat with your ${contentType === "pdf" ? "PDF" : "web page"}`}
           </span>
           <div className="flex flex-wrap gap-2">
             <Button
@@ -445,12 +518,13 @@ export function ChatInterface({
               }`}
             >
               {message.content}
+              {message.sources && <SourceFootnotes sources={message.sources} />}
             </div>
           </div>
         ))}
 
-        {/* Loading indicator */}
-        {isLoading && (
+        {/* Loading indicator, until the first part of the answer arrives */}
+        {isLoading && !isStreaming && (
           <div className="flex justify-start">
             <div className="max-w-[80%] rounded-lg p-3 bg-muted">
               <div className="flex gap-2">
@@ -464,7 +538,30 @@ export function ChatInterface({
       </CardContent>
 
       {/* Message input and send button */}
-      <CardFooter className="p-4 pt-0">
+      <CardFooter className="p-4 pt-0 flex-col items-stretch gap-2">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="retrieval-mode" className="text-sm">
+            Search
+          </Label>
+          <Select
+            value={retrievalMode}
+            onValueChange={(value) => setRetrievalMode(value as RetrievalMode)}
+          >
+            <SelectTrigger id="retrieval-mode" className="w-[140px]" size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RETRIEVAL_MODES.map((mode) => (
+                <SelectItem key={mode.value} value={mode.value}>
+                  {mode.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            {RETRIEVAL_MODE_CONFIG[retrievalMode].description}
+          </span>
+        </div>
         <div className="flex w-full gap-2">
           <Textarea
             placeholder={`Ask a question about your ${contentType === "pdf" ? "PDF" : "web page"}...`}
@@ -478,12 +575,18 @@ export function ChatInterface({
               }
             }}
           />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!input.trim() || isLoading}
-          >
-            Send
-          </Button>
+          {abortController ? (
+            <Button variant="outline" onClick={handleStop}>
+              Stop
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSendMessage}
+              disabled={!input.trim() || isLoading}
+            >
+              Send
+            </Button>
+          )}
         </div>
       </CardFooter>
     </Card>
@@ -0,0 +1,59 @@
+"use client";
+
+import {
+  CHUNKING_STRATEGIES,
+  CHUNKING_STRATEGY_CONFIG,
+  ChunkingStrategy,
+} from "@/lib/chunking-config";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+
+interface ChunkingStrategySelectProps {
+  id: string;
+  value: ChunkingStrategy;
+  onChange: (strategy: ChunkingStrategy) => void;
+}
+
+/**
+ * Chunking Strategy Select Component
+ *
+ * Picks how an upload or link is split into chunks before it is processed,
+ * with a description of the selected preset.
+ */
+export function ChunkingStrategySelect({
+  id,
+  value,
+  onChange,
+}: ChunkingStrategySelectProps) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>Chunking</Label>
+      <div className="flex items-center gap-2">
+        <Select
+          value={value}
+          onValueChange={(strategy) => onChange(strategy as ChunkingStrategy)}
+        >
+          <SelectTrigger id={id} className="w-full max-w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CHUNKING_STRATEGIES.map((strategy) => (
+              <SelectItem key={strategy.value} value={strategy.value}>
+                {strategy.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground">
+          {CHUNKING_STRATEGY_CONFIG[value].description}
+        </span>
+      </div>
+    </div>
+  );
+}
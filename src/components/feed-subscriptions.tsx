@@ -0,0 +1,224 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  checkFeedNow,
+  fetchFeedSubscriptions,
+  subscribeToFeed,
+  unsubscribeFromFeed,
+} from "@/lib/feed-service";
+import type { FeedSubscription } from "@/lib/feeds";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/**
+ * Feed Subscriptions Component
+ *
+ * Lets the user follow RSS and Atom feeds. New entries are added to the
+ * library automatically, tagged with the feed's name; "Check now" polls a
+ * feed right away instead of waiting for the schedule.
+ */
+export function FeedSubscriptions() {
+  const [feeds, setFeeds] = useState<FeedSubscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState("");
+  const [feedName, setFeedName] = useState("");
+  const [isSubscribing, setIsSubscribing] = useState(false);
+  // The feed currently being polled with "Check now"
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadFeeds() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setFeeds(await fetchFeedSubscriptions());
+      } catch (err) {
+        console.error("Failed to load feeds:", err);
+        setError("Unable to load your feeds. Please try again later.");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadFeeds();
+  }, []);
+
+  // Follow the feed typed into the form
+  const handleSubscribe = async () => {
+    try {
+      setIsSubscribing(true);
+      const formData = new FormData();
+      formData.append("url", feedUrl);
+      formData.append("name", feedName);
+      const feed = await subscribeToFeed(formData);
+      setFeeds((prev) => [feed, ...prev]);
+      setFeedUrl("");
+      setFeedName("");
+      toast.success(
+        `Following "${feed.name}". New entries will appear in your library.`,
+      );
+    } catch (err) {
+      console.error("Failed to subscribe to feed:", err);
+      toast.error(
+        err instanceof Error ? err.message : "Unable to follow this feed",
+      );
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  // Poll a feed right away
+  const handleCheckNow = async (feed: FeedSubscription) => {
+    try {
+      setCheckingId(feed.id);
+      const formData = new FormData();
+      formData.append("feedId", feed.id);
+      const { queued } = await checkFeedNow(formData);
+      // Reload to show the new poll time and any error
+      setFeeds(await fetchFeedSubscriptions());
+      toast.success(
+        queued > 0
+          ? `Adding ${queued} new entries from "${feed.name}" to your library`
+          : `No new entries in "${feed.name}"`,
+      );
+    } catch (err) {
+      console.error("Failed to check feed:", err);
+      toast.error("Unable to check this feed");
+    } finally {
+      setCheckingId(null);
+    }
+  };
+
+  // Stop following a feed, after confirming
+  const handleUnsubscribe = async (feed: FeedSubscription) => {
+    if (
+      !window.confirm(
+        `Stop following "${feed.name}"? Entries already in your library are kept.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const formData = new FormData();
+      formData.append("feedId", feed.id);
+      await unsubscribeFromFeed(formData);
+      setFeeds((prev) => prev.filter((item) => item.id !== feed.id));
+      toast.success(`Unfollowed "${feed.name}"`);
+    } catch (err) {
+      console.error("Failed to unsubscribe from feed:", err);
+      toast.error("Unable to unfollow this feed");
+    }
+  };
+
+  // Format the date to be more readable
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString(undefined, {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Feeds</CardTitle>
+        <CardDescription>
+          Follow RSS or Atom feeds to add new articles to your library
+          automatically
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2">
+          <Label htmlFor="feed-url-input">Feed URL</Label>
+          <Input
+            id="feed-url-input"
+            type="url"
+            placeholder="https://example.com/feed.xml"
+            value={feedUrl}
+            onChange={(event) => setFeedUrl(event.target.value)}
+          />
+          <Input
+            aria-label="Feed name"
+            placeholder="Name (optional, defaults to the feed's title)"
+            value={feedName}
+            onChange={(event) => setFeedName(event.target.value)}
+          />
+          <Button
+            onClick={handleSubscribe}
+            disabled={!feedUrl || isSubscribing}
+            className="w-full max-w-[200px]"
+          >
+            {isSubscribing ? "Checking feed..." : "Follow feed"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <p className="text-destructive text-center py-4">{error}</p>
+        ) : feeds.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            You aren&apos;t following any feeds yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {feeds.map((feed) => (
+              <div
+                key={feed.id}
+                className="border rounded-lg p-4 flex items-center justify-between gap-4"
+              >
+                <div className="flex flex-col min-w-0">
+                  <span className="font-medium">{feed.name}</span>
+                  <span className="text-sm text-muted-foreground truncate">
+                    {feed.url}
+                  </span>
+                  <span className="text-sm text-muted-foreground">
+                    {feed.last_polled_at
+                      ? `Last checked ${formatDate(feed.last_polled_at)}`
+                      : "Not checked yet"}
+                  </span>
+                  {feed.last_error && (
+                    <span className="text-sm text-destructive">
+                      {feed.last_error}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleUnsubscribe(feed)}
+                  >
+                    Unfollow
+                  </Button>
+                  <Button
+                    onClick={() => handleCheckNow(feed)}
+                    disabled={checkingId !== null}
+                  >
+                    {checkingId === feed.id ? "Checking..." : "Check now"}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
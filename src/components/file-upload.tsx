@@ -4,6 +4,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useState } from "react";
 import { Card, CardContent } from "./ui/card";
+import {
+  ACCEPTED_FILE_TYPES,
+  SUPPORTED_FORMAT_LABELS,
+  detectFileFormat,
+} from "@/lib/file-formats";
 
 interface FileUploadProps {
   onFileChange: (file: File | null) => void;
@@ -15,8 +20,8 @@ export function FileUpload({ onFileChange }: FileUploadProps) {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0] || null;
     if (file) {
-      if (file.type !== 'application/pdf') {
-        alert('Please upload a PDF file');
+      if (!detectFileFormat(file.name, file.type)) {
+        alert(`Please upload one of: ${SUPPORTED_FORMAT_LABELS}`);
         e.target.value = '';
         setFileName(null);
         onFileChange(null);
@@ -35,11 +40,11 @@ export function FileUpload({ onFileChange }: FileUploadProps) {
       <CardContent className="pt-6">
         <div className="grid w-full items-center gap-4">
           <div className="flex flex-col space-y-2">
-            <Label htmlFor="file">Upload PDF</Label>
+            <Label htmlFor="file">Upload a file (PDF, Office, text, Markdown, HTML or subtitles)</Label>
             <Input 
               id="file" 
               type="file" 
-              accept=".pdf" 
+              accept={ACCEPTED_FILE_TYPES}
               onChange={handleFileChange}
               className="cursor-pointer"
             />
@@ -1,7 +1,14 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { fetchUserPdfs } from "@/lib/rag-service";
+import {
+  deleteDocument,
+  fetchUserPdfs,
+  refreshLink,
+  setLinkRefreshSchedule,
+  shareDocument,
+} from "@/lib/rag-service";
+import { toast } from "sonner";
 import {
   Card,
   CardContent,
@@ -11,27 +18,72 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Input } from "@/components/ui/input";
+import { VersionHistory } from "@/components/version-history";
+import type { DocumentStatus } from "@/lib/document-access";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 type PDF = {
   id: string;
   name: string;
   created_at: string;
+  status: DocumentStatus;
+  shared: boolean;
+  tags: string[];
+  format: string;
+  refresh_interval_minutes: number | null;
+  last_refreshed_at: string | null;
+  last_change_summary: string | null;
+  version_number: number;
+  version_count: number;
 };
 
+// How often a saved link can be refreshed automatically, in minutes ("0": never)
+const REFRESH_SCHEDULES = [
+  { value: "0", label: "Manual refresh" },
+  { value: "60", label: "Refresh hourly" },
+  { value: "1440", label: "Refresh daily" },
+  { value: "10080", label: "Refresh weekly" },
+];
+
 interface PdfLibraryProps {
   onSelectPdf: (id: string, name: string) => void;
+  onSelectPdfs?: (pdfs: Array<{ id: string; name: string }>) => void;
 }
 
 /**
  * PDF Library Component
  *
  * Displays a list of previously uploaded PDFs and allows the user to select one
- * to chat with without re-embedding.
+ * to chat with without re-embedding, or to tick several and chat with them
+ * together. PDFs the user uploaded can be shared by email or deleted; PDFs
+ * shared with them are marked as such. Saved links can be refreshed now or
+ * on a schedule, and show what changed the last time they were refreshed.
+ * Each item is listed as its latest version; its version history lets the
+ * user open an earlier version, compare versions or upload a new one.
+ * Documents still being processed, or whose processing failed, are shown
+ * with their status and can't be opened until they are ready.
  */
-export function PdfLibrary({ onSelectPdf }: PdfLibraryProps) {
+export function PdfLibrary({ onSelectPdf, onSelectPdfs }: PdfLibraryProps) {
   const [pdfs, setPdfs] = useState<PDF[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // The PDF whose share form is open, and the email typed into it
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [shareEmail, setShareEmail] = useState("");
+  // The link currently being refreshed
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+  // The item whose version history is open
+  const [versionsId, setVersionsId] = useState<string | null>(null);
+  // Bumped after a new version is added so the list is loaded again
+  const [reloadCount, setReloadCount] = useState(0);
 
   useEffect(() => {
     async function loadPdfs() {
@@ -49,7 +101,113 @@ export function PdfLibrary({ onSelectPdf }: PdfLibraryProps) {
     }
 
     loadPdfs();
-  }, []);
+  }, [reloadCount]);
+
+  // Toggle a PDF in the multi-document selection
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id],
+    );
+  };
+
+  // Chat with every ticked PDF at once
+  const handleChatWithSelected = () => {
+    onSelectPdfs?.(
+      pdfs
+        .filter((pdf) => selectedIds.includes(pdf.id))
+        .map((pdf) => ({ id: pdf.id, name: pdf.name })),
+    );
+  };
+
+  // Delete a PDF the user owns, after confirming
+  const handleDelete = async (pdf: PDF) => {
+    if (!window.confirm(`Delete "${pdf.name}" and its chat history?`)) {
+      return;
+    }
+
+    try {
+      const formData = new FormData();
+      formData.append("pdfId", pdf.id);
+      await deleteDocument(formData);
+      setPdfs((prev) => prev.filter((item) => item.id !== pdf.id));
+      setSelectedIds((prev) => prev.filter((id) => id !== pdf.id));
+      toast.success(`Deleted "${pdf.name}"`);
+    } catch (err) {
+      console.error("Failed to delete PDF:", err);
+      toast.error("Unable to delete this PDF");
+    }
+  };
+
+  // Share a PDF the user owns with the email typed into its share form
+  const handleShare = async (pdf: PDF) => {
+    try {
+      const formData = new FormData();
+      formData.append("pdfId", pdf.id);
+      formData.append("email", shareEmail);
+      await shareDocument(formData);
+      toast.success(`Shared "${pdf.name}" with ${shareEmail}`);
+      setSharingId(null);
+      setShareEmail("");
+    } catch (err) {
+      console.error("Failed to share PDF:", err);
+      toast.error(
+        err instanceof Error ? err.message : "Unable to share this PDF",
+      );
+    }
+  };
+
+  // Re-fetch a saved link and show what changed
+  const handleRefresh = async (pdf: PDF) => {
+    try {
+      setRefreshingId(pdf.id);
+      const formData = new FormData();
+      formData.append("pdfId", pdf.id);
+      const result = await refreshLink(formData);
+      setPdfs((prev) =>
+        prev.map((item) =>
+          item.id === pdf.id
+            ? {
+                ...item,
+                last_refreshed_at: new Date().toISOString(),
+                last_change_summary: result.changed
+                  ? result.summary
+                  : item.last_change_summary,
+              }
+            : item,
+        ),
+      );
+      toast.success(
+        result.changed
+          ? `"${pdf.name}" changed: ${result.addedChunks} passages updated`
+          : `"${pdf.name}" hasn't changed`,
+      );
+    } catch (err) {
+      console.error("Failed to refresh link:", err);
+      toast.error("Unable to refresh this link");
+    } finally {
+      setRefreshingId(null);
+    }
+  };
+
+  // Save how often a saved link is refreshed
+  const handleScheduleChange = async (pdf: PDF, value: string) => {
+    try {
+      const formData = new FormData();
+      formData.append("pdfId", pdf.id);
+      formData.append("intervalMinutes", value);
+      await setLinkRefreshSchedule(formData);
+      setPdfs((prev) =>
+        prev.map((item) =>
+          item.id === pdf.id
+            ? { ...item, refresh_interval_minutes: Number(value) || null }
+            : item,
+        ),
+      );
+    } catch (err) {
+      console.error("Failed to save refresh schedule:", err);
+      toast.error("Unable to save the refresh schedule");
+    }
+  };
 
   // Format the date to be more readable
   const formatDate = (dateString: string) => {
@@ -66,7 +224,8 @@ export function PdfLibrary({ onSelectPdf }: PdfLibraryProps) {
       <CardHeader>
         <CardTitle>Your PDF Library</CardTitle>
         <CardDescription>
-          Select a previously uploaded PDF to chat with it
+          Select a previously uploaded PDF to chat with it, or tick several to
+          chat with them together
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -87,22 +246,178 @@ export function PdfLibrary({ onSelectPdf }: PdfLibraryProps) {
               {pdfs.map((pdf) => (
                 <div
                   key={pdf.id}
-                  className="flex items-center justify-between border rounded-lg p-4 hover:bg-accent/50 transition-colors"
+                  className="border rounded-lg p-4 hover:bg-accent/50 transition-colors"
                 >
-                  <div className="flex flex-col">
-                    <span className="font-medium">{pdf.name}</span>
-                    <span className="text-sm text-muted-foreground">
-                      Uploaded on {formatDate(pdf.created_at)}
-                    </span>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      {onSelectPdfs && (
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${pdf.name}`}
+                          checked={selectedIds.includes(pdf.id)}
+                          onChange={() => toggleSelected(pdf.id)}
+                          disabled={pdf.status !== "ready"}
+                          className="h-4 w-4 cursor-pointer"
+                        />
+                      )}
+                      <div className="flex flex-col">
+                        <span className="font-medium">{pdf.name}</span>
+                        {pdf.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 pt-1">
+                            {pdf.tags.map((tag) => (
+                              <span
+                                key={tag}
+                                className="text-xs rounded-full bg-secondary text-secondary-foreground px-2 py-0.5"
+                              >
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        <span className="text-sm text-muted-foreground">
+                          {pdf.shared ? "Shared with you" : "Uploaded"} on{" "}
+                          {formatDate(pdf.created_at)}
+                          {pdf.version_count > 1 &&
+                            ` · v${pdf.version_number} of ${pdf.version_count}`}
+                        </span>
+                        {pdf.status === "pending" && (
+                          <span className="text-sm text-muted-foreground">
+                            Processing...
+                          </span>
+                        )}
+                        {pdf.status === "failed" && (
+                          <span className="text-sm text-destructive">
+                            Processing failed
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex gap-2">
+                      {!pdf.shared &&
+                        pdf.format === "link" &&
+                        pdf.status === "ready" && (
+                          <>
+                            <Select
+                              value={String(pdf.refresh_interval_minutes ?? 0)}
+                              onValueChange={(value) =>
+                                handleScheduleChange(pdf, value)
+                              }
+                            >
+                              <SelectTrigger
+                                aria-label={`Refresh schedule for ${pdf.name}`}
+                                className="w-[160px]"
+                              >
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {REFRESH_SCHEDULES.map((schedule) => (
+                                  <SelectItem
+                                    key={schedule.value}
+                                    value={schedule.value}
+                                  >
+                                    {schedule.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              variant="outline"
+                              onClick={() => handleRefresh(pdf)}
+                              disabled={refreshingId !== null}
+                            >
+                              {refreshingId === pdf.id
+                                ? "Refreshing..."
+                                : "Refresh"}
+                            </Button>
+                          </>
+                        )}
+                      {!pdf.shared && (
+                        <>
+                          <Button
+                            variant="outline"
+                            onClick={() =>
+                              setSharingId(sharingId === pdf.id ? null : pdf.id)
+                            }
+                          >
+                            Share
+                          </Button>
+                          <Button
+                            variant="outline"
+                            onClick={() => handleDelete(pdf)}
+                          >
+                            Delete
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        variant="outline"
+                        onClick={() =>
+                          setVersionsId(versionsId === pdf.id ? null : pdf.id)
+                        }
+                        disabled={pdf.status !== "ready"}
+                      >
+                        Versions
+                      </Button>
+                      <Button
+                        onClick={() => onSelectPdf(pdf.id, pdf.name)}
+                        disabled={pdf.status !== "ready"}
+                      >
+                        Chat
+                      </Button>
+                    </div>
                   </div>
-                  <Button onClick={() => onSelectPdf(pdf.id, pdf.name)}>
-                    Chat
-                  </Button>
+                  {pdf.last_change_summary && (
+                    <div className="pt-3 text-sm">
+                      <span className="font-medium">
+                        What changed
+                        {pdf.last_refreshed_at &&
+                          ` (checked ${formatDate(pdf.last_refreshed_at)})`}
+                        :
+                      </span>
+                      <p className="whitespace-pre-line text-muted-foreground">
+                        {pdf.last_change_summary}
+                      </p>
+                    </div>
+                  )}
+                  {versionsId === pdf.id && (
+                    <VersionHistory
+                      pdf={pdf}
+                      onSelectVersion={onSelectPdf}
+                      onVersionAdded={() => {
+                        setVersionsId(null);
+                        setReloadCount((count) => count + 1);
+                      }}
+                    />
+                  )}
+                  {sharingId === pdf.id && (
+                    <div className="flex gap-2 pt-3">
+                      <Input
+                        type="email"
+                        placeholder="Email of the person to share with"
+                        aria-label={`Share ${pdf.name} with`}
+                        value={shareEmail}
+                        onChange={(event) => setShareEmail(event.target.value)}
+                      />
+                      <Button
+                        onClick={() => handleShare(pdf)}
+                        disabled={!shareEmail}
+                      >
+                        Send
+                      </Button>
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           </ScrollArea>
         )}
+        {onSelectPdfs && selectedIds.length > 1 && (
+          <div className="flex justify-end pt-4">
+            <Button onClick={handleChatWithSelected}>
+              Chat with {selectedIds.length} selected
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,224 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  fetchReindexJob,
+  isCurrentUserAdmin,
+  startReindex,
+} from "@/lib/admin-service";
+import type { ReindexProgress } from "@/lib/reindex-jobs";
+import { CHUNKING_STRATEGIES } from "@/lib/chunking-config";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// How often a running job's progress is fetched
+const REINDEX_POLL_INTERVAL_MS = 2000;
+
+// Select value for keeping each document's own chunking strategy
+const KEEP_CHUNKING = "keep";
+
+type ReindexScope = "all" | "stale-model" | "documents";
+
+/**
+ * Re-index Panel Component
+ *
+ * Lets administrators re-chunk and re-embed one document, the documents
+ * embedded with an older model, or the whole library, and follow the job.
+ * Documents keep answering chat with their old chunks until theirs are
+ * replaced. Renders nothing for other users.
+ */
+export function ReindexPanel() {
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [scope, setScope] = useState<ReindexScope>("stale-model");
+  const [pdfId, setPdfId] = useState("");
+  const [chunking, setChunking] = useState(KEEP_CHUNKING);
+  const [isStarting, setIsStarting] = useState(false);
+  const [job, setJob] = useState<ReindexProgress | null>(null);
+
+  useEffect(() => {
+    isCurrentUserAdmin()
+      .then(setIsAdmin)
+      .catch(() => setIsAdmin(false));
+  }, []);
+
+  const isRunning = job?.status === "queued" || job?.status === "running";
+
+  // Follow the job until it finishes
+  useEffect(() => {
+    if (!job || !isRunning) {
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const formData = new FormData();
+        formData.append("jobId", job.id);
+        const progress = await fetchReindexJob(formData);
+        setJob(progress);
+
+        if (progress.status === "completed") {
+          toast.success(
+            progress.failed.length > 0
+              ? `Re-indexed ${progress.progress_total - progress.failed.length} documents, ${progress.failed.length} failed`
+              : `Re-indexed ${progress.progress_total} documents`,
+          );
+        } else if (progress.status === "failed") {
+          toast.error(`Re-indexing stopped: ${progress.error}`);
+        }
+      } catch (err) {
+        console.error("Failed to fetch re-index progress:", err);
+      }
+    }, REINDEX_POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timeout);
+  }, [job, isRunning]);
+
+  // Queue a re-index of the chosen documents
+  const handleStart = async () => {
+    if (
+      scope === "all" &&
+      !window.confirm(
+        "Re-index every document in the library? This embeds all of their text again.",
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsStarting(true);
+      const formData = new FormData();
+      formData.append("scope", scope);
+      if (scope === "documents") {
+        formData.append("pdfIds", pdfId);
+      }
+      if (chunking !== KEEP_CHUNKING) {
+        formData.append("chunkingStrategy", chunking);
+      }
+      setJob(await startReindex(formData));
+    } catch (err) {
+      console.error("Failed to start re-index:", err);
+      toast.error(
+        err instanceof Error ? err.message : "Unable to start re-indexing",
+      );
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <Card className="w-full mt-6">
+      <CardHeader>
+        <CardTitle>Re-index</CardTitle>
+        <CardDescription>
+          Re-chunk and re-embed documents, e.g. after changing the embedding
+          model. Documents stay searchable while they are re-indexed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2">
+          <Label htmlFor="reindex-scope-select">Documents</Label>
+          <Select
+            value={scope}
+            onValueChange={(value) => setScope(value as ReindexScope)}
+          >
+            <SelectTrigger
+              id="reindex-scope-select"
+              className="w-full max-w-[300px]"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="stale-model">
+                Embedded with another model
+              </SelectItem>
+              <SelectItem value="documents">One document</SelectItem>
+              <SelectItem value="all">The whole library</SelectItem>
+            </SelectContent>
+          </Select>
+          {scope === "documents" && (
+            <Input
+              aria-label="Document ID"
+              placeholder="Document ID"
+              value={pdfId}
+              onChange={(event) => setPdfId(event.target.value)}
+            />
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="reindex-chunking-select">Chunking</Label>
+          <Select value={chunking} onValueChange={setChunking}>
+            <SelectTrigger
+              id="reindex-chunking-select"
+              className="w-full max-w-[300px]"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={KEEP_CHUNKING}>
+                Keep each document&apos;s
+              </SelectItem>
+              {CHUNKING_STRATEGIES.map((strategy) => (
+                <SelectItem key={strategy.value} value={strategy.value}>
+                  {strategy.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          onClick={handleStart}
+          disabled={
+            isStarting || isRunning || (scope === "documents" && !pdfId.trim())
+          }
+          className="w-full max-w-[200px]"
+        >
+          {isStarting ? "Starting..." : "Start re-index"}
+        </Button>
+
+        {job && (
+          <div className="space-y-1 text-sm">
+            <p>
+              {job.status === "queued"
+                ? "Waiting to start..."
+                : `${job.progress_done}/${job.progress_total} documents (${job.percent}%)`}
+            </p>
+            {job.current_pdf_id && (
+              <p className="text-muted-foreground">
+                Embedding {job.current_chunks_done}/{job.current_chunks_total}{" "}
+                chunks of {job.current_pdf_id}
+              </p>
+            )}
+            {job.failed.map((failure) => (
+              <p key={failure.pdf_id} className="text-destructive">
+                {failure.pdf_id}: {failure.error}
+              </p>
+            ))}
+            {job.error && <p className="text-destructive">{job.error}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
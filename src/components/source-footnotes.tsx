@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { describeSource, Source } from "@/lib/citations";
+
+interface SourceFootnotesProps {
+  sources: Source[];
+}
+
+/**
+ * Source Footnotes Component
+ *
+ * Lists the sources an assistant answer can cite as [1], [2], ...
+ * Clicking a footnote expands the snippet of the chunk it refers to.
+ */
+export function SourceFootnotes({ sources }: SourceFootnotesProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  if (sources.length === 0) {
+    return null;
+  }
+
+  return (
+    <ol className="mt-3 border-t pt-2 space-y-1 text-xs">
+      {sources.map((source) => {
+        const isOpen = openIndex === source.index;
+
+        return (
+          <li key={source.index}>
+            <button
+              type="button"
+              onClick={() => setOpenIndex(isOpen ? null : source.index)}
+              className="cursor-pointer text-left hover:underline"
+              aria-expanded={isOpen}
+            >
+              <span className="font-medium">[{source.index}]</span>{" "}
+              {describeSource(source)}
+              {source.similarity !== null && (
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {Math.round(source.similarity * 100)}% match
+                </span>
+              )}
+            </button>
+            {isOpen && (
+              <div className="mt-1 rounded border bg-background p-2 text-muted-foreground">
+                <p>{source.snippet}</p>
+                {source.url && (
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-1 inline-block underline"
+                  >
+                    Open source page
+                  </a>
+                )}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
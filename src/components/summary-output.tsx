@@ -4,10 +4,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
 
 interface SummaryOutputProps {
   summary: string | null;
+  sectionCount?: number;
   isLoading: boolean;
 }
 
-export function SummaryOutput({ summary, isLoading }: SummaryOutputProps) {
+export function SummaryOutput({
+  summary,
+  sectionCount = 0,
+  isLoading,
+}: SummaryOutputProps) {
   return (
     <Card className="w-full">
       <CardHeader>
@@ -19,11 +24,19 @@ export function SummaryOutput({ summary, isLoading }: SummaryOutputProps) {
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
           </div>
         ) : summary ? (
-          <div className="prose prose-zinc dark:prose-invert max-w-none">
-            {summary.split('\n').map((paragraph, index) => (
-              paragraph ? <p key={index}>{paragraph}</p> : <br key={index} />
-            ))}
-          </div>
+          <>
+            {sectionCount > 1 && (
+              <p className="text-sm text-muted-foreground mb-4">
+                This document was too long to summarize at once, so its{" "}
+                {sectionCount} sections were summarized separately and merged.
+              </p>
+            )}
+            <div className="prose prose-zinc dark:prose-invert max-w-none">
+              {summary.split('\n').map((paragraph, index) => (
+                paragraph ? <p key={index}>{paragraph}</p> : <br key={index} />
+              ))}
+            </div>
+          </>
         ) : (
           <p className="text-muted-foreground text-center h-40 flex items-center justify-center">
             Summary will appear here after generation
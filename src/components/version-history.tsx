@@ -0,0 +1,279 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  compareDocumentVersions,
+  discardIngestionJob,
+  fetchDocumentVersions,
+  processPdf,
+} from "@/lib/rag-service";
+import type {
+  DocumentVersion,
+  VersionComparison,
+} from "@/lib/document-versions";
+import type { DiffPart } from "@/lib/text-diff";
+import type { IngestionProgress } from "@/lib/ingestion-jobs";
+import {
+  describeIngestion,
+  waitForIngestionJob,
+} from "@/lib/ingestion-progress";
+import { ACCEPTED_FILE_TYPES } from "@/lib/file-formats";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Unchanged runs longer than this are collapsed, keeping this many lines of
+// context on each side of a change
+const DIFF_CONTEXT_LINES = 3;
+
+interface VersionHistoryProps {
+  pdf: { id: string; name: string; format: string; shared: boolean };
+  onSelectVersion: (id: string, name: string) => void;
+  onVersionAdded: () => void;
+}
+
+/**
+ * Render a line diff, collapsing long runs of unchanged lines
+ */
+function DiffView({ parts }: { parts: DiffPart[] }) {
+  return (
+    <pre className="text-xs whitespace-pre-wrap rounded-md border p-2 max-h-[300px] overflow-auto">
+      {parts.map((part, index) => {
+        if (part.type !== "unchanged") {
+          return part.lines.map((line, lineIndex) => (
+            <div
+              key={`${index}-${lineIndex}`}
+              className={
+                part.type === "added"
+                  ? "bg-green-500/15 text-green-700 dark:text-green-400"
+                  : "bg-red-500/15 text-red-700 dark:text-red-400 line-through"
+              }
+            >
+              {part.type === "added" ? "+ " : "- "}
+              {line}
+            </div>
+          ));
+        }
+
+        // Keep context next to the changes before and after this run
+        const head = index > 0 ? DIFF_CONTEXT_LINES : 0;
+        const tail = index < parts.length - 1 ? DIFF_CONTEXT_LINES : 0;
+        const hidden = part.lines.length - head - tail;
+        const shown =
+          hidden > 0
+            ? [
+                ...part.lines.slice(0, head),
+                null,
+                ...part.lines.slice(part.lines.length - tail),
+              ]
+            : part.lines;
+
+        return shown.map((line, lineIndex) => (
+          <div key={`${index}-${lineIndex}`} className="text-muted-foreground">
+            {line === null ? `… ${hidden} unchanged lines …` : `  ${line}`}
+          </div>
+        ));
+      })}
+    </pre>
+  );
+}
+
+/**
+ * Version History Component
+ *
+ * Lists the versions of a library item so any of them can be opened for
+ * chat and summaries, compares two versions (a line diff plus a summary of
+ * what changed) and lets the owner upload a new version of a file, after
+ * which onVersionAdded is called so the library can reload.
+ */
+export function VersionHistory({
+  pdf,
+  onSelectVersion,
+  onVersionAdded,
+}: VersionHistoryProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // The two versions to compare, and the result
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  // Progress of the background job ingesting the uploaded version
+  const [ingestion, setIngestion] = useState<IngestionProgress | null>(null);
+
+  useEffect(() => {
+    async function loadVersions() {
+      try {
+        setIsLoading(true);
+        const formData = new FormData();
+        formData.append("pdfId", pdf.id);
+        const itemVersions = await fetchDocumentVersions(formData);
+        setVersions(itemVersions);
+        // Compare the latest version with the one before it by default
+        setFromId(itemVersions[itemVersions.length - 2]?.id ?? "");
+        setToId(itemVersions[itemVersions.length - 1]?.id ?? "");
+      } catch (err) {
+        console.error("Failed to load versions:", err);
+        toast.error("Unable to load the versions of this document");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadVersions();
+  }, [pdf.id]);
+
+  // Diff two versions and summarize the changes
+  const handleCompare = async () => {
+    try {
+      setIsComparing(true);
+      const formData = new FormData();
+      formData.append("fromId", fromId);
+      formData.append("toId", toId);
+      setComparison(await compareDocumentVersions(formData));
+    } catch (err) {
+      console.error("Failed to compare versions:", err);
+      toast.error("Unable to compare these versions");
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  // Upload a file as the next version of this item
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+
+    try {
+      setIsUploading(true);
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("versionOf", pdf.id);
+      const { jobId } = await processPdf(formData);
+
+      // The file is processed in the background; wait for it to be ready
+      const job = await waitForIngestionJob(jobId as string, setIngestion);
+      if (job.status === "failed") {
+        // Don't leave a failed version behind
+        const discardData = new FormData();
+        discardData.append("jobId", job.id);
+        await discardIngestionJob(discardData);
+        throw new Error(job.error ?? "Processing failed");
+      }
+
+      toast.success(`Added a new version of "${pdf.name}"`);
+      onVersionAdded();
+    } catch (err) {
+      console.error("Failed to upload version:", err);
+      toast.error("Unable to upload this version");
+    } finally {
+      setIsUploading(false);
+      setIngestion(null);
+    }
+  };
+
+  const versionLabel = (version: DocumentVersion) =>
+    `v${version.version_number} – ${new Date(version.created_at).toLocaleDateString()}`;
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground pt-3">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-3 pt-3 text-sm">
+      <div className="space-y-1">
+        {[...versions].reverse().map((version) => (
+          <div key={version.id} className="flex items-center justify-between">
+            <span>
+              {versionLabel(version)}{" "}
+              <span className="text-muted-foreground">{version.name}</span>
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                onSelectVersion(
+                  version.id,
+                  `${version.name} (v${version.version_number})`,
+                )
+              }
+            >
+              Chat
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {versions.length > 1 && (
+        <div className="flex items-center gap-2">
+          {[
+            { value: fromId, onChange: setFromId, label: "Older version" },
+            { value: toId, onChange: setToId, label: "Newer version" },
+          ].map((picker) => (
+            <Select
+              key={picker.label}
+              value={picker.value}
+              onValueChange={(value) => {
+                picker.onChange(value);
+                setComparison(null);
+              }}
+            >
+              <SelectTrigger aria-label={picker.label} className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={version.id}>
+                    {versionLabel(version)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+          <Button
+            size="sm"
+            onClick={handleCompare}
+            disabled={isComparing || !fromId || !toId || fromId === toId}
+          >
+            {isComparing ? "Comparing..." : "Compare"}
+          </Button>
+        </div>
+      )}
+
+      {comparison && (
+        <div className="space-y-2">
+          <span className="font-medium">
+            Changes between v{comparison.from.version_number} and v
+            {comparison.to.version_number}:
+          </span>
+          <p className="whitespace-pre-line text-muted-foreground">
+            {comparison.summary}
+          </p>
+          <DiffView parts={comparison.parts} />
+        </div>
+      )}
+
+      {!pdf.shared && pdf.format !== "link" && (
+        <label className="flex items-center gap-2">
+          <span className="font-medium">
+            {isUploading ? describeIngestion(ingestion) : "Upload new version:"}
+          </span>
+          <input
+            type="file"
+            accept={ACCEPTED_FILE_TYPES}
+            disabled={isUploading}
+            onChange={(event) => handleUpload(event.target.files?.[0])}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use server";
+
+import { after } from "next/server";
+import { getSessionUser, isAdmin, requireAdmin } from "@/lib/auth";
+import { isChunkingStrategy } from "@/lib/chunking-config";
+import {
+  createReindexJob,
+  getReindexJob,
+  ReindexFilter,
+  ReindexProgress,
+  runReindexJob,
+  toReindexProgress,
+} from "@/lib/reindex-jobs";
+
+/**
+ * Admin Service
+ *
+ * Server actions for administrators (listed in ADMIN_EMAILS, see auth.ts),
+ * who work on every user's documents. Every action but isCurrentUserAdmin
+ * refuses anyone else.
+ */
+
+/**
+ * Whether the signed-in user is an administrator, to show the admin tools
+ */
+export async function isCurrentUserAdmin(): Promise<boolean> {
+  return isAdmin(await getSessionUser());
+}
+
+/**
+ * Start re-indexing documents in the background
+ *
+ * @param formData - Form data containing scope ("all", "stale-model" or
+ *   "documents"), pdfIds for the "documents" scope (one or more), and
+ *   optionally chunkingStrategy (each document keeps its own if omitted)
+ * @returns The job's initial progress, to follow with fetchReindexJob
+ */
+export async function startReindex(
+  formData: FormData,
+): Promise<ReindexProgress> {
+  const scope = formData.get("scope") as string;
+  const pdfIds = (formData.getAll("pdfIds") as string[])
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const chunkingStrategy = formData.get("chunkingStrategy");
+  const admin = await requireAdmin();
+
+  let filter: ReindexFilter;
+  switch (scope) {
+    case "all":
+      filter = {};
+      break;
+    case "stale-model":
+      filter = { staleModel: true };
+      break;
+    case "documents":
+      if (pdfIds.length === 0) {
+        throw new Error("No document IDs provided");
+      }
+      filter = { pdfIds };
+      break;
+    default:
+      throw new Error(`Unknown re-index scope "${scope}"`);
+  }
+  if (chunkingStrategy && !isChunkingStrategy(chunkingStrategy)) {
+    throw new Error(`Unknown chunking strategy "${chunkingStrategy}"`);
+  }
+
+  console.log(`🔁 ${admin.email} is re-indexing (${scope})`);
+  const job = await createReindexJob(
+    filter,
+    isChunkingStrategy(chunkingStrategy) ? chunkingStrategy : null,
+    admin.email as string,
+  );
+
+  // Re-index after the response is sent; /api/ingestion/run resumes the job
+  // if this worker stops
+  after(() => runReindexJob(job.id));
+
+  return toReindexProgress(job);
+}
+
+/**
+ * Get the progress of a re-index job
+ *
+ * @param formData - Form data containing jobId
+ */
+export async function fetchReindexJob(
+  formData: FormData,
+): Promise<ReindexProgress> {
+  const jobId = formData.get("jobId") as string;
+  await requireAdmin();
+
+  const job = jobId ? await getReindexJob(jobId) : null;
+  if (!job) {
+    throw new Error("Re-index job not found");
+  }
+
+  return toReindexProgress(job);
+}
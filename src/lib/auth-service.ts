@@ -0,0 +1,94 @@
+"use server";
+
+import { createAuthClient, getSessionUser } from "./auth";
+
+/**
+ * Authentication Service
+ *
+ * Server actions for signing in, signing up and signing out with Supabase
+ * Auth. Errors are returned as messages rather than thrown, so the sign-in
+ * form can show them next to the fields.
+ */
+
+/**
+ * Sign in with email and password
+ *
+ * @param formData - Form data containing email and password
+ * @returns An error message, or null on success
+ */
+export async function signIn(
+  formData: FormData,
+): Promise<{ error: string | null }> {
+  const email = formData.get("email") as string;
+  const password = formData.get("password") as string;
+
+  if (!email || !password) {
+    return { error: "Please enter your email and password" };
+  }
+
+  console.log(`🔐 Signing in ${email}`);
+  const supabase = await createAuthClient();
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+
+  if (error) {
+    console.error("❌ Sign-in failed:", error.message);
+    return { error: error.message };
+  }
+
+  console.log("✅ Signed in");
+  return { error: null };
+}
+
+/**
+ * Create an account with email and password
+ *
+ * Depending on the Supabase project settings the user is signed in right
+ * away or has to confirm their email first.
+ *
+ * @param formData - Form data containing email and password
+ * @returns An error message (or null), and whether email confirmation is needed
+ */
+export async function signUp(
+  formData: FormData,
+): Promise<{ error: string | null; needsConfirmation: boolean }> {
+  const email = formData.get("email") as string;
+  const password = formData.get("password") as string;
+
+  if (!email || !password) {
+    return {
+      error: "Please enter your email and password",
+      needsConfirmation: false,
+    };
+  }
+
+  console.log(`🆕 Creating account for ${email}`);
+  const supabase = await createAuthClient();
+  const { data, error } = await supabase.auth.signUp({ email, password });
+
+  if (error) {
+    console.error("❌ Sign-up failed:", error.message);
+    return { error: error.message, needsConfirmation: false };
+  }
+
+  console.log("✅ Account created");
+  return { error: null, needsConfirmation: !data.session };
+}
+
+/**
+ * Sign the current user out
+ */
+export async function signOut(): Promise<void> {
+  const supabase = await createAuthClient();
+  await supabase.auth.signOut();
+  console.log("👋 Signed out");
+}
+
+/**
+ * Get the email of the signed-in user for display
+ *
+ * @returns The email, or null if nobody is signed in
+ */
+export async function getCurrentUserEmail(): Promise<string | null> {
+  const user = await getSessionUser();
+  return user?.email ?? null;
+}
@@ -0,0 +1,109 @@
+import { cookies } from "next/headers";
+import { createServerClient } from "@supabase/ssr";
+import { User } from "@supabase/supabase-js";
+
+/**
+ * Authentication Helpers
+ *
+ * Users sign in with Supabase Auth (email and password). The session lives in
+ * cookies managed by @supabase/ssr and is refreshed by src/middleware.ts.
+ * These environment variables should be set in your .env file:
+ * - NEXT_PUBLIC_SUPABASE_URL: The URL of your Supabase instance
+ * - NEXT_PUBLIC_SUPABASE_ANON_KEY: The public anon key used for auth requests
+ * - ADMIN_EMAILS: Comma-separated emails of the administrators, who can e.g.
+ *   re-index the library (optional; nobody is an administrator by default)
+ *
+ * Server actions must take the user ID from requireUserId(), never from
+ * client-supplied form data.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+/**
+ * Create a Supabase client that reads and writes the auth session cookies of
+ * the current request
+ */
+export async function createAuthClient() {
+  const cookieStore = await cookies();
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL as string,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options),
+            );
+          } catch {
+            // Cookies can't be set while rendering; the middleware keeps the
+            // session fresh instead
+          }
+        },
+      },
+    },
+  );
+}
+
+/**
+ * Get the signed-in user, verified with Supabase Auth
+ *
+ * @returns The user, or null if nobody is signed in
+ */
+export async function getSessionUser(): Promise<User | null> {
+  const supabase = await createAuthClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  return user;
+}
+
+/**
+ * Get the ID of the signed-in user
+ *
+ * @throws Error if nobody is signed in
+ */
+export async function requireUserId(): Promise<string> {
+  const user = await getSessionUser();
+
+  if (!user) {
+    console.error("❌ No signed-in user for this request");
+    throw new Error("You need to sign in to do that");
+  }
+
+  return user.id;
+}
+
+/**
+ * Whether a user is an administrator, listed by email in ADMIN_EMAILS
+ */
+export function isAdmin(user: User | null): boolean {
+  const admins = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  return !!user?.email && admins.includes(user.email.toLowerCase());
+}
+
+/**
+ * Get the signed-in user, who must be an administrator
+ *
+ * @throws Error if nobody is signed in or the user is not an administrator
+ */
+export async function requireAdmin(): Promise<User> {
+  const user = await getSessionUser();
+
+  if (!isAdmin(user)) {
+    console.error("❌ Administrator action requested by a non-administrator");
+    throw new Error("Only administrators can do that");
+  }
+
+  return user as User;
+}
@@ -0,0 +1,67 @@
+import { PromptTemplate } from "@langchain/core/prompts";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { RunnableSequence } from "@langchain/core/runnables";
+import { createChatModel, isLlmConfigured } from "@/lib/llm-provider";
+
+/**
+ * Change Summaries
+ *
+ * Describes the differences between two versions of a text, e.g. a saved
+ * link before and after a refresh or two uploaded versions of a contract.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+// Most characters of added and of removed text given to the LLM
+const CHANGE_PROMPT_CHAR_LIMIT = 6000;
+
+/**
+ * Describe the differences between two versions of a text
+ *
+ * Uses the LLM when one is configured, and a plain count otherwise.
+ *
+ * @param changes - The lines removed and added (see changedLines in text-diff.ts)
+ * @param subject - What is being compared, e.g. "two versions of a web page"
+ */
+export async function summarizeChanges(
+  changes: { added: string[]; removed: string[] },
+  subject: string,
+): Promise<string> {
+  if (!isLlmConfigured()) {
+    return `${changes.added.length} passages added and ${changes.removed.length} removed.`;
+  }
+
+  const model = createChatModel({ temperature: 0 });
+  const changePrompt = PromptTemplate.fromTemplate(`
+    You are comparing {subject}.
+
+    Below are the passages removed from the older version and the passages
+    added in the newer one. Summarize what changed in a few short bullet
+    points. Focus on concrete facts such as prices, dates, limits, terms and
+    policies, and say how they changed when a removed passage was replaced by
+    an added one.
+
+    Removed passages:
+    {removed}
+
+    Added passages:
+    {added}
+
+    What changed:
+  `);
+
+  const chain = RunnableSequence.from([
+    changePrompt,
+    model,
+    new StringOutputParser(),
+  ]);
+
+  return chain.invoke({
+    subject,
+    removed:
+      changes.removed.join("\n").slice(0, CHANGE_PROMPT_CHAR_LIMIT) || "(none)",
+    added:
+      changes.added.join("\n").slice(0, CHANGE_PROMPT_CHAR_LIMIT) || "(none)",
+  });
+}
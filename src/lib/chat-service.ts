@@ -2,6 +2,7 @@
 
 // Import the RAG query function from our RAG service
 import { queryDocument } from "./rag-service";
+import { Source } from "./citations";
 
 /**
  * Content Query Service
@@ -25,13 +26,14 @@ import { queryDocument } from "./rag-service";
  * @param formData - Form data containing:
  *   - query: The user's question
  *   - pdfId: The ID of the content to query (could be PDF or web page content)
- *   - userId: The ID of the user making the query
  *   - contentType: The type of content (pdf or link)
- * @returns Object containing the answer to the query
+ * @returns Object containing the answer to the query and the sources it cites
+ *
+ * The user is always the signed-in user from the session.
  */
 export async function queryPdfDocument(
   formData: FormData,
-): Promise<{ answer: string }> {
+): Promise<{ answer: string; sources: Source[] }> {
   console.log("🤖 Starting content query process with RAG");
 
   try {
@@ -48,7 +50,7 @@ export async function queryPdfDocument(
     // This will:
     // 1. Convert the query to an embedding using Jina
     // 2. Find relevant document chunks in Supabase
-    // 3. Generate a response using Groq LLM
+    // 3. Generate a response using the configured LLM
     try {
       return await queryDocument(formData);
     } catch (ragError) {
@@ -69,6 +71,7 @@ export async function queryPdfDocument(
       answer: `Sorry, I encountered an error while processing your query: ${
         error instanceof Error ? error.message : "Unknown error"
       }. Please try again later or contact support if the issue persists.`,
+      sources: [],
     };
   }
 }
@@ -0,0 +1,78 @@
+// Define supported chunking strategies
+export type ChunkingStrategy =
+  | "fixed"
+  | "sentence"
+  | "semantic"
+  | "page"
+  | "heading";
+
+/**
+ * A chunking preset
+ * - chunkSize: Target (for "fixed" and "sentence") or largest chunk size in
+ *   characters; longer pieces are split further
+ * - chunkOverlap: Characters repeated between consecutive chunks
+ */
+export interface ChunkingPreset {
+  value: ChunkingStrategy;
+  label: string;
+  description: string;
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+// Chunking presets offered when uploading a file or saving a link
+export const CHUNKING_STRATEGY_CONFIG: Record<
+  ChunkingStrategy,
+  ChunkingPreset
+> = {
+  fixed: {
+    value: "fixed",
+    label: "Fixed size",
+    description: "Chunks of about 1,000 characters that overlap",
+    chunkSize: 1000,
+    chunkOverlap: 200,
+  },
+  sentence: {
+    value: "sentence",
+    label: "Sentences",
+    description: "Whole sentences, never cut in the middle",
+    chunkSize: 1000,
+    chunkOverlap: 200,
+  },
+  semantic: {
+    value: "semantic",
+    label: "Semantic",
+    description: "Split where the topic changes (slower to process)",
+    chunkSize: 2000,
+    chunkOverlap: 0,
+  },
+  page: {
+    value: "page",
+    label: "By page",
+    description: "One chunk per page, slide, sheet or web page",
+    chunkSize: 4000,
+    chunkOverlap: 0,
+  },
+  heading: {
+    value: "heading",
+    label: "By heading",
+    description: "One chunk per section under a heading",
+    chunkSize: 3000,
+    chunkOverlap: 0,
+  },
+};
+
+// Used when an upload doesn't choose a strategy
+export const DEFAULT_CHUNKING_STRATEGY: ChunkingStrategy = "fixed";
+
+// Export chunking strategies for UI
+export const CHUNKING_STRATEGIES = Object.values(CHUNKING_STRATEGY_CONFIG);
+
+/**
+ * Check that a value from form data or the database is a known strategy
+ */
+export function isChunkingStrategy(value: unknown): value is ChunkingStrategy {
+  return (
+    typeof value === "string" && Object.hasOwn(CHUNKING_STRATEGY_CONFIG, value)
+  );
+}
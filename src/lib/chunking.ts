@@ -0,0 +1,299 @@
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { Document } from "@langchain/core/documents";
+import {
+  CHUNKING_STRATEGY_CONFIG,
+  ChunkingPreset,
+  ChunkingStrategy,
+} from "@/lib/chunking-config";
+import { createEmbeddings } from "@/lib/embedding-provider";
+import { embedTexts } from "@/lib/embedding-batches";
+import { TRANSCRIPT_PASSAGE_CHARS } from "@/lib/transcripts";
+
+/**
+ * Chunking
+ *
+ * Splits loaded documents into the chunks that are embedded and summarized,
+ * with the strategy recorded on the document (see chunking-config.ts):
+ * - fixed: RecursiveCharacterTextSplitter, fixed size with overlap
+ * - sentence: Whole sentences packed up to the chunk size, overlapping by
+ *   whole sentences
+ * - semantic: Consecutive sentences grouped until the embedding similarity
+ *   between neighbours drops (embeds every sentence once more)
+ * - page: Each page, slide, sheet or web page whole
+ * - heading: A new chunk at every heading (the Markdown and HTML loaders
+ *   already split at headings; other text is split at lines that look like
+ *   one)
+ *
+ * Each loaded document is split on its own, so a chunk never spans two
+ * pages or sections and keeps their metadata. Pieces longer than the
+ * preset's chunk size are split further at a fixed size.
+ *
+ * Transcripts are the exception: the loader already groups their cues into
+ * passages (see document-loaders.ts), and each passage is kept as one chunk
+ * whatever the strategy, so every chunk starts and ends on a cue and cites
+ * the exact time range it covers.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+// Share of sentence boundaries, those whose neighbours are least similar,
+// where the semantic strategy starts a new chunk
+const SEMANTIC_BREAKPOINT_SHARE = 0.1;
+
+// Lines longer than this are never taken for headings
+const HEADING_MAX_CHARS = 80;
+
+// Lines that look like headings in plain text: Markdown "#" headings,
+// numbered headings ("2.1 Scope") and short lines in capitals
+const HEADING_PATTERNS = [
+  /^#{1,6}\s+\S/,
+  /^\d+(\.\d+)*\.?\s+\p{Lu}[^.!?]*$/u,
+  /^(?=.*\p{Lu}{2})[\p{Lu}\d\s&:,'-]+$/u,
+];
+
+/**
+ * Split text into sentences, keeping the whitespace after each one
+ */
+function splitSentences(text: string): string[] {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "sentence" });
+  return Array.from(segmenter.segment(text), ({ segment }) => segment).filter(
+    (sentence) => sentence.trim(),
+  );
+}
+
+/**
+ * Pack sentences into chunks of up to chunkSize characters, starting each
+ * chunk with the last sentences of the previous one (up to chunkOverlap)
+ */
+function packSentences(sentences: string[], preset: ChunkingPreset): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const sentence of sentences) {
+    if (current.length > 0 && length + sentence.length > preset.chunkSize) {
+      chunks.push(current.join(""));
+
+      const overlap: string[] = [];
+      let overlapLength = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (overlapLength + current[i].length > preset.chunkOverlap) {
+          break;
+        }
+        overlap.unshift(current[i]);
+        overlapLength += current[i].length;
+      }
+      current = overlap;
+      length = overlapLength;
+    }
+
+    current.push(sentence);
+    length += sentence.length;
+  }
+
+  if (current.length > 0) {
+    chunks.push(current.join(""));
+  }
+  return chunks;
+}
+
+/**
+ * Cosine similarity of two vectors
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Group each document's sentences where the topic changes
+ *
+ * Every sentence is embedded; a new chunk starts where the similarity
+ * between two neighbouring sentences is among the lowest of the whole
+ * upload, or where the chunk would outgrow the chunk size.
+ */
+async function splitSemantic(
+  docs: Document[],
+  preset: ChunkingPreset,
+): Promise<string[][]> {
+  const sentencesPerDoc = docs.map((doc) => splitSentences(doc.pageContent));
+  const vectors = await embedTexts(
+    createEmbeddings(),
+    sentencesPerDoc.flat().map((sentence) => sentence.trim()),
+  );
+
+  // Similarity of each sentence to the one before it
+  let offset = 0;
+  const similarities = sentencesPerDoc.map((sentences) => {
+    const start = offset;
+    offset += sentences.length;
+    return sentences.map((_, i) =>
+      i === 0
+        ? 1
+        : cosineSimilarity(vectors[start + i - 1], vectors[start + i]),
+    );
+  });
+
+  const boundaries = similarities
+    .flatMap((values) => values.slice(1))
+    .sort((a, b) => a - b);
+  const threshold =
+    boundaries[Math.floor(boundaries.length * SEMANTIC_BREAKPOINT_SHARE)] ??
+    -Infinity;
+
+  return sentencesPerDoc.map((sentences, d) => {
+    const chunks: string[] = [];
+    let current = "";
+    sentences.forEach((sentence, i) => {
+      if (
+        current &&
+        (similarities[d][i] < threshold ||
+          current.length + sentence.length > preset.chunkSize)
+      ) {
+        chunks.push(current);
+        current = "";
+      }
+      current += sentence;
+    });
+    if (current) {
+      chunks.push(current);
+    }
+    return chunks;
+  });
+}
+
+/**
+ * Whether a line of plain text looks like a heading
+ *
+ * @param known - Headings the loader found, e.g. a web page's h1-h6
+ */
+function isHeading(line: string, known: Set<string>): boolean {
+  const text = line.trim();
+  if (!text || text.length > HEADING_MAX_CHARS) {
+    return false;
+  }
+  return (
+    known.has(text) || HEADING_PATTERNS.some((pattern) => pattern.test(text))
+  );
+}
+
+/**
+ * A piece of a document, and the heading it starts with, if any
+ */
+interface Piece {
+  text: string;
+  heading?: string;
+}
+
+/**
+ * Split a document into sections, each starting at a heading
+ */
+function splitAtHeadings(doc: Document): Piece[] {
+  const known = new Set(
+    String(doc.metadata.headings ?? "")
+      .split(" | ")
+      .map((heading) => heading.trim())
+      .filter(Boolean),
+  );
+
+  const sections: string[][] = [[]];
+  for (const line of doc.pageContent.split("\n")) {
+    const section = sections[sections.length - 1];
+    if (isHeading(line, known) && section.some((text) => text.trim())) {
+      sections.push([line]);
+    } else {
+      section.push(line);
+    }
+  }
+
+  return sections.map((lines) => {
+    const firstLine = lines.find((line) => line.trim()) ?? "";
+    return {
+      text: lines.join("\n"),
+      heading: isHeading(firstLine, known)
+        ? firstLine.replace(/^#+\s*/, "").trim()
+        : undefined,
+    };
+  });
+}
+
+/**
+ * Split documents into chunks with a chunking strategy
+ *
+ * @param docs - Loaded documents, e.g. one per page, carrying the metadata
+ *   every chunk should keep
+ * @returns The chunks, in document order
+ */
+export async function splitIntoChunks(
+  docs: Document[],
+  strategy: ChunkingStrategy,
+): Promise<Document[]> {
+  const preset = CHUNKING_STRATEGY_CONFIG[strategy];
+
+  // Transcript passages, which carry their time range; only a single cue
+  // longer than a passage is split further
+  if (docs.length > 0 && docs.every((doc) => "start_time" in doc.metadata)) {
+    return new RecursiveCharacterTextSplitter({
+      chunkSize: TRANSCRIPT_PASSAGE_CHARS,
+      chunkOverlap: 0,
+    }).splitDocuments(docs);
+  }
+
+  // Splits at paragraphs, then lines, then words, and packs the pieces up
+  // to the chunk size; used as is by "fixed" and "page", and by the other
+  // strategies for pieces that are still too long
+  const textSplitter = new RecursiveCharacterTextSplitter({
+    chunkSize: preset.chunkSize,
+    chunkOverlap: preset.chunkOverlap,
+  });
+
+  let piecesPerDoc: Piece[][];
+  switch (strategy) {
+    case "fixed":
+    case "page":
+      return textSplitter.splitDocuments(docs);
+    case "sentence":
+      piecesPerDoc = docs.map((doc) =>
+        packSentences(splitSentences(doc.pageContent), preset).map((text) => ({
+          text,
+        })),
+      );
+      break;
+    case "semantic":
+      piecesPerDoc = (await splitSemantic(docs, preset)).map((texts) =>
+        texts.map((text) => ({ text })),
+      );
+      break;
+    case "heading":
+      piecesPerDoc = docs.map(splitAtHeadings);
+      break;
+  }
+
+  const pieces = docs.flatMap((doc, d) =>
+    piecesPerDoc[d]
+      .filter((piece) => piece.text.trim())
+      .map(
+        (piece) =>
+          new Document({
+            pageContent: piece.text.trim(),
+            metadata: {
+              ...doc.metadata,
+              // Sections found in plain text cite their heading, like the
+              // sections of Markdown and HTML files
+              ...(piece.heading &&
+                !doc.metadata.heading_path && { heading_path: piece.heading }),
+            },
+          }),
+      ),
+  );
+
+  return textSplitter.splitDocuments(pieces);
+}
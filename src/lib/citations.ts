@@ -0,0 +1,141 @@
+import { Document } from "@langchain/core/documents";
+import { formatTimestamp } from "./transcripts";
+
+/**
+ * Source Citations
+ *
+ * Shared between the RAG service (which numbers retrieved chunks and asks the
+ * model to cite them inline as [1], [2]) and the chat interface (which shows
+ * them as footnotes under each answer).
+ */
+
+// Number of characters of chunk content shown as a snippet
+const SNIPPET_LENGTH = 240;
+
+/**
+ * A retrieved chunk that an answer may cite
+ * - index: The citation number used in the answer, starting at 1
+ * - chunkId: The ID of the row in 'pdf_chunks'
+ * - documentId: The ID of the document the chunk belongs to
+ * - documentName: The name of that document, when chatting with several documents
+ * - pageNumber: The PDF page the chunk came from, if known
+ * - slideNumber: The presentation slide the chunk came from, if known
+ * - sheetName: The spreadsheet worksheet the chunk came from, if known
+ * - section: The heading path of the section the chunk came from, e.g.
+ *   "Setup > Database", for Markdown and HTML files
+ * - startTime/endTime: The time range in seconds the chunk covers, for transcripts
+ * - url: The web page the chunk came from, if it was a link
+ * - similarity: Cosine similarity to the query, if the chunk came from vector search
+ * - snippet: The start of the chunk content
+ */
+export type Source = {
+  index: number;
+  chunkId: string | null;
+  documentId: string | null;
+  documentName: string | null;
+  pageNumber: number | null;
+  slideNumber: number | null;
+  sheetName: string | null;
+  section: string | null;
+  startTime: number | null;
+  endTime: number | null;
+  url: string | null;
+  similarity: number | null;
+  snippet: string;
+};
+
+/**
+ * Read a numeric metadata value that may have been stored as a string
+ */
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Build the list of citable sources for a set of retrieved chunks
+ *
+ * The order matches the numbering used in the prompt context.
+ *
+ * @param docs - The retrieved chunks
+ * @param documentNames - Document names by ID, used to label multi-document sources
+ */
+export function buildSources(
+  docs: Document[],
+  documentNames: Record<string, string> = {},
+): Source[] {
+  return docs.map((doc, i) => {
+    const metadata = doc.metadata || {};
+    const loc = metadata.loc as { pageNumber?: number } | undefined;
+    const sourceUrl =
+      metadata.source_type === "link" && typeof metadata.source === "string"
+        ? metadata.source
+        : null;
+    const snippet = doc.pageContent.replace(/\s+/g, " ").trim();
+    const documentId = metadata.pdf_id ? String(metadata.pdf_id) : null;
+
+    return {
+      index: i + 1,
+      chunkId: metadata.chunk_id ? String(metadata.chunk_id) : null,
+      documentId,
+      documentName: documentId ? (documentNames[documentId] ?? null) : null,
+      pageNumber: toNumber(metadata.page_number ?? loc?.pageNumber),
+      slideNumber: toNumber(metadata.slide_number),
+      sheetName: metadata.sheet_name ? String(metadata.sheet_name) : null,
+      section: metadata.heading_path ? String(metadata.heading_path) : null,
+      startTime: toNumber(metadata.start_time),
+      endTime: toNumber(metadata.end_time),
+      url: sourceUrl,
+      similarity: toNumber(metadata.similarity),
+      snippet:
+        snippet.length > SNIPPET_LENGTH
+          ? `${snippet.substring(0, SNIPPET_LENGTH)}...`
+          : snippet,
+    };
+  });
+}
+
+/**
+ * Human-readable location of a source, e.g. "page 3", "slide 4",
+ * "sheet Budget", "section Setup > Database", "12:41–13:05" for transcripts,
+ * the page URL, or "proposal.pdf, page 3" when the document name is known
+ */
+export function describeSource(source: Source): string {
+  let location: string;
+  if (source.pageNumber !== null) {
+    location = `page ${source.pageNumber}`;
+  } else if (source.slideNumber !== null) {
+    location = `slide ${source.slideNumber}`;
+  } else if (source.sheetName) {
+    location = `sheet ${source.sheetName}`;
+  } else if (source.section) {
+    location = `section ${source.section}`;
+  } else if (source.startTime !== null && source.endTime !== null) {
+    location = `${formatTimestamp(source.startTime)}–${formatTimestamp(source.endTime)}`;
+  } else if (source.url) {
+    location = source.url;
+  } else {
+    location = source.chunkId
+      ? `chunk ${source.chunkId.substring(0, 8)}`
+      : "chunk";
+  }
+
+  return source.documentName && source.documentName !== location
+    ? `${source.documentName}, ${location}`
+    : location;
+}
+
+/**
+ * Join retrieved chunks into prompt context, each labelled with its citation number
+ */
+export function formatCitedContext(docs: Document[], sources: Source[]) {
+  return docs
+    .map(
+      (doc, i) =>
+        `[${sources[i].index}] (${describeSource(sources[i])})\n${doc.pageContent}`,
+    )
+    .join("\n\n");
+}
@@ -1,10 +0,0 @@
-/**
- * Application Constants
- *
- * This file contains constants used throughout the application.
- * It's separate from server-only files to allow both client and server components
- * to import these values.
- */
-
-// Hard-coded user ID to use throughout the application until authentication is implemented
-export const TEMPORARY_USER_ID = "user123";
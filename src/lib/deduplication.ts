@@ -0,0 +1,90 @@
+import { createHash } from "crypto";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Duplicate Detection
+ *
+ * Every document stores SHA-256 hashes of its file bytes and of its
+ * normalized text, so uploading the same file (or a re-export with the same
+ * text) is recognized before anything is embedded. Links are recognized by
+ * their URL. The user can then open the existing document or store a new
+ * version anyway.
+ *
+ * Hashes are hex-encoded. Text is normalized (Unicode NFC, whitespace runs
+ * collapsed to one space, trimmed) the same way as the backfill in
+ * supabase/migrations/20261019000009_content_hashes.sql.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+/**
+ * An existing document that matches a new upload
+ */
+export interface DuplicateDocument {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+/**
+ * Hex-encoded SHA-256 of bytes or a string
+ */
+export function sha256(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Normalize text so formatting-only differences don't change its hash
+ */
+export function normalizeText(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Hex-encoded SHA-256 of normalized text
+ */
+export function hashText(text: string): string {
+  return sha256(normalizeText(text));
+}
+
+/**
+ * Find one of the user's own documents with the same file, text or URL
+ *
+ * @param match - Any of fileSha256, contentSha256 and sourceUrl; a document
+ *   matching any of them counts
+ * @returns The most recent matching document, or null
+ */
+export async function findDuplicateDocument(
+  supabase: SupabaseClient,
+  userId: string,
+  match: { fileSha256?: string; contentSha256?: string; sourceUrl?: string },
+): Promise<DuplicateDocument | null> {
+  const conditions = [
+    match.fileSha256 && `file_sha256.eq.${match.fileSha256}`,
+    match.contentSha256 && `content_sha256.eq.${match.contentSha256}`,
+    // Quoted, since URLs can contain the commas and dots PostgREST splits on
+    match.sourceUrl &&
+      `source_url.eq."${match.sourceUrl.replace(/"/g, '\\"')}"`,
+  ].filter(Boolean);
+
+  if (conditions.length === 0) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("pdfs")
+    .select("id, name, created_at")
+    .eq("user_id", userId)
+    // A failed document is discarded or retried, never reused
+    .neq("status", "failed")
+    .or(conditions.join(","))
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Error checking for duplicates: ${error.message}`);
+  }
+
+  return (data[0] as DuplicateDocument) ?? null;
+}
@@ -0,0 +1,129 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Document Access Checks
+ *
+ * Server actions talk to Supabase with the service-role key, which bypasses
+ * row-level security, so they check ownership themselves before touching a
+ * document. The rules match the RLS policies in
+ * supabase/migrations/20261019000005_row_level_security.sql:
+ * - read: The user owns the document or it was shared with them (pdf_shares)
+ * - owner: The user owns the document (needed to delete or share it)
+ *
+ * Documents the user can't access are reported as not found, so callers
+ * can't probe which IDs exist.
+ *
+ * Separately, documents can only be chatted with, summarized or compared
+ * once they are 'ready' (see assertDocumentsReady).
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+export type DocumentAccess = "read" | "owner";
+
+/**
+ * Ingestion status of a document (the 'pdfs.status' column)
+ * - pending: Still being ingested; its chunks may be incomplete
+ * - ready: Fully ingested
+ * - failed: Ingestion failed; it can be retried or deleted
+ */
+export type DocumentStatus = "pending" | "ready" | "failed";
+
+/**
+ * Find which of the given documents the user may access
+ *
+ * @returns The subset of documentIds the user can access
+ */
+export async function filterAccessibleDocuments(
+  supabase: SupabaseClient,
+  documentIds: string[],
+  userId: string,
+  access: DocumentAccess = "read",
+): Promise<string[]> {
+  const { data: owned, error: ownedError } = await supabase
+    .from("pdfs")
+    .select("id")
+    .in("id", documentIds)
+    .eq("user_id", userId);
+
+  if (ownedError) {
+    throw new Error(`Error checking document access: ${ownedError.message}`);
+  }
+
+  const accessible = new Set(owned.map((pdf) => pdf.id as string));
+
+  if (access === "read" && accessible.size < documentIds.length) {
+    const { data: shared, error: sharedError } = await supabase
+      .from("pdf_shares")
+      .select("pdf_id")
+      .in("pdf_id", documentIds)
+      .eq("user_id", userId);
+
+    if (sharedError) {
+      throw new Error(`Error checking document access: ${sharedError.message}`);
+    }
+
+    shared.forEach((share) => accessible.add(share.pdf_id as string));
+  }
+
+  return documentIds.filter((id) => accessible.has(id));
+}
+
+/**
+ * Make sure the user may access every one of the given documents
+ *
+ * @throws Error if any document doesn't exist or isn't accessible
+ */
+export async function assertDocumentAccess(
+  supabase: SupabaseClient,
+  documentIds: string[],
+  userId: string,
+  access: DocumentAccess = "read",
+): Promise<void> {
+  const accessible = await filterAccessibleDocuments(
+    supabase,
+    documentIds,
+    userId,
+    access,
+  );
+
+  const refused = documentIds.filter((id) => !accessible.includes(id));
+
+  if (refused.length > 0) {
+    console.warn(
+      `🚫 User ${userId} has no ${access} access to: ${refused.join(", ")}`,
+    );
+    throw new Error("Document not found");
+  }
+}
+
+/**
+ * Make sure every one of the given documents has finished ingesting
+ *
+ * @throws Error naming a document that is still pending or failed
+ */
+export async function assertDocumentsReady(
+  supabase: SupabaseClient,
+  documentIds: string[],
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("pdfs")
+    .select("id, name, status")
+    .in("id", documentIds)
+    .neq("status", "ready");
+
+  if (error) {
+    throw new Error(`Error checking document status: ${error.message}`);
+  }
+
+  if (data.length > 0) {
+    const [pdf] = data;
+    console.warn(`⏳ Document ${pdf.id} is ${pdf.status}, not ready`);
+    throw new Error(
+      pdf.status === "failed"
+        ? `"${pdf.name}" could not be processed. Retry or delete it.`
+        : `"${pdf.name}" is still being processed. Try again shortly.`,
+    );
+  }
+}
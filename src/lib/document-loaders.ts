@@ -0,0 +1,446 @@
+import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
+import { DocxLoader } from "@langchain/community/document_loaders/fs/docx";
+import { Document } from "@langchain/core/documents";
+import { load as loadHtml } from "cheerio";
+import ExcelJS from "exceljs";
+import JSZip from "jszip";
+import * as fs from "fs";
+import { FileFormat } from "./file-formats";
+import {
+  groupCues,
+  parseSubtitles,
+  TRANSCRIPT_PASSAGE_CHARS,
+} from "./transcripts";
+import { countPdfPages, MIN_TEXT_LAYER_CHARS, recognizePdfPages } from "./ocr";
+
+/**
+ * Document Loaders
+ *
+ * Turns an uploaded file into LangChain documents, picking a loader by file
+ * format:
+ * - pdf: One document per page (PDFLoader, page in metadata.loc.pageNumber);
+ *   pages without a text layer are read with OCR and flagged with ocr: true
+ * - docx: One document for the whole file (DocxLoader)
+ * - pptx: One document per slide, in presentation order (slide_number)
+ * - xlsx: One document per worksheet, one line per row (sheet_number, sheet_name)
+ * - txt: One document for the whole file
+ * - md, html: One document per section under a heading, with the path of
+ *   headings leading to it (heading_path, e.g. "Setup > Database")
+ * - vtt, srt: One document per run of consecutive cues, with the time range
+ *   it covers in seconds (start_time, end_time)
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+/**
+ * Load the documents of a file that was written to disk
+ *
+ * @param filePath - Path of the temporary file holding the upload
+ * @param format - The file's format, from detectFileFormat
+ */
+export async function loadFileDocuments(
+  filePath: string,
+  format: FileFormat,
+): Promise<Document[]> {
+  switch (format) {
+    case "pdf":
+      return loadPdf(filePath);
+    case "docx":
+      return new DocxLoader(filePath).load();
+    case "pptx":
+      return loadPresentation(filePath);
+    case "xlsx":
+      return loadSpreadsheet(filePath);
+    case "txt":
+      return [
+        new Document({
+          pageContent: fs.readFileSync(filePath, "utf8"),
+          metadata: { source: filePath },
+        }),
+      ];
+    case "md":
+      return splitMarkdownSections(fs.readFileSync(filePath, "utf8"), filePath);
+    case "html":
+      return splitHtmlSections(fs.readFileSync(filePath, "utf8"), filePath);
+    case "vtt":
+    case "srt":
+      return loadTranscript(filePath);
+  }
+}
+
+/**
+ * Load a subtitle file, grouping consecutive cues into passages
+ */
+function loadTranscript(filePath: string): Document[] {
+  const cues = parseSubtitles(fs.readFileSync(filePath, "utf8"));
+  const passages = groupCues(cues, TRANSCRIPT_PASSAGE_CHARS);
+  console.log(
+    `🎞️ Loaded ${cues.length} cues into ${passages.length} transcript passages`,
+  );
+
+  return passages.map(
+    (passage) =>
+      new Document({
+        pageContent: passage.text,
+        metadata: {
+          source: filePath,
+          start_time: passage.start,
+          end_time: passage.end,
+        },
+      }),
+  );
+}
+
+/**
+ * Load a PDF, one document per page, falling back to OCR for scanned pages
+ *
+ * PDFLoader skips pages with no text at all, so pages that are missing or
+ * have almost no text are treated as image-only and read with OCR. If OCR
+ * fails, the pages with a text layer are still returned.
+ */
+async function loadPdf(filePath: string): Promise<Document[]> {
+  const docs = await new PDFLoader(filePath).load();
+  const totalPages: number =
+    docs[0]?.metadata.pdf?.totalPages ?? (await countPdfPages(filePath));
+
+  const textPages = new Map(
+    docs
+      .filter((doc) => doc.pageContent.trim().length >= MIN_TEXT_LAYER_CHARS)
+      .map((doc) => [doc.metadata.loc?.pageNumber as number, doc]),
+  );
+  const imageOnlyPages = Array.from(
+    { length: totalPages },
+    (_, i) => i + 1,
+  ).filter((pageNumber) => !textPages.has(pageNumber));
+
+  if (imageOnlyPages.length === 0) {
+    return docs;
+  }
+
+  let ocrTexts = new Map<number, string>();
+  try {
+    ocrTexts = await recognizePdfPages(filePath, imageOnlyPages);
+  } catch (error) {
+    if (textPages.size === 0) {
+      throw error;
+    }
+    console.error(
+      "⚠️ OCR failed, keeping only pages with a text layer:",
+      error,
+    );
+  }
+
+  // Merge text-layer and OCR pages back into page order
+  const pages: Document[] = [];
+  for (let pageNumber = 1; pageNumber <= totalPages; pageNumber++) {
+    const textPage = textPages.get(pageNumber);
+    const ocrText = ocrTexts.get(pageNumber);
+    if (textPage) {
+      pages.push(textPage);
+    } else if (ocrText) {
+      pages.push(
+        new Document({
+          pageContent: ocrText,
+          metadata: {
+            source: filePath,
+            loc: { pageNumber },
+            ocr: true,
+          },
+        }),
+      );
+    }
+  }
+
+  console.log(`🖨️ ${ocrTexts.size} of ${totalPages} pages were read with OCR`);
+  return pages;
+}
+
+/**
+ * Collects text into sections, starting a new section at every heading
+ *
+ * Each section remembers the headings above it, so "## Database" under
+ * "# Setup" becomes heading_path "Setup > Database". The heading itself is
+ * kept as the first line of its section so it is also embedded.
+ */
+function createSectionCollector(source: string) {
+  const headings: string[] = [];
+  const sections: Document[] = [];
+  let lines: string[] = [];
+
+  const flush = () => {
+    const content = lines.join("\n").trim();
+    // Skip sections that consist of nothing but their heading
+    const hasBody = content.split("\n").length > 1 || headings.length === 0;
+    if (content && hasBody) {
+      sections.push(
+        new Document({
+          pageContent: content,
+          metadata: { source, heading_path: headings.join(" > ") },
+        }),
+      );
+    }
+    lines = [];
+  };
+
+  return {
+    heading(level: number, title: string) {
+      flush();
+      headings.splice(level - 1);
+      // Fill skipped levels (e.g. "#" followed by "###") so depth stays right
+      while (headings.length < level - 1) headings.push("");
+      headings.push(title);
+      lines.push(title);
+    },
+    text(line: string) {
+      lines.push(line);
+    },
+    finish(): Document[] {
+      flush();
+      // Drop the placeholders for skipped levels from the paths
+      return sections.map((section) => {
+        section.metadata.heading_path = String(section.metadata.heading_path)
+          .split(" > ")
+          .filter(Boolean)
+          .join(" > ");
+        return section;
+      });
+    },
+  };
+}
+
+/**
+ * Split Markdown into sections at its "#" headings
+ *
+ * Lines inside fenced code blocks are never treated as headings.
+ */
+function splitMarkdownSections(markdown: string, source: string): Document[] {
+  const collector = createSectionCollector(source);
+  let inFence = false;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      collector.heading(heading[1].length, heading[2]);
+    } else {
+      collector.text(line);
+    }
+  }
+
+  const sections = collector.finish();
+  console.log(`📑 Split Markdown into ${sections.length} sections`);
+  return sections;
+}
+
+// HTML elements that start a new line of text
+const HTML_BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "br",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "tr",
+  "ul",
+]);
+
+/**
+ * Split an HTML page into sections at its h1-h6 headings
+ *
+ * Scripts, styles and other non-content elements are skipped.
+ */
+function splitHtmlSections(html: string, source: string): Document[] {
+  const $ = loadHtml(html);
+  $("script, style, noscript, template, svg, head").remove();
+
+  const collector = createSectionCollector(source);
+  let line = "";
+  const endLine = () => {
+    if (line.trim()) collector.text(line.replace(/\s+/g, " ").trim());
+    line = "";
+  };
+
+  const walk = (nodes: ReturnType<typeof $>) => {
+    nodes.contents().each((_, node) => {
+      if (!("tagName" in node)) {
+        if (node.type === "text") line += $(node).text();
+        return;
+      }
+
+      const tag = node.tagName.toLowerCase();
+      const headingLevel = tag.match(/^h([1-6])$/);
+      if (headingLevel) {
+        endLine();
+        collector.heading(
+          Number(headingLevel[1]),
+          $(node).text().replace(/\s+/g, " ").trim(),
+        );
+      } else if (HTML_BLOCK_TAGS.has(tag)) {
+        endLine();
+        walk($(node));
+        endLine();
+      } else {
+        walk($(node));
+      }
+    });
+  };
+
+  walk($("body").length > 0 ? $("body") : $.root());
+  endLine();
+
+  const sections = collector.finish();
+  console.log(`📑 Split HTML into ${sections.length} sections`);
+  return sections;
+}
+
+/**
+ * Decode the XML entities that can appear in Office text runs
+ */
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, decimal) =>
+      String.fromCodePoint(parseInt(decimal, 10)),
+    )
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Extract the text of a slide, one line per paragraph
+ */
+function extractSlideText(xml: string): string {
+  return xml
+    .split("</a:p>")
+    .map((paragraph) =>
+      [...paragraph.matchAll(/<a:t>([\s\S]*?)<\/a:t>/g)]
+        .map((match) => decodeXmlEntities(match[1]))
+        .join(""),
+    )
+    .filter((line) => line.trim().length > 0)
+    .join("\n");
+}
+
+/**
+ * Load a PowerPoint presentation, one document per slide
+ *
+ * Slides are numbered in presentation order, which is read from
+ * presentation.xml because slide file names keep their original numbers
+ * after slides are reordered.
+ */
+async function loadPresentation(filePath: string): Promise<Document[]> {
+  const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+
+  const presentationXml =
+    (await zip.file("ppt/presentation.xml")?.async("string")) ?? "";
+  const relationshipsXml =
+    (await zip.file("ppt/_rels/presentation.xml.rels")?.async("string")) ?? "";
+
+  // Map relationship IDs to slide files, then follow the slide list order
+  const targets = new Map(
+    [
+      ...relationshipsXml.matchAll(
+        /<Relationship\b[^>]*\bId="([^"]+)"[^>]*\bTarget="([^"]+)"/g,
+      ),
+    ].map((match) => [match[1], `ppt/${match[2].replace(/^\/?ppt\//, "")}`]),
+  );
+  let slidePaths = [
+    ...presentationXml.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g),
+  ]
+    .map((match) => targets.get(match[1]))
+    .filter((slidePath): slidePath is string => Boolean(slidePath));
+
+  // Fall back to file name order if the slide list couldn't be read
+  if (slidePaths.length === 0) {
+    slidePaths = Object.keys(zip.files)
+      .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort(
+        (a, b) =>
+          Number(a.match(/(\d+)\.xml$/)?.[1]) -
+          Number(b.match(/(\d+)\.xml$/)?.[1]),
+      );
+  }
+
+  const docs: Document[] = [];
+  for (const [i, slidePath] of slidePaths.entries()) {
+    const xml = await zip.file(slidePath)?.async("string");
+    const text = xml ? extractSlideText(xml) : "";
+    if (text) {
+      docs.push(
+        new Document({
+          pageContent: text,
+          metadata: { source: filePath, slide_number: i + 1 },
+        }),
+      );
+    }
+  }
+
+  console.log(`🖼️ Loaded ${docs.length} slides with text`);
+  return docs;
+}
+
+/**
+ * Load an Excel workbook, one document per worksheet
+ *
+ * Each row becomes a line with its cell values separated by " | ", which
+ * keeps rows together when the text is chunked.
+ */
+async function loadSpreadsheet(filePath: string): Promise<Document[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+
+  const docs: Document[] = [];
+  workbook.worksheets.forEach((worksheet, i) => {
+    const rows: string[] = [];
+    worksheet.eachRow((row) => {
+      const cells: string[] = [];
+      row.eachCell((cell) => {
+        const text = cell.text.trim();
+        if (text) cells.push(text);
+      });
+      if (cells.length > 0) rows.push(cells.join(" | "));
+    });
+
+    if (rows.length > 0) {
+      docs.push(
+        new Document({
+          pageContent: rows.join("\n"),
+          metadata: {
+            source: filePath,
+            sheet_number: i + 1,
+            sheet_name: worksheet.name,
+          },
+        }),
+      );
+    }
+  });
+
+  console.log(`📊 Loaded ${docs.length} worksheets with data`);
+  return docs;
+}
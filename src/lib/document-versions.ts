@@ -0,0 +1,220 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { summarizeChanges } from "@/lib/change-summary";
+import { changedLines, diffLines, DiffPart } from "@/lib/text-diff";
+import { DocumentStatus } from "@/lib/document-access";
+
+/**
+ * Document Versions
+ *
+ * A library item can hold several versions of a document, e.g. revisions of
+ * a contract. Each version is its own row in 'pdfs' with its own chunks, so
+ * chat and summaries can use any version by its ID. The versions of an item
+ * share a document_id (the ID of the first version) and are numbered from 1.
+ * See supabase/migrations/20261019000010_document_versions.sql.
+ *
+ * Sharing and deleting apply to the whole item: a new version is shared with
+ * everyone the item was shared with.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+/**
+ * One version of a library item
+ */
+export interface DocumentVersion {
+  id: string;
+  name: string;
+  version_number: number;
+  status: DocumentStatus;
+  created_at: string;
+}
+
+/**
+ * The differences between two versions of a library item
+ * - parts: Line diff from the older to the newer version
+ * - summary: What changed, written by the LLM when one is configured
+ */
+export interface VersionComparison {
+  from: DocumentVersion;
+  to: DocumentVersion;
+  parts: DiffPart[];
+  summary: string;
+}
+
+/**
+ * Find the library item a document belongs to
+ *
+ * @returns The item's document_id
+ */
+async function getDocumentId(
+  supabase: SupabaseClient,
+  pdfId: string,
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("pdfs")
+    .select("document_id")
+    .eq("id", pdfId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error loading document: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Document not found");
+  }
+
+  return data.document_id as string;
+}
+
+/**
+ * Load the versions of a library item, oldest first
+ */
+async function loadVersions(
+  supabase: SupabaseClient,
+  documentId: string,
+): Promise<DocumentVersion[]> {
+  const { data, error } = await supabase
+    .from("pdfs")
+    .select("id, name, version_number, status, created_at")
+    .eq("document_id", documentId)
+    .order("version_number", { ascending: true });
+
+  if (error) {
+    throw new Error(`Error loading versions: ${error.message}`);
+  }
+
+  return data as DocumentVersion[];
+}
+
+/**
+ * List every version of the library item a document belongs to
+ *
+ * @returns The versions, oldest first
+ */
+export async function listDocumentVersions(
+  supabase: SupabaseClient,
+  pdfId: string,
+): Promise<DocumentVersion[]> {
+  return loadVersions(supabase, await getDocumentId(supabase, pdfId));
+}
+
+/**
+ * Work out where a new version of a library item goes
+ *
+ * @param pdfId - Any version of the item
+ * @returns The item's document_id and the next version number, ready to be
+ *   spread into the new row
+ */
+export async function nextDocumentVersion(
+  supabase: SupabaseClient,
+  pdfId: string,
+): Promise<{ document_id: string; version_number: number }> {
+  const documentId = await getDocumentId(supabase, pdfId);
+  const versions = await loadVersions(supabase, documentId);
+  const latest = versions[versions.length - 1];
+
+  return {
+    document_id: documentId,
+    version_number: (latest?.version_number ?? 0) + 1,
+  };
+}
+
+/**
+ * Share a new version with everyone its library item is shared with
+ */
+export async function copyDocumentShares(
+  supabase: SupabaseClient,
+  newPdfId: string,
+): Promise<void> {
+  const versions = await listDocumentVersions(supabase, newPdfId);
+  const otherIds = versions
+    .map((version) => version.id)
+    .filter((id) => id !== newPdfId);
+
+  if (otherIds.length === 0) {
+    return;
+  }
+
+  const { data: shares, error } = await supabase
+    .from("pdf_shares")
+    .select("user_id")
+    .in("pdf_id", otherIds);
+
+  if (error) {
+    throw new Error(`Error loading shares: ${error.message}`);
+  }
+
+  const recipients = [...new Set(shares.map((share) => share.user_id))];
+  if (recipients.length === 0) {
+    return;
+  }
+
+  const { error: shareError } = await supabase
+    .from("pdf_shares")
+    .upsert(
+      recipients.map((userId) => ({ pdf_id: newPdfId, user_id: userId })),
+    );
+
+  if (shareError) {
+    throw new Error(`Error sharing new version: ${shareError.message}`);
+  }
+
+  console.log(`🤝 Shared new version with ${recipients.length} users`);
+}
+
+/**
+ * Compare two versions of the same library item
+ *
+ * 1. Loads both versions and checks they belong to the same item
+ * 2. Diffs their text line by line, older version first
+ * 3. Summarizes what changed
+ *
+ * Callers must check that the user may read both versions.
+ */
+export async function compareDocumentVersionTexts(
+  supabase: SupabaseClient,
+  firstId: string,
+  secondId: string,
+): Promise<VersionComparison> {
+  const { data, error } = await supabase
+    .from("pdfs")
+    .select(
+      "id, name, version_number, status, created_at, document_id, content",
+    )
+    .in("id", [firstId, secondId]);
+
+  if (error) {
+    throw new Error(`Error loading versions: ${error.message}`);
+  }
+  if (data.length !== 2) {
+    throw new Error("Document not found");
+  }
+  if (data[0].document_id !== data[1].document_id) {
+    throw new Error("Only versions of the same document can be compared");
+  }
+
+  const [older, newer] = [...data].sort(
+    (a, b) => a.version_number - b.version_number,
+  );
+
+  console.log(
+    `🔀 Comparing v${older.version_number} and v${newer.version_number} of ${older.document_id}`,
+  );
+
+  const parts = diffLines(older.content ?? "", newer.content ?? "");
+  const summary = await summarizeChanges(
+    changedLines(parts),
+    `version ${older.version_number} and version ${newer.version_number} of a document`,
+  );
+
+  const toVersion = ({
+    id,
+    name,
+    version_number,
+    status,
+    created_at,
+  }: DocumentVersion) => ({ id, name, version_number, status, created_at });
+
+  return { from: toVersion(older), to: toVersion(newer), parts, summary };
+}
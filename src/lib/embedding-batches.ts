@@ -0,0 +1,191 @@
+import { Document } from "@langchain/core/documents";
+import { Embeddings } from "@langchain/core/embeddings";
+import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Batched Embedding
+ *
+ * Embeds chunks in batches and stores them in the 'pdf_chunks' table,
+ * retrying each batch with exponential backoff and jitter when the
+ * embedding provider fails, and spacing requests to stay under its rate
+ * limit. Configured with environment variables:
+ * - EMBEDDING_BATCH_SIZE: Chunks per embedding request (default 50)
+ * - EMBEDDING_MAX_RETRIES: Retries of a failed batch (default 5)
+ * - EMBEDDING_REQUESTS_PER_MINUTE: Most embedding requests per minute
+ *   (unlimited by default)
+ *
+ * Chunks are stored under IDs chosen by the caller, so storing a batch
+ * again (after a retry or a crash) replaces it instead of duplicating it.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+
+// Create a Supabase client with admin privileges for database operations
+const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+
+// Delay before the first retry; each further retry waits twice as long
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Longest wait between two attempts
+const RETRY_MAX_DELAY_MS = 60 * 1000;
+
+// HTTP statuses worth retrying: timeouts, conflicts, rate limits, server errors
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504]);
+
+// Earliest time the next embedding request may be sent, shared by every
+// batch embedded by this server process
+let nextRequestAt = 0;
+
+/**
+ * A range of chunks whose embedding failed, kept so it can be retried alone
+ * - start/end: Chunk indexes, end exclusive
+ * - attempts: Times the batch failed, each time after all of its retries
+ * - error: The last error
+ */
+export interface FailedEmbeddingBatch {
+  start: number;
+  end: number;
+  attempts: number;
+  error: string;
+}
+
+/**
+ * Chunks sent to the embedding provider in one request
+ */
+export function getEmbeddingBatchSize(): number {
+  return Number(process.env.EMBEDDING_BATCH_SIZE) || 50;
+}
+
+/**
+ * Wait for a slot under EMBEDDING_REQUESTS_PER_MINUTE, if set
+ */
+async function waitForRateLimit(): Promise<void> {
+  const requestsPerMinute = Number(process.env.EMBEDDING_REQUESTS_PER_MINUTE);
+  const now = Date.now();
+  const sendAt = Math.max(now, nextRequestAt);
+  nextRequestAt = requestsPerMinute
+    ? sendAt + (60 * 1000) / requestsPerMinute
+    : sendAt;
+
+  if (sendAt > now) {
+    await new Promise((resolve) => setTimeout(resolve, sendAt - now));
+  }
+}
+
+/**
+ * Whether an embedding error is likely to go away on its own
+ *
+ * Errors carrying an HTTP status (OpenAI-compatible servers) are retried
+ * for rate limits and server errors only. The Jina client only reports the
+ * API's message, so anything but an authentication or validation error is
+ * retried.
+ */
+function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === "number") {
+    return RETRYABLE_STATUSES.has(status);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return !/api key|unauthori[sz]ed|forbidden|invalid/i.test(message);
+}
+
+/**
+ * How long the provider asked us to wait, from a Retry-After header
+ */
+function retryAfterMs(error: unknown): number | null {
+  const headers = (error as { headers?: Record<string, string> })?.headers;
+  const seconds = Number(headers?.["retry-after"]);
+  return seconds > 0 ? seconds * 1000 : null;
+}
+
+/**
+ * Embed texts, retrying with exponential backoff and full jitter
+ *
+ * @returns One vector per text
+ */
+async function embedWithRetry(
+  embeddings: Embeddings,
+  texts: string[],
+): Promise<number[][]> {
+  const maxRetries = Number(process.env.EMBEDDING_MAX_RETRIES || 5);
+
+  for (let attempt = 1; ; attempt++) {
+    await waitForRateLimit();
+
+    try {
+      return await embeddings.embedDocuments(texts);
+    } catch (error) {
+      if (attempt > maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+
+      const backoff = Math.min(
+        RETRY_MAX_DELAY_MS,
+        RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+      );
+      const delay = retryAfterMs(error) ?? Math.random() * backoff;
+      console.warn(
+        `⚠️ Embedding request failed (attempt ${attempt}/${maxRetries + 1}), retrying in ${Math.round(delay)}ms:`,
+        error instanceof Error ? error.message : error,
+      );
+
+      // Hold back every other batch of this process as well
+      nextRequestAt = Math.max(nextRequestAt, Date.now() + delay);
+    }
+  }
+}
+
+/**
+ * Embed texts in batches without storing them
+ *
+ * @returns One vector per text
+ */
+export async function embedTexts(
+  embeddings: Embeddings,
+  texts: string[],
+): Promise<number[][]> {
+  const batchSize = getEmbeddingBatchSize();
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += batchSize) {
+    vectors.push(
+      ...(await embedWithRetry(
+        embeddings,
+        texts.slice(start, start + batchSize),
+      )),
+    );
+  }
+  return vectors;
+}
+
+/**
+ * Embed one batch of chunks and store it in the 'pdf_chunks' table
+ *
+ * @param ids - The ID to store each chunk under
+ * @param tableName - Where to store the chunks instead, e.g. the shadow
+ *   table a re-index builds (see reindex-jobs.ts)
+ */
+export async function storeEmbeddingBatch(
+  chunks: Document[],
+  ids: string[],
+  embeddings: Embeddings,
+  tableName = "pdf_chunks",
+): Promise<void> {
+  const vectors = await embedWithRetry(
+    embeddings,
+    chunks.map((chunk) => chunk.pageContent),
+  );
+
+  // Store in the vector database - reusing the same table as PDF chunks
+  const vectorStore = new SupabaseVectorStore(embeddings, {
+    client: supabaseClient,
+    tableName,
+    queryName: "match_pdf_chunks",
+  });
+  await vectorStore.addVectors(vectors, chunks, { ids });
+}
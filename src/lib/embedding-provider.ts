@@ -0,0 +1,104 @@
+import { Embeddings } from "@langchain/core/embeddings";
+import { JinaEmbeddings } from "@langchain/community/embeddings/jina";
+import { HuggingFaceTransformersEmbeddings } from "@langchain/community/embeddings/huggingface_transformers";
+import { OpenAIEmbeddings } from "@langchain/openai";
+
+/**
+ * Embedding Provider Factory
+ *
+ * Every embedding model in the app is created here, configured with
+ * environment variables:
+ * - EMBEDDING_PROVIDER: "jina" (default), "openai-compatible" or "local"
+ * - EMBEDDING_MODEL: Model name (defaults depend on the provider)
+ * - EMBEDDING_DIMENSIONS: Vector size produced by the model
+ * - EMBEDDING_BASE_URL: API base URL for "openai-compatible"
+ * - EMBEDDING_API_KEY: API key for "openai-compatible"
+ * - JINA_API_KEY: API key for "jina"
+ *
+ * The "local" provider runs a transformers.js model on the CPU inside the
+ * server process, so no embedding API is needed.
+ *
+ * Each stored chunk records the model ID ("provider:model") in its metadata,
+ * and queries only compare vectors produced by the same model.
+ */
+
+export type EmbeddingProvider = "jina" | "openai-compatible" | "local";
+
+// Default model and vector size for each provider
+const DEFAULTS: Record<
+  EmbeddingProvider,
+  { model: string; dimensions: number }
+> = {
+  jina: { model: "jina-embeddings-v3", dimensions: 1024 },
+  "openai-compatible": { model: "nomic-embed-text", dimensions: 768 },
+  local: { model: "Xenova/all-MiniLM-L6-v2", dimensions: 384 },
+};
+
+/**
+ * Resolved embedding configuration
+ * - provider: Which backend produces the vectors
+ * - model: The model name sent to that backend
+ * - dimensions: The size of the vectors it produces
+ * - modelId: "provider:model", recorded on every chunk
+ */
+export interface EmbeddingConfig {
+  provider: EmbeddingProvider;
+  model: string;
+  dimensions: number;
+  modelId: string;
+}
+
+/**
+ * Read the embedding configuration from environment variables
+ */
+export function getEmbeddingConfig(): EmbeddingConfig {
+  const provider = (process.env.EMBEDDING_PROVIDER ||
+    "jina") as EmbeddingProvider;
+
+  if (!Object.hasOwn(DEFAULTS, provider)) {
+    throw new Error(
+      `Unknown EMBEDDING_PROVIDER "${provider}". Use "jina", "openai-compatible" or "local".`,
+    );
+  }
+
+  const model = process.env.EMBEDDING_MODEL || DEFAULTS[provider].model;
+  const dimensions =
+    Number(process.env.EMBEDDING_DIMENSIONS) || DEFAULTS[provider].dimensions;
+
+  return { provider, model, dimensions, modelId: `${provider}:${model}` };
+}
+
+/**
+ * Create the embedding model for the configured provider
+ */
+export function createEmbeddings(
+  config: EmbeddingConfig = getEmbeddingConfig(),
+): Embeddings {
+  console.log(
+    `🧠 Using ${config.provider} embeddings: ${config.model} (${config.dimensions} dimensions)`,
+  );
+
+  switch (config.provider) {
+    case "jina":
+      return new JinaEmbeddings({
+        apiKey: process.env.JINA_API_KEY as string,
+        model: config.model,
+        dimensions: config.dimensions,
+      });
+    case "openai-compatible":
+      return new OpenAIEmbeddings({
+        apiKey: process.env.EMBEDDING_API_KEY || "not-needed",
+        model: config.model,
+        // Only request a size explicitly; many local servers reject the option
+        ...(process.env.EMBEDDING_DIMENSIONS
+          ? { dimensions: config.dimensions }
+          : {}),
+        configuration: {
+          baseURL:
+            process.env.EMBEDDING_BASE_URL || "http://localhost:11434/v1",
+        },
+      });
+    case "local":
+      return new HuggingFaceTransformersEmbeddings({ model: config.model });
+  }
+}
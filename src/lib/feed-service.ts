@@ -0,0 +1,181 @@
+"use server";
+
+import { createClient } from "@supabase/supabase-js";
+import { after } from "next/server";
+import { requireUserId } from "@/lib/auth";
+import { fetchFeed, FeedSubscription, pollFeed } from "@/lib/feeds";
+import { runIngestionJobs } from "@/lib/ingestion-jobs";
+
+/**
+ * Feed Subscription Service
+ *
+ * Server actions for following RSS and Atom feeds. New entries are queued
+ * as background ingestion jobs by the scheduled poll (/api/feeds/poll), or
+ * on demand with checkFeedNow. Every action works on the signed-in user's subscriptions
+ * only.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+
+// Create a Supabase client with admin privileges for database operations
+const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * Load one of the current user's subscriptions
+ */
+async function getOwnSubscription(
+  feedId: string,
+  userId: string,
+): Promise<FeedSubscription> {
+  const { data, error } = await supabaseClient
+    .from("feed_subscriptions")
+    .select("*")
+    .eq("id", feedId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load feed: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error("Feed not found");
+  }
+
+  return data as FeedSubscription;
+}
+
+/**
+ * Subscribe the current user to a feed
+ *
+ * The feed is fetched once to check that it is an RSS or Atom feed; its
+ * entries are ingested by the next poll.
+ *
+ * @param formData - Form data containing url, and optionally name (defaults
+ *   to the feed's title) and pollIntervalMinutes (a positive number of
+ *   minutes, defaults to 60)
+ * @returns The new subscription
+ */
+export async function subscribeToFeed(
+  formData: FormData,
+): Promise<FeedSubscription> {
+  const url = (formData.get("url") as string)?.trim();
+  const name = (formData.get("name") as string)?.trim();
+  const interval = formData.get("pollIntervalMinutes") as string | null;
+  const pollIntervalMinutes = interval ? Number(interval) : 60;
+  const userId = await requireUserId();
+
+  if (!url) {
+    throw new Error("No feed URL provided");
+  }
+
+  if (!Number.isFinite(pollIntervalMinutes) || pollIntervalMinutes <= 0) {
+    throw new Error(
+      "The polling interval must be a positive number of minutes",
+    );
+  }
+
+  console.log(`📡 Subscribing user ${userId} to feed ${url}`);
+  const feed = await fetchFeed(url);
+
+  const { data, error } = await supabaseClient
+    .from("feed_subscriptions")
+    .insert({
+      user_id: userId,
+      url,
+      name: name || feed.title || new URL(url).hostname,
+      poll_interval_minutes: pollIntervalMinutes,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // 23505: unique_violation on (user_id, url)
+    if (error.code === "23505") {
+      throw new Error("You already follow this feed");
+    }
+    console.error("❌ Error saving feed subscription:", error);
+    throw new Error(`Failed to subscribe to feed: ${error.message}`);
+  }
+
+  console.log(
+    `✅ Subscribed to "${data.name}" (${feed.entries.length} entries)`,
+  );
+  return data as FeedSubscription;
+}
+
+/**
+ * List the current user's feed subscriptions, newest first
+ */
+export async function fetchFeedSubscriptions(): Promise<FeedSubscription[]> {
+  const userId = await requireUserId();
+
+  const { data, error } = await supabaseClient
+    .from("feed_subscriptions")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("❌ Error fetching feed subscriptions:", error);
+    throw new Error(`Failed to fetch feeds: ${error.message}`);
+  }
+
+  return data as FeedSubscription[];
+}
+
+/**
+ * Unsubscribe the current user from a feed
+ *
+ * Entries already ingested stay in the library.
+ *
+ * @param formData - Form data containing feedId
+ */
+export async function unsubscribeFromFeed(formData: FormData): Promise<void> {
+  const feedId = formData.get("feedId") as string;
+  const userId = await requireUserId();
+
+  if (!feedId) {
+    throw new Error("No feed ID provided");
+  }
+
+  await getOwnSubscription(feedId, userId);
+
+  const { error } = await supabaseClient
+    .from("feed_subscriptions")
+    .delete()
+    .eq("id", feedId);
+
+  if (error) {
+    console.error("❌ Error deleting feed subscription:", error);
+    throw new Error(`Failed to unsubscribe: ${error.message}`);
+  }
+
+  console.log(`✅ Unsubscribed user ${userId} from feed ${feedId}`);
+}
+
+/**
+ * Poll one of the current user's feeds right away
+ *
+ * New entries are queued as ingestion jobs, which start after the action
+ * responds.
+ *
+ * @param formData - Form data containing feedId
+ * @returns The number of new entries queued
+ */
+export async function checkFeedNow(
+  formData: FormData,
+): Promise<{ queued: number }> {
+  const feedId = formData.get("feedId") as string;
+  const userId = await requireUserId();
+
+  if (!feedId) {
+    throw new Error("No feed ID provided");
+  }
+
+  const subscription = await getOwnSubscription(feedId, userId);
+  const { queued, jobIds } = await pollFeed(subscription);
+  after(() => runIngestionJobs(jobIds));
+
+  return { queued };
+}
@@ -0,0 +1,373 @@
+import { load as loadHtml } from "cheerio";
+import { createClient } from "@supabase/supabase-js";
+import { DEFAULT_CHUNKING_STRATEGY } from "@/lib/chunking-config";
+import { findDuplicateDocument } from "@/lib/deduplication";
+import { createIngestionJob, rollbackIngestionJob } from "@/lib/ingestion-jobs";
+import { CRAWL_USER_AGENT } from "@/lib/web-crawler";
+
+/**
+ * RSS and Atom Feed Polling
+ *
+ * Reads RSS 2.0, RSS 1.0 (RDF) and Atom feeds, and queues a background
+ * ingestion job (see ingestion-jobs.ts) for each entry that hasn't been seen
+ * before, tagged with the feed's name. Like links saved by hand, an entry
+ * whose URL is already in the user's library isn't ingested again. Seen
+ * entries are recorded in 'feed_items' with their job or existing document,
+ * so each entry is ingested once, unless its job fails (up to
+ * MAX_ENTRY_ATTEMPTS jobs per entry). Configured with:
+ * - FEED_MAX_ITEMS_PER_POLL: Most entries queued per feed per poll (default 10)
+ *
+ * Feeds are fetched with plain HTTP requests, so polling can be pointed at
+ * local feed fixtures.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+
+// Create a Supabase client with admin privileges for database operations
+const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+
+// Longest wait for a feed, so a host that never answers can't stall polling
+const FETCH_TIMEOUT_MS = 30 * 1000;
+
+// Jobs queued for an entry before it is given up on, e.g. a page that no
+// longer exists
+const MAX_ENTRY_ATTEMPTS = 3;
+
+/**
+ * An entry of a feed
+ * - guid: Stable ID of the entry (the link when the feed gives none)
+ */
+export interface FeedEntry {
+  guid: string;
+  link: string;
+  title: string | null;
+  publishedAt: string | null;
+}
+
+/**
+ * A parsed feed
+ */
+export interface ParsedFeed {
+  title: string | null;
+  entries: FeedEntry[];
+}
+
+/**
+ * A row of the 'feed_subscriptions' table
+ */
+export interface FeedSubscription {
+  id: string;
+  user_id: string;
+  url: string;
+  name: string;
+  poll_interval_minutes: number;
+  last_polled_at: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+/**
+ * Turn a feed date into an ISO timestamp, or null if it can't be read
+ */
+function toIsoDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0 (RDF) or Atom feed
+ *
+ * Relative entry links are resolved against the feed URL, and entries
+ * without a link are skipped.
+ */
+export function parseFeed(xml: string, feedUrl: string): ParsedFeed {
+  const $ = loadHtml(xml, { xmlMode: true });
+  const entries: FeedEntry[] = [];
+
+  const addEntry = (
+    link: string | undefined,
+    guid: string | undefined,
+    title: string | undefined,
+    date: string | undefined,
+  ) => {
+    if (!link?.trim()) return;
+    try {
+      const resolved = new URL(link.trim(), feedUrl).toString();
+      entries.push({
+        guid: guid?.trim() || resolved,
+        link: resolved,
+        title: title?.trim() || null,
+        publishedAt: toIsoDate(date),
+      });
+    } catch {
+      // Ignore malformed links
+    }
+  };
+
+  // Atom: <feed><entry><link href="..."/></entry></feed>
+  if ($("feed").length > 0) {
+    $("feed > entry").each((_, element) => {
+      const entry = $(element);
+      const link =
+        entry.find('link[rel="alternate"]').attr("href") ??
+        entry.find("link:not([rel])").attr("href") ??
+        entry.find("link").attr("href");
+      addEntry(
+        link,
+        entry.children("id").text(),
+        entry.children("title").text(),
+        entry.children("published").text() || entry.children("updated").text(),
+      );
+    });
+
+    return { title: $("feed > title").first().text().trim() || null, entries };
+  }
+
+  // RSS 2.0 (<rss><channel><item>) and RSS 1.0 (<rdf:RDF><item>)
+  $("item").each((_, element) => {
+    const item = $(element);
+    addEntry(
+      item.children("link").text() || item.attr("rdf:about"),
+      item.children("guid").text() || item.attr("rdf:about"),
+      item.children("title").text(),
+      item.children("pubDate").text() || item.children("dc\\:date").text(),
+    );
+  });
+
+  return { title: $("channel > title").first().text().trim() || null, entries };
+}
+
+/**
+ * Fetch and parse a feed
+ */
+export async function fetchFeed(feedUrl: string): Promise<ParsedFeed> {
+  const response = await fetch(feedUrl, {
+    headers: { "User-Agent": CRAWL_USER_AGENT },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch feed: ${response.status}`);
+  }
+
+  const xml = await response.text();
+  if (!/<(rss|feed|rdf:RDF)[\s>]/.test(xml)) {
+    throw new Error("This URL is not an RSS or Atom feed");
+  }
+
+  return parseFeed(xml, feedUrl);
+}
+
+/**
+ * Record an entry of a feed, or update it if it was recorded before
+ */
+async function recordFeedItem(item: Record<string, unknown>): Promise<void> {
+  const { error } = await supabaseClient
+    .from("feed_items")
+    .upsert(item, { onConflict: "feed_id,guid" });
+
+  if (error) {
+    throw new Error(`Failed to record entry: ${error.message}`);
+  }
+}
+
+/**
+ * Poll one feed and queue its new entries for ingestion
+ *
+ * 1. Fetches the feed and finds the entries not in 'feed_items' yet, or
+ *    whose ingestion job failed fewer than MAX_ENTRY_ATTEMPTS times
+ * 2. For the newest of them (up to FEED_MAX_ITEMS_PER_POLL), oldest first,
+ *    records the document if the URL is already in the library, or queues a
+ *    job and records the entry with it
+ * 3. Records the poll time on the subscription
+ *
+ * The caller starts the jobs with runIngestionJobs, or leaves them to
+ * /api/ingestion/run.
+ *
+ * @returns The number of entries queued and the IDs of their jobs
+ */
+export async function pollFeed(
+  subscription: FeedSubscription,
+): Promise<{ queued: number; jobIds: string[] }> {
+  console.log(`📡 Polling feed "${subscription.name}" (${subscription.url})`);
+  const maxItems = Number(process.env.FEED_MAX_ITEMS_PER_POLL) || 10;
+  const jobIds: string[] = [];
+  let lastError: string | null = null;
+
+  try {
+    // Step 1: Find the entries we haven't seen, or failed to ingest
+    const feed = await fetchFeed(subscription.url);
+    const guids = feed.entries.map((entry) => entry.guid);
+
+    const { data: seen, error: seenError } = await supabaseClient
+      .from("feed_items")
+      .select("guid, job_id, attempts")
+      .eq("feed_id", subscription.id)
+      .in("guid", guids);
+
+    if (seenError) {
+      throw new Error(`Failed to read feed entries: ${seenError.message}`);
+    }
+
+    const seenJobIds = seen.flatMap((item) =>
+      item.job_id ? [item.job_id as string] : [],
+    );
+    const { data: failedJobs, error: jobsError } = await supabaseClient
+      .from("ingestion_jobs")
+      .select("id")
+      .in("id", seenJobIds)
+      .eq("status", "failed");
+
+    if (jobsError) {
+      throw new Error(`Failed to read feed entries: ${jobsError.message}`);
+    }
+
+    // Entries seen before, by guid, with the jobs queued for them so far;
+    // those whose last job failed are left out while they have attempts left
+    const failedJobIds = new Set(failedJobs.map((job) => job.id as string));
+    const attempts = new Map<string, number>();
+    const seenGuids = new Set<string>();
+    for (const item of seen) {
+      attempts.set(item.guid, item.attempts ?? 1);
+      if (
+        !failedJobIds.has(item.job_id as string) ||
+        (item.attempts ?? 1) >= MAX_ENTRY_ATTEMPTS
+      ) {
+        seenGuids.add(item.guid);
+      }
+    }
+    const newEntries = feed.entries
+      .filter((entry) => !seenGuids.has(entry.guid))
+      .sort((a, b) => (b.publishedAt ?? "").localeCompare(a.publishedAt ?? ""))
+      .slice(0, maxItems)
+      .reverse();
+
+    console.log(
+      `🆕 ${newEntries.length} new entries in "${subscription.name}" (${feed.entries.length} in feed)`,
+    );
+
+    // Step 2: Queue each new entry as a link tagged with the feed name
+    for (const entry of newEntries) {
+      try {
+        const item = {
+          feed_id: subscription.id,
+          guid: entry.guid,
+          link: entry.link,
+          title: entry.title,
+          published_at: entry.publishedAt,
+        };
+
+        // The same article can come from another feed or be saved by hand
+        const duplicate = await findDuplicateDocument(
+          supabaseClient,
+          subscription.user_id,
+          { sourceUrl: entry.link },
+        );
+        if (duplicate) {
+          console.log(`♻️ ${entry.link} is already saved as ${duplicate.id}`);
+          await recordFeedItem({ ...item, pdf_id: duplicate.id, job_id: null });
+          continue;
+        }
+
+        const job = await createIngestionJob(subscription.user_id, {
+          kind: "link",
+          url: entry.link,
+          crawlMode: "single",
+          name: entry.title || entry.link,
+          tags: [subscription.name],
+          chunkingStrategy: DEFAULT_CHUNKING_STRATEGY,
+        });
+
+        // A retried entry already has a row, which now points at the new job.
+        // An entry that can't be recorded would be queued again by the next
+        // poll, so its job is dropped
+        try {
+          await recordFeedItem({
+            ...item,
+            job_id: job.id,
+            attempts: (attempts.get(entry.guid) ?? 0) + 1,
+          });
+        } catch (recordError) {
+          try {
+            await rollbackIngestionJob(job);
+          } catch (rollbackError) {
+            console.error(
+              `❌ Could not drop ingestion job ${job.id}:`,
+              rollbackError,
+            );
+          }
+          throw recordError;
+        }
+        jobIds.push(job.id);
+      } catch (error) {
+        console.error(`❌ Error queuing feed entry ${entry.link}:`, error);
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+    }
+  } catch (error) {
+    console.error(`❌ Error polling feed "${subscription.name}":`, error);
+    lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  // Step 3: Remember when the feed was polled and how it went
+  const { error: updateError } = await supabaseClient
+    .from("feed_subscriptions")
+    .update({ last_polled_at: new Date().toISOString(), last_error: lastError })
+    .eq("id", subscription.id);
+
+  // The queued jobs run either way; the feed is polled again next time
+  if (updateError) {
+    console.error(
+      `❌ Could not record the poll of feed "${subscription.name}":`,
+      updateError.message,
+    );
+  }
+
+  console.log(`✅ Queued ${jobIds.length} entries from "${subscription.name}"`);
+  return { queued: jobIds.length, jobIds };
+}
+
+/**
+ * Poll every feed whose polling interval has passed
+ *
+ * Called on a schedule by /api/feeds/poll.
+ *
+ * @returns The number of feeds polled and entries queued, and the IDs of
+ *   their jobs
+ */
+export async function pollDueFeeds(): Promise<{
+  feeds: number;
+  queued: number;
+  jobIds: string[];
+}> {
+  const { data: subscriptions, error } = await supabaseClient
+    .from("feed_subscriptions")
+    .select("*");
+
+  if (error) {
+    throw new Error(`Failed to load feed subscriptions: ${error.message}`);
+  }
+
+  const now = Date.now();
+  const due = (subscriptions as FeedSubscription[]).filter(
+    (subscription) =>
+      !subscription.last_polled_at ||
+      now - new Date(subscription.last_polled_at).getTime() >=
+        subscription.poll_interval_minutes * 60 * 1000,
+  );
+
+  console.log(
+    `⏰ ${due.length} of ${subscriptions.length} feeds are due for polling`,
+  );
+
+  const jobIds: string[] = [];
+  for (const subscription of due) {
+    jobIds.push(...(await pollFeed(subscription)).jobIds);
+  }
+
+  return { feeds: due.length, queued: jobIds.length, jobIds };
+}
@@ -0,0 +1,131 @@
+/**
+ * Supported Upload Formats
+ *
+ * Shared between the upload form (which filters the file picker and rejects
+ * other files) and the ingestion services (which pick a loader by format).
+ * Each format names the unit its content is divided into, which is recorded
+ * on every chunk so citations can point to it.
+ */
+
+// Define supported file formats
+export type FileFormat =
+  | "pdf"
+  | "docx"
+  | "pptx"
+  | "xlsx"
+  | "txt"
+  | "md"
+  | "html"
+  | "vtt"
+  | "srt";
+
+// File format configuration
+export const FILE_FORMAT_CONFIG: Record<
+  FileFormat,
+  {
+    label: string;
+    extension: string;
+    mimeTypes: string[];
+    unit: "page" | "slide" | "sheet" | "section" | "timestamp" | null;
+  }
+> = {
+  pdf: {
+    label: "PDF",
+    extension: ".pdf",
+    mimeTypes: ["application/pdf"],
+    unit: "page",
+  },
+  docx: {
+    label: "Word document",
+    extension: ".docx",
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ],
+    // Word files have no fixed pages once the layout engine is gone
+    unit: null,
+  },
+  pptx: {
+    label: "PowerPoint presentation",
+    extension: ".pptx",
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    ],
+    unit: "slide",
+  },
+  xlsx: {
+    label: "Excel spreadsheet",
+    extension: ".xlsx",
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ],
+    unit: "sheet",
+  },
+  txt: {
+    label: "Text file",
+    extension: ".txt",
+    mimeTypes: ["text/plain"],
+    unit: null,
+  },
+  md: {
+    label: "Markdown file",
+    extension: ".md",
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+    unit: "section",
+  },
+  html: {
+    label: "HTML page",
+    extension: ".html",
+    mimeTypes: ["text/html"],
+    unit: "section",
+  },
+  vtt: {
+    label: "WebVTT subtitles",
+    extension: ".vtt",
+    mimeTypes: ["text/vtt"],
+    unit: "timestamp",
+  },
+  srt: {
+    label: "SubRip subtitles",
+    extension: ".srt",
+    mimeTypes: ["application/x-subrip", "text/srt"],
+    unit: "timestamp",
+  },
+};
+
+// Value for the "accept" attribute of file inputs
+export const ACCEPTED_FILE_TYPES = Object.values(FILE_FORMAT_CONFIG)
+  .map((format) => format.extension)
+  .join(",");
+
+// Human-readable list of the supported formats, e.g. for error messages
+export const SUPPORTED_FORMAT_LABELS = Object.values(FILE_FORMAT_CONFIG)
+  .map((format) => format.label)
+  .join(", ");
+
+/**
+ * Work out the format of an uploaded file from its MIME type, falling back
+ * to the file extension (browsers often send an empty or generic type)
+ *
+ * @returns The format, or null if it isn't supported
+ */
+export function detectFileFormat(
+  fileName: string,
+  mimeType: string,
+): FileFormat | null {
+  const formats = Object.entries(FILE_FORMAT_CONFIG) as Array<
+    [FileFormat, (typeof FILE_FORMAT_CONFIG)[FileFormat]]
+  >;
+
+  const byMimeType = formats.find(([, config]) =>
+    config.mimeTypes.includes(mimeType),
+  );
+  if (byMimeType) {
+    return byMimeType[0];
+  }
+
+  const lowerName = fileName.toLowerCase();
+  const byExtension = formats.find(([, config]) =>
+    lowerName.endsWith(config.extension),
+  );
+  return byExtension ? byExtension[0] : null;
+}
@@ -0,0 +1,954 @@
+import { Document } from "@langchain/core/documents";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { createClient } from "@supabase/supabase-js";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { createEmbeddings, getEmbeddingConfig } from "@/lib/embedding-provider";
+import { ChunkingStrategy } from "@/lib/chunking-config";
+import { splitIntoChunks } from "@/lib/chunking";
+import {
+  FailedEmbeddingBatch,
+  getEmbeddingBatchSize,
+  storeEmbeddingBatch,
+} from "@/lib/embedding-batches";
+import { startHeartbeat } from "@/lib/job-heartbeat";
+import { createChatModel } from "@/lib/llm-provider";
+import { summarizeChunks, SummaryResult } from "@/lib/summary-chain";
+import { loadFileDocuments } from "@/lib/document-loaders";
+import { FILE_FORMAT_CONFIG, FileFormat } from "@/lib/file-formats";
+import {
+  joinLinkContent,
+  loadLinkDocuments,
+  splitLinkDocuments,
+} from "@/lib/link-ingestion";
+import { CrawlMode } from "@/lib/web-crawler";
+import {
+  DuplicateDocument,
+  findDuplicateDocument,
+  hashText,
+} from "@/lib/deduplication";
+import {
+  copyDocumentShares,
+  nextDocumentVersion,
+} from "@/lib/document-versions";
+import type { DocumentStatus } from "@/lib/document-access";
+
+/**
+ * Background Ingestion Jobs
+ *
+ * Uploads and links are ingested by a job in the 'ingestion_jobs' table
+ * rather than inside the server action that received them, so large files
+ * don't block the page and a dead request doesn't lose the work done so far.
+ * A job runs through these stages, saving its state after each one:
+ * 1. extract: Read the text of the uploaded file or load the link
+ * 2. store: Store the document in the 'pdfs' table
+ * 3. chunk: Split the document into chunks with its chunking strategy
+ * 4. embed: Embed the chunks in batches, recording how many are done
+ * 5. summarize: Summarize uploaded files (optional, failures are ignored)
+ *
+ * The document is stored with the status 'pending' and only becomes 'ready'
+ * once all of its chunks are embedded, in a single update, so the library
+ * and chat never see it half-ingested. A job that fails deletes its document
+ * right away, with the error kept on the job (the document is marked
+ * 'failed' if it can't be deleted). The chunks already embedded are kept
+ * under their IDs, which only the job knows, so a retry doesn't embed them
+ * again.
+ *
+ * Jobs are started right after the server action responds, and
+ * /api/ingestion/run picks up queued jobs and jobs whose worker died. A
+ * failed job can be retried, and stores the document again from the text it
+ * extracted (or extracts it again if that failed), then embeds only the
+ * chunks that aren't stored yet; or discarded, which deletes the job, its
+ * chunks and its upload.
+ *
+ * This module is server-only but deliberately not a "use server" file:
+ * createIngestionJob trusts the userId it is given, so it must never be
+ * callable from the browser.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+
+// Create a Supabase client with admin privileges for database operations
+const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+
+// Storage bucket holding uploaded files until their text is extracted
+// (see supabase/migrations/20261019000011_ingestion_jobs.sql)
+export const UPLOADS_BUCKET = "ingestion-uploads";
+
+// A running job that hasn't saved progress for this long is assumed dead
+const JOB_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// After this many batches in a row fail, the embed stage stops trying the
+// rest, since the embedding provider is most likely down
+const MAX_CONSECUTIVE_FAILED_BATCHES = 3;
+
+// Most jobs one run of /api/ingestion/run works through
+const JOBS_PER_RUN = 5;
+
+export type IngestionStage =
+  | "extract"
+  | "store"
+  | "chunk"
+  | "embed"
+  | "summarize"
+  | "done";
+
+export type IngestionStatus = "queued" | "running" | "completed" | "failed";
+
+/**
+ * What a job ingests
+ * - file: An upload, kept in the uploads bucket at storagePath
+ * - link: A URL, loaded with the given crawl options, and optionally stored
+ *   under a name (defaults to the URL) and with tags, e.g. the feed it came from
+ * - versionOf: Store the result as a new version of this library item
+ */
+export type IngestionInput =
+  | {
+      kind: "file";
+      name: string;
+      format: FileFormat;
+      storagePath: string;
+      fileSha256: string;
+      chunkingStrategy: ChunkingStrategy;
+      versionOf?: string;
+    }
+  | {
+      kind: "link";
+      url: string;
+      crawlMode: CrawlMode;
+      maxDepth?: number;
+      maxPages?: number;
+      name?: string;
+      tags?: string[];
+      chunkingStrategy: ChunkingStrategy;
+      versionOf?: string;
+    };
+
+/**
+ * A LangChain document as saved in a job between stages
+ * - id: The ID a chunk is stored under in 'pdf_chunks'
+ */
+interface SavedDocument {
+  id?: string;
+  pageContent: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * A row of the 'ingestion_jobs' table
+ * - pdf_id: ID of the document the job creates, reserved when it is queued
+ * - documents/chunks: Extracted sections and prepared chunks, kept until
+ *   the job completes so later stages can resume from them
+ * - progress_done/progress_total: Chunks embedded so far, out of all chunks
+ * - failed_batches: Batches whose embedding failed, retried first when a
+ *   worker resumes the embed stage
+ * - duplicate: The existing document, if the content is already in the library
+ */
+export interface IngestionJob {
+  id: string;
+  user_id: string;
+  status: IngestionStatus;
+  stage: IngestionStage;
+  input: IngestionInput;
+  pdf_id: string;
+  documents: SavedDocument[] | null;
+  chunks: SavedDocument[] | null;
+  progress_done: number;
+  progress_total: number;
+  failed_batches: FailedEmbeddingBatch[];
+  duplicate: DuplicateDocument | null;
+  summary: string | null;
+  summary_sections: number;
+  error: string | null;
+  locked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * What the page needs to show a job's progress
+ * - percent: Overall progress, 0-100
+ */
+export type IngestionProgress = Pick<
+  IngestionJob,
+  | "id"
+  | "status"
+  | "stage"
+  | "pdf_id"
+  | "progress_done"
+  | "progress_total"
+  | "duplicate"
+  | "summary"
+  | "summary_sections"
+  | "error"
+> & { percent: number };
+
+// Share of the overall progress reached when each stage starts
+const STAGE_START_PERCENT: Record<IngestionStage, number> = {
+  extract: 0,
+  store: 20,
+  chunk: 25,
+  embed: 30,
+  summarize: 90,
+  done: 100,
+};
+
+/**
+ * Summarize a job's state for the page
+ */
+export function toIngestionProgress(job: IngestionJob): IngestionProgress {
+  let percent = STAGE_START_PERCENT[job.stage];
+  if (job.stage === "embed" && job.progress_total > 0) {
+    percent += Math.round((60 * job.progress_done) / job.progress_total);
+  }
+
+  return {
+    id: job.id,
+    status: job.status,
+    stage: job.stage,
+    pdf_id: job.pdf_id,
+    progress_done: job.progress_done,
+    progress_total: job.progress_total,
+    duplicate: job.duplicate,
+    summary: job.summary,
+    summary_sections: job.summary_sections,
+    error: job.error,
+    percent: job.status === "completed" ? 100 : percent,
+  };
+}
+
+/**
+ * Queue a job to ingest a file or link for a user
+ *
+ * Uploaded files must already be in the uploads bucket. The caller starts
+ * the job with runIngestionJob, or leaves it to /api/ingestion/run.
+ *
+ * @returns The queued job
+ */
+export async function createIngestionJob(
+  userId: string,
+  input: IngestionInput,
+): Promise<IngestionJob> {
+  const { data, error } = await supabaseClient
+    .from("ingestion_jobs")
+    .insert({ user_id: userId, input, pdf_id: randomUUID() })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to queue ingestion: ${error.message}`);
+  }
+
+  console.log(`📥 Queued ${input.kind} ingestion job ${data.id}`);
+  return data as IngestionJob;
+}
+
+/**
+ * Load a job by ID
+ */
+export async function getIngestionJob(
+  jobId: string,
+): Promise<IngestionJob | null> {
+  const { data, error } = await supabaseClient
+    .from("ingestion_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load ingestion job: ${error.message}`);
+  }
+
+  return data as IngestionJob | null;
+}
+
+/**
+ * Save changes to a job, which also shows its worker is alive
+ */
+async function updateJob(
+  jobId: string,
+  changes: Partial<IngestionJob>,
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseClient
+    .from("ingestion_jobs")
+    .update({ ...changes, locked_at: now, updated_at: now })
+    .eq("id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to save ingestion job: ${error.message}`);
+  }
+}
+
+/**
+ * Take a job for this worker if it is queued, or running with a dead worker
+ *
+ * @returns The job, or null if another worker has it or it is finished
+ */
+async function claimJob(jobId: string): Promise<IngestionJob | null> {
+  const now = new Date().toISOString();
+  const staleBefore = new Date(Date.now() - JOB_LOCK_TIMEOUT_MS).toISOString();
+
+  const { data, error } = await supabaseClient
+    .from("ingestion_jobs")
+    .update({ status: "running", locked_at: now, updated_at: now })
+    .eq("id", jobId)
+    .or(`status.eq.queued,and(status.eq.running,locked_at.lt.${staleBefore})`)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim ingestion job: ${error.message}`);
+  }
+
+  return data as IngestionJob | null;
+}
+
+/**
+ * Set the status of the document a job creates (no-op before it is stored)
+ */
+async function setDocumentStatus(
+  pdfId: string,
+  status: DocumentStatus,
+): Promise<void> {
+  const { error } = await supabaseClient
+    .from("pdfs")
+    .update({ status })
+    .eq("id", pdfId)
+    .neq("status", "ready");
+
+  if (error) {
+    throw new Error(`Failed to update document status: ${error.message}`);
+  }
+}
+
+/**
+ * Delete the document a job creates, unless it is ready
+ *
+ * Its chunks are left alone: they are only found through the document, and
+ * a retry stores them again under the same IDs.
+ *
+ * @returns false if the document is ready and was kept
+ */
+async function deleteUnfinishedDocument(pdfId: string): Promise<boolean> {
+  const { data: pdf, error: pdfError } = await supabaseClient
+    .from("pdfs")
+    .select("status")
+    .eq("id", pdfId)
+    .maybeSingle();
+
+  if (pdfError) {
+    throw new Error(`Failed to delete document: ${pdfError.message}`);
+  }
+  if (pdf?.status === "ready") {
+    return false;
+  }
+
+  const { error } = await supabaseClient
+    .from("pdfs")
+    .delete()
+    .eq("id", pdfId)
+    .neq("status", "ready");
+
+  if (error) {
+    throw new Error(`Failed to delete document: ${error.message}`);
+  }
+  return true;
+}
+
+/**
+ * The text stored in 'pdfs.content' for the extracted documents
+ */
+function jobContent(input: IngestionInput, documents: SavedDocument[]) {
+  return input.kind === "link"
+    ? joinLinkContent(documents as Document[], input.crawlMode)
+    : documents.map((doc) => doc.pageContent).join("\n\n");
+}
+
+/**
+ * Stringify chunk metadata for storage and choose the chunk's ID
+ *
+ * This is crucial to ensure the pdf_id is properly stored as a string
+ */
+function prepareChunk(chunk: Document): SavedDocument {
+  return {
+    id: randomUUID(),
+    pageContent: chunk.pageContent,
+    metadata: Object.fromEntries(
+      Object.entries(chunk.metadata).map(([key, value]) => [
+        key,
+        String(value),
+      ]),
+    ),
+  };
+}
+
+/**
+ * Generate a summary from document chunks using the configured LLM
+ *
+ * This function:
+ * 1. Takes the chunks of a document, split with its chunking strategy
+ * 2. Summarizes the chunks in one pass, or section by section (map-reduce)
+ *    when the document is too long for a single prompt
+ * 3. Returns the generated summary
+ *
+ * @param chunks - The document's chunks, in document order
+ * @returns The generated summary and the number of sections it covers
+ */
+async function generateSummaryFromChunks(
+  chunks: Document[],
+): Promise<SummaryResult> {
+  // Initialize the chat model for summary generation
+  // (lower temperature for more factual summaries)
+  const model = createChatModel({ temperature: 0 });
+
+  // Create a prompt template for document summarization
+  const summaryPrompt = PromptTemplate.fromTemplate(`
+    You are a professional document summarizer.
+
+    Below is the content from a document. Please create a comprehensive summary
+    that captures the key points, main arguments, and conclusions. The summary should be
+    well-structured, clear, and concise while preserving the important details.
+
+    Document content:
+    {text}
+
+    Summary:
+  `);
+
+  console.log(
+    "📄 Document text sample being passed to LLM:",
+    chunks[0]?.pageContent.substring(0, 200) + "...",
+  );
+
+  return summarizeChunks(chunks, { model, finalPrompt: summaryPrompt });
+}
+
+// =========================================================
+// Stages
+// =========================================================
+
+/**
+ * Stage 1: Read the text of the upload or load the link
+ *
+ * Stops the job early if the same text is already in the user's library.
+ */
+async function extractStage(job: IngestionJob): Promise<Partial<IngestionJob>> {
+  const { input } = job;
+  let docs: Document[];
+
+  if (input.kind === "file") {
+    console.log(`📚 Loading and parsing ${input.format} content...`);
+    const { data: blob, error } = await supabaseClient.storage
+      .from(UPLOADS_BUCKET)
+      .download(input.storagePath);
+
+    if (error) {
+      throw new Error(`Failed to read the uploaded file: ${error.message}`);
+    }
+
+    // The loaders read from a file path
+    const tempFilePath = path.join(
+      os.tmpdir(),
+      `${input.format}-${job.id}${FILE_FORMAT_CONFIG[input.format].extension}`,
+    );
+    fs.writeFileSync(tempFilePath, Buffer.from(await blob.arrayBuffer()));
+    try {
+      docs = await loadFileDocuments(tempFilePath, input.format);
+    } finally {
+      fs.unlinkSync(tempFilePath);
+    }
+
+    console.log(`📄 Loaded ${docs.length} sections from ${input.format} file`);
+    if (docs.length === 0) {
+      throw new Error("Could not extract any content from the provided file.");
+    }
+  } else {
+    docs = await loadLinkDocuments(input.url, input);
+  }
+
+  const documents = docs.map((doc) => ({
+    pageContent: doc.pageContent,
+    metadata: doc.metadata,
+  }));
+
+  // A different file can still hold the same text (e.g. a re-exported PDF)
+  if (input.kind === "file" && !input.versionOf) {
+    const duplicate = await findDuplicateDocument(supabaseClient, job.user_id, {
+      contentSha256: hashText(jobContent(input, documents)),
+    });
+    if (duplicate) {
+      console.log(`♻️ Same text already stored as ${duplicate.id}`);
+      return { duplicate, stage: "done" };
+    }
+  }
+
+  return { documents, stage: "store" };
+}
+
+/**
+ * Stage 2: Store the document in the 'pdfs' table under the reserved ID
+ */
+async function storeStage(job: IngestionJob): Promise<Partial<IngestionJob>> {
+  const { input } = job;
+  const documents = job.documents ?? [];
+
+  // A retry after a failure further down this stage finds the row stored
+  const { data: existing } = await supabaseClient
+    .from("pdfs")
+    .select("id")
+    .eq("id", job.pdf_id)
+    .maybeSingle();
+
+  if (!existing) {
+    const content = jobContent(input, documents);
+
+    // A new version joins the item's other versions under the next number
+    const version = input.versionOf
+      ? await nextDocumentVersion(supabaseClient, input.versionOf)
+      : undefined;
+
+    console.log("💾 Storing document in 'pdfs' table...");
+    const { error } = await supabaseClient.from("pdfs").insert({
+      id: job.pdf_id,
+      // Hidden from the library and chat until its chunks are embedded
+      status: "pending",
+      content,
+      user_id: job.user_id,
+      chunking_strategy: input.chunkingStrategy,
+      content_sha256: hashText(content),
+      ...(input.kind === "file"
+        ? {
+            name: input.name,
+            format: input.format,
+            file_sha256: input.fileSha256,
+          }
+        : {
+            name: input.name || input.url,
+            format: "link",
+            tags: input.tags ?? [],
+            source_url: input.url,
+            crawl_options: {
+              crawlMode: input.crawlMode,
+              maxDepth: input.maxDepth,
+              maxPages: input.maxPages,
+            },
+          }),
+      ...version,
+    });
+
+    if (error) {
+      throw new Error(`Failed to store document: ${error.message}`);
+    }
+
+    console.log(`✅ Document stored with ID: ${job.pdf_id}`);
+  }
+
+  if (input.versionOf) {
+    await copyDocumentShares(supabaseClient, job.pdf_id);
+  }
+
+  // A retry of a failed embed stage keeps its chunks and their IDs, so the
+  // chunks already stored are not embedded again
+  return { stage: job.chunks ? "embed" : "chunk" };
+}
+
+/**
+ * Stage 3: Split the document into chunks carrying its metadata
+ */
+async function chunkStage(job: IngestionJob): Promise<Partial<IngestionJob>> {
+  const { input } = job;
+  const docs = (job.documents ?? []).map(
+    (doc) =>
+      new Document({
+        pageContent: doc.pageContent,
+        metadata: doc.metadata as Document["metadata"],
+      }),
+  );
+
+  // Each chunk records the model that embeds it (see embedding-provider.ts)
+  const embeddingConfig = getEmbeddingConfig();
+
+  console.log("✂️ Splitting document into chunks...");
+  let chunkedDocs: Document[];
+  if (input.kind === "link") {
+    chunkedDocs = await splitLinkDocuments(
+      docs,
+      job.pdf_id,
+      job.user_id,
+      input.url,
+      embeddingConfig,
+      input.chunkingStrategy,
+    );
+  } else {
+    // Add metadata to each chunk including the PDF ID and user ID
+    // This allows for filtering queries by document and owner
+    chunkedDocs = await splitIntoChunks(
+      docs.map(
+        (doc) =>
+          new Document({
+            pageContent: doc.pageContent,
+            metadata: {
+              ...doc.metadata,
+              pdf_id: job.pdf_id,
+              user_id: job.user_id,
+              format: input.format,
+              // Flattened so it survives metadata stringification
+              page_number: doc.metadata.loc?.pageNumber ?? "",
+              // Queries only compare vectors produced by the same model
+              embedding_model: embeddingConfig.modelId,
+            },
+          }),
+      ),
+      input.chunkingStrategy,
+    );
+  }
+
+  console.log(
+    `🧩 Split document into ${chunkedDocs.length} chunks (${input.chunkingStrategy} chunking)`,
+  );
+
+  return {
+    chunks: chunkedDocs.map(prepareChunk),
+    progress_done: 0,
+    progress_total: chunkedDocs.length,
+    failed_batches: [],
+    stage: "embed",
+  };
+}
+
+/**
+ * Stage 4: Embed the chunks and store them in the 'pdf_chunks' table
+ *
+ * Works in batches (see embedding-batches.ts), saving progress after each,
+ * so a worker that resumes the stage embeds only the failed batches and the
+ * chunks not tried yet. A batch that still fails after its retries is
+ * recorded and skipped, and the stage fails once the other batches are done.
+ */
+async function embedStage(job: IngestionJob): Promise<Partial<IngestionJob>> {
+  const chunks = job.chunks ?? [];
+  const embeddings = createEmbeddings(getEmbeddingConfig());
+  const batchSize = getEmbeddingBatchSize();
+  let failedBatches = job.failed_batches ?? [];
+  let done = job.progress_done;
+
+  // Every chunk before this one is either stored or in a failed batch
+  const next = failedBatches.reduce(
+    (end, batch) => end + batch.end - batch.start,
+    done,
+  );
+  const batches = failedBatches.map(({ start, end }) => ({ start, end }));
+  for (let start = next; start < chunks.length; start += batchSize) {
+    batches.push({ start, end: Math.min(start + batchSize, chunks.length) });
+  }
+
+  console.log(
+    `🧠 Embedding ${chunks.length - done} of ${chunks.length} chunks in ${batches.length} batches`,
+  );
+
+  let consecutiveFailures = 0;
+  for (const { start, end } of batches) {
+    if (consecutiveFailures >= MAX_CONSECUTIVE_FAILED_BATCHES) {
+      break;
+    }
+
+    const previous = failedBatches.find((batch) => batch.start === start);
+    failedBatches = failedBatches.filter((batch) => batch !== previous);
+
+    const batch = chunks.slice(start, end);
+    try {
+      // Chunks keep their IDs, so a batch stored before a crash is replaced
+      await storeEmbeddingBatch(
+        batch.map((chunk) => new Document(chunk)),
+        batch.map((chunk) => chunk.id ?? randomUUID()),
+        embeddings,
+      );
+      done += batch.length;
+      consecutiveFailures = 0;
+      console.log(`📊 Embedded ${done}/${chunks.length} chunks`);
+    } catch (error) {
+      consecutiveFailures++;
+      failedBatches.push({
+        start,
+        end,
+        attempts: (previous?.attempts ?? 0) + 1,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      console.error(`❌ Failed to embed chunks ${start + 1}-${end}:`, error);
+    }
+
+    await updateJob(job.id, {
+      progress_done: done,
+      failed_batches: failedBatches,
+    });
+  }
+
+  if (done < chunks.length) {
+    throw new Error(
+      `${chunks.length - done} of ${chunks.length} chunks could not be embedded (${failedBatches[0]?.error ?? "stopped after repeated failures"}). Retry to embed only these chunks.`,
+    );
+  }
+
+  // Every chunk is stored, so the document can be used
+  await setDocumentStatus(job.pdf_id, "ready");
+  console.log(`✅ Document ${job.pdf_id} is ready`);
+
+  return {
+    progress_done: done,
+    stage: job.input.kind === "file" ? "summarize" : "done",
+  };
+}
+
+/**
+ * Stage 5: Summarize an uploaded file (optional)
+ */
+async function summarizeStage(
+  job: IngestionJob,
+): Promise<Partial<IngestionJob>> {
+  try {
+    console.log("📝 Generating document summary...");
+    const result = await generateSummaryFromChunks(
+      (job.chunks ?? []).map((chunk) => new Document(chunk)),
+    );
+    console.log(`✅ Summary generated from ${result.sectionCount} sections`);
+    return {
+      summary: result.summary,
+      summary_sections: result.sectionCount,
+      stage: "done",
+    };
+  } catch (summaryError) {
+    console.warn("⚠️ Failed to generate summary:", summaryError);
+    // Continue without summary - this is not critical functionality
+    return { stage: "done" };
+  }
+}
+
+const STAGES: Record<
+  Exclude<IngestionStage, "done">,
+  (job: IngestionJob) => Promise<Partial<IngestionJob>>
+> = {
+  extract: extractStage,
+  store: storeStage,
+  chunk: chunkStage,
+  embed: embedStage,
+  summarize: summarizeStage,
+};
+
+/**
+ * Mark a job whose document is ready as completed
+ *
+ * The upload and the intermediate state are no longer needed.
+ */
+async function finishJob(job: IngestionJob): Promise<void> {
+  if (job.input.kind === "file") {
+    await supabaseClient.storage
+      .from(UPLOADS_BUCKET)
+      .remove([job.input.storagePath]);
+  }
+  await updateJob(job.id, {
+    status: "completed",
+    stage: "done",
+    documents: null,
+    chunks: null,
+  });
+}
+
+/**
+ * Run a job from its current stage to the end
+ *
+ * Does nothing if another worker is running the job or it is finished. A
+ * failing stage marks the job as failed and deletes the unfinished document;
+ * a retry stores it again and resumes at the stage that failed (the embed
+ * stage embeds only the chunks not stored yet). If the document was already
+ * ready, only the steps after embedding failed, so the job is finished
+ * instead.
+ */
+export async function runIngestionJob(jobId: string): Promise<void> {
+  let job: IngestionJob | null;
+  try {
+    job = await claimJob(jobId);
+  } catch (error) {
+    // Left queued for the next run of /api/ingestion/run
+    console.error(`❌ Could not claim ingestion job ${jobId}:`, error);
+    return;
+  }
+  if (!job) {
+    console.log(`⏭️ Ingestion job ${jobId} is not waiting to run`);
+    return;
+  }
+
+  console.log(`🚀 Running ingestion job ${jobId} from stage ${job.stage}`);
+
+  // Some stages (OCR, crawling a site, summarizing) run for minutes without
+  // saving anything
+  const stopHeartbeat = startHeartbeat("ingestion_jobs", jobId);
+
+  try {
+    while (job.stage !== "done") {
+      const changes = await STAGES[job.stage](job);
+      await updateJob(jobId, changes);
+      job = { ...job, ...changes };
+    }
+
+    await finishJob(job);
+    console.log(`✅ Ingestion job ${jobId} completed`);
+  } catch (error) {
+    console.error(`❌ Ingestion job ${jobId} failed:`, error);
+
+    // This runs inside after(), where nothing would catch a rejection; if
+    // the failure can't be saved, the lock goes stale and the job is run
+    // again by /api/ingestion/run
+    try {
+      // A failed job leaves nothing in the library; the job keeps the error
+      let deleted = true;
+      try {
+        deleted = await deleteUnfinishedDocument(job.pdf_id);
+      } catch (cleanupError) {
+        console.error(
+          `❌ Could not delete document ${job.pdf_id}:`,
+          cleanupError,
+        );
+        await setDocumentStatus(job.pdf_id, "failed");
+      }
+
+      // Every chunk is stored; embedding the document again would only
+      // duplicate them
+      if (!deleted) {
+        console.warn(`⚠️ Document ${job.pdf_id} is ready, finishing the job`);
+        await finishJob(job);
+        return;
+      }
+
+      // Without its document, a retry has to store it again, keeping the
+      // chunks, their progress and the failed batches
+      const restart: Partial<IngestionJob> = ["chunk", "embed"].includes(
+        job.stage,
+      )
+        ? { stage: "store" }
+        : {};
+      await updateJob(jobId, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        ...restart,
+      });
+    } catch (saveError) {
+      console.error(
+        `❌ Could not record the failure of ingestion job ${jobId}:`,
+        saveError,
+      );
+    }
+  } finally {
+    stopHeartbeat();
+  }
+}
+
+/**
+ * Run jobs one after another, so they don't flood the embedding provider
+ */
+export async function runIngestionJobs(jobIds: string[]): Promise<void> {
+  for (const jobId of jobIds) {
+    await runIngestionJob(jobId);
+  }
+}
+
+/**
+ * Undo everything a job stored and delete it
+ *
+ * Removes the job's document and chunks (unless the document is already
+ * ready), its upload and the job itself.
+ */
+export async function rollbackIngestionJob(job: IngestionJob): Promise<void> {
+  console.log(`↩️ Rolling back ingestion job ${job.id}`);
+
+  if (await deleteUnfinishedDocument(job.pdf_id)) {
+    // Chunks reference the document through their metadata, not a foreign key
+    const { error: chunksError } = await supabaseClient
+      .from("pdf_chunks")
+      .delete()
+      .eq("metadata->>pdf_id", job.pdf_id);
+
+    if (chunksError) {
+      throw new Error(`Failed to delete chunks: ${chunksError.message}`);
+    }
+  }
+
+  if (job.input.kind === "file") {
+    await supabaseClient.storage
+      .from(UPLOADS_BUCKET)
+      .remove([job.input.storagePath]);
+  }
+
+  const { error } = await supabaseClient
+    .from("ingestion_jobs")
+    .delete()
+    .eq("id", job.id);
+
+  if (error) {
+    throw new Error(`Failed to roll back ingestion: ${error.message}`);
+  }
+}
+
+/**
+ * Delete the jobs that created the given documents, with their uploads
+ *
+ * Called when documents are deleted.
+ */
+export async function deleteIngestionJobsFor(pdfIds: string[]): Promise<void> {
+  const { data: jobs, error } = await supabaseClient
+    .from("ingestion_jobs")
+    .select("id, input")
+    .in("pdf_id", pdfIds);
+
+  if (error) {
+    throw new Error(`Failed to load ingestion jobs: ${error.message}`);
+  }
+
+  const uploads = jobs
+    .map((job) => job.input as IngestionInput)
+    .flatMap((input) => (input.kind === "file" ? [input.storagePath] : []));
+  if (uploads.length > 0) {
+    await supabaseClient.storage.from(UPLOADS_BUCKET).remove(uploads);
+  }
+
+  const { error: deleteError } = await supabaseClient
+    .from("ingestion_jobs")
+    .delete()
+    .in("pdf_id", pdfIds);
+
+  if (deleteError) {
+    throw new Error(`Failed to delete ingestion jobs: ${deleteError.message}`);
+  }
+}
+
+/**
+ * Run queued jobs and jobs whose worker died
+ *
+ * Called on a schedule by /api/ingestion/run.
+ *
+ * @returns The number of jobs run
+ */
+export async function runPendingIngestionJobs(): Promise<{ run: number }> {
+  const staleBefore = new Date(Date.now() - JOB_LOCK_TIMEOUT_MS).toISOString();
+
+  const { data: jobs, error } = await supabaseClient
+    .from("ingestion_jobs")
+    .select("id")
+    .or(`status.eq.queued,and(status.eq.running,locked_at.lt.${staleBefore})`)
+    .order("created_at", { ascending: true })
+    .limit(JOBS_PER_RUN);
+
+  if (error) {
+    throw new Error(`Failed to load pending ingestion jobs: ${error.message}`);
+  }
+
+  console.log(`⏰ ${jobs.length} ingestion jobs waiting to run`);
+
+  // One job at a time, so a run doesn't flood the embedding provider
+  for (const job of jobs) {
+    await runIngestionJob(job.id);
+  }
+
+  return { run: jobs.length };
+}
@@ -0,0 +1,65 @@
+import { fetchIngestionJob } from "@/lib/rag-service";
+import type { IngestionProgress, IngestionStage } from "@/lib/ingestion-jobs";
+
+/**
+ * Ingestion Progress
+ *
+ * Follows a background ingestion job (see ingestion-jobs.ts) from the
+ * browser, and describes its progress for buttons and toasts. This module
+ * has no server-only imports, so client components can use it.
+ */
+
+// How often a running job's progress is fetched
+const INGESTION_POLL_INTERVAL_MS = 1000;
+
+// What each ingestion stage is shown as while it runs
+const INGESTION_STAGE_LABELS: Record<IngestionStage, string> = {
+  extract: "Extracting text",
+  store: "Saving document",
+  chunk: "Splitting into chunks",
+  embed: "Embedding",
+  summarize: "Summarizing",
+  done: "Finishing",
+};
+
+/**
+ * Describe a job's progress, e.g. "Embedding 240/600 chunks (54%)"
+ */
+export function describeIngestion(job: IngestionProgress | null): string {
+  if (!job) {
+    return "Processing...";
+  }
+  if (job.status === "queued") {
+    return "Waiting to start...";
+  }
+  if (job.stage === "embed") {
+    return `Embedding ${job.progress_done}/${job.progress_total} chunks (${job.percent}%)`;
+  }
+  return `${INGESTION_STAGE_LABELS[job.stage]}... (${job.percent}%)`;
+}
+
+/**
+ * Poll a job until it completes or fails
+ *
+ * @param onProgress - Called with every fetched state of the job
+ * @returns The job's final state
+ */
+export async function waitForIngestionJob(
+  jobId: string,
+  onProgress: (job: IngestionProgress) => void,
+): Promise<IngestionProgress> {
+  const formData = new FormData();
+  formData.append("jobId", jobId);
+
+  let job = await fetchIngestionJob(formData);
+  onProgress(job);
+  while (job.status === "queued" || job.status === "running") {
+    await new Promise((resolve) =>
+      setTimeout(resolve, INGESTION_POLL_INTERVAL_MS),
+    );
+    job = await fetchIngestionJob(formData);
+    onProgress(job);
+  }
+
+  return job;
+}
@@ -0,0 +1,49 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Job Heartbeats
+ *
+ * Background jobs (see ingestion-jobs.ts and reindex-jobs.ts) hold a lock
+ * by saving progress, and a job whose lock is older than its timeout is
+ * taken over by another worker. Some steps (OCR, crawling a site, semantic
+ * chunking, a long embedding batch) run for minutes without saving
+ * anything, so a running job also refreshes its lock on a timer.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+
+// Create a Supabase client with admin privileges for database operations
+const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+
+// How often a running job refreshes its lock, well within the lock timeouts
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Refresh a running job's lock on a timer until the returned function is
+ * called
+ *
+ * @param table - The job's table, e.g. 'ingestion_jobs'
+ */
+export function startHeartbeat(table: string, jobId: string): () => void {
+  const timer = setInterval(async () => {
+    try {
+      const { error } = await supabaseClient
+        .from(table)
+        .update({ locked_at: new Date().toISOString() })
+        .eq("id", jobId)
+        .eq("status", "running");
+
+      if (error) {
+        throw new Error(error.message);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not refresh job ${jobId} in ${table}:`, error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,166 @@
+import { Document } from "@langchain/core/documents";
+import { createEmbeddings, EmbeddingConfig } from "@/lib/embedding-provider";
+import { embedTexts } from "@/lib/embedding-batches";
+import { ChunkingStrategy } from "@/lib/chunking-config";
+import { splitIntoChunks } from "@/lib/chunking";
+import { loadReadableWebPage } from "@/lib/readable-content";
+import { crawlWebsite, CrawlMode } from "@/lib/web-crawler";
+
+/**
+ * Link Ingestion Pipeline
+ *
+ * Loads a web page (or crawls a site), splits it into chunks and embeds
+ * them. These steps are shared by the ingestion jobs queued by the
+ * processLink server action and feed polling, and by link refreshes. They
+ * run without a session and pass the owner explicitly.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+/**
+ * How a link is loaded; stored with the library item so a refresh loads it
+ * the same way
+ * - crawlMode: "single" loads just the URL; "links" and "sitemap" crawl the site
+ * - maxDepth/maxPages: Crawl limits (see web-crawler.ts)
+ */
+export interface LinkLoadOptions {
+  crawlMode?: CrawlMode;
+  maxDepth?: number;
+  maxPages?: number;
+}
+
+/**
+ * Load the readable text of a URL, or of every page of a crawled site
+ *
+ * @returns One document per page, each with its URL as source
+ */
+export async function loadLinkDocuments(
+  url: string,
+  options: LinkLoadOptions = {},
+): Promise<Document[]> {
+  let docs: Document[];
+  if ((options.crawlMode ?? "single") === "single") {
+    console.log("📚 Loading and parsing web page content...");
+
+    // Keep only the page's main content, without menus and footers
+    docs = [await loadReadableWebPage(url)];
+
+    console.log(`📄 Loaded content from URL: ${url}`);
+  } else {
+    // Crawled pages all go into one library item, one document per page
+    docs = await crawlWebsite(url, {
+      mode: options.crawlMode as Exclude<CrawlMode, "single">,
+      maxDepth: options.maxDepth,
+      maxPages: options.maxPages,
+    });
+  }
+
+  if (docs.every((doc) => !doc.pageContent.trim())) {
+    console.warn("⚠️ No content extracted from URL");
+    throw new Error("Could not extract any content from the provided URL.");
+  }
+
+  return docs;
+}
+
+/**
+ * Join loaded pages into the text stored in 'pdfs.content'
+ *
+ * Crawled pages are headed by their URL so the stored text shows where
+ * each came from.
+ */
+export function joinLinkContent(
+  docs: Document[],
+  crawlMode: CrawlMode = "single",
+): string {
+  return docs
+    .map((doc) =>
+      crawlMode === "single"
+        ? doc.pageContent
+        : `${doc.metadata.source}\n${doc.pageContent}`,
+    )
+    .join("\n\n");
+}
+
+/**
+ * Split loaded pages into chunks carrying the library item's metadata
+ *
+ * @param chunkingStrategy - The strategy recorded on the library item
+ */
+export async function splitLinkDocuments(
+  docs: Document[],
+  pdfId: string,
+  userId: string,
+  url: string,
+  embeddingConfig: EmbeddingConfig,
+  chunkingStrategy: ChunkingStrategy,
+): Promise<Document[]> {
+  // Add metadata to each chunk including the content ID and user ID
+  return splitIntoChunks(
+    docs.map((doc) => {
+      return new Document({
+        pageContent: doc.pageContent,
+        metadata: {
+          ...doc.metadata,
+          pdf_id: pdfId,
+          user_id: userId,
+          source_type: "link",
+          // Crawled pages keep their own URL so citations link to them
+          source: doc.metadata.source || url,
+          // Each chunk records the model that embeds it (see embedding-provider.ts)
+          embedding_model: embeddingConfig.modelId,
+        },
+      });
+    }),
+    chunkingStrategy,
+  );
+}
+
+/**
+ * A chunk with its embedding, ready to be stored in the 'pdf_chunks' table
+ */
+export interface EmbeddedLinkChunk {
+  content: string;
+  embedding: number[];
+  metadata: Record<string, string>;
+}
+
+/**
+ * Embed chunks without storing them
+ *
+ * Embeds in retried batches (see embedding-batches.ts). The caller stores
+ * the chunks, e.g. together with the content they came from.
+ */
+export async function embedLinkChunks(
+  chunkedDocs: Document[],
+  embeddingConfig: EmbeddingConfig,
+): Promise<EmbeddedLinkChunk[]> {
+  // Initialize the configured embedding model
+  const embeddings = createEmbeddings(embeddingConfig);
+
+  // Make sure all metadata values are properly stringified for storage
+  // This is crucial to ensure the pdf_id is properly stored as a string
+  const metadata = chunkedDocs.map((doc) =>
+    Object.entries(doc.metadata).reduce(
+      (acc, [key, value]) => {
+        // Ensure values are always stored as strings
+        acc[key] = String(value);
+        return acc;
+      },
+      {} as Record<string, string>,
+    ),
+  );
+
+  console.log(`📊 Creating embeddings for ${chunkedDocs.length} chunks...`);
+  const vectors = await embedTexts(
+    embeddings,
+    chunkedDocs.map((doc) => doc.pageContent),
+  );
+
+  return chunkedDocs.map((doc, i) => ({
+    content: doc.pageContent,
+    embedding: vectors[i],
+    metadata: metadata[i],
+  }));
+}
@@ -0,0 +1,261 @@
+import { Document } from "@langchain/core/documents";
+import { createClient } from "@supabase/supabase-js";
+import { getEmbeddingConfig } from "@/lib/embedding-provider";
+import { hashText } from "@/lib/deduplication";
+import { summarizeChanges } from "@/lib/change-summary";
+import { changedLines, diffLines } from "@/lib/text-diff";
+import {
+  embedLinkChunks,
+  joinLinkContent,
+  LinkLoadOptions,
+  loadLinkDocuments,
+  splitLinkDocuments,
+} from "@/lib/link-ingestion";
+
+/**
+ * Link Refreshes
+ *
+ * Re-fetches a saved link and compares it with the stored content. Only
+ * chunks whose text changed are re-embedded: chunks that are still on the
+ * page keep their stored embeddings, chunks that disappeared are deleted and
+ * new ones are embedded. If the stored chunks of a changed link were
+ * embedded by another model than the configured one, every chunk is
+ * re-embedded instead, so a link's chunks never mix models (an unchanged
+ * link keeps its chunks until it is re-indexed, see reindex-jobs.ts). The new chunks, the deletions and the new content
+ * are stored in one transaction (replace_link_chunks, see
+ * supabase/migrations/20261019000017_link_refresh_chunks.sql). The
+ * differences are summarized by the LLM so the user can see what changed
+ * (e.g. on a pricing page or a policy document).
+ *
+ * Links can be refreshed on demand or on a per-link schedule, run by
+ * /api/links/refresh.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+
+// Create a Supabase client with admin privileges for database operations
+const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * The outcome of a refresh
+ * - changed: Whether the page content differs from the stored content
+ * - addedChunks/removedChunks: Chunks embedded and deleted
+ * - summary: What changed, or null if nothing did
+ */
+export interface LinkRefreshResult {
+  changed: boolean;
+  addedChunks: number;
+  removedChunks: number;
+  summary: string | null;
+}
+
+/**
+ * Identify a chunk by its page and text, so unchanged chunks can be matched
+ * between versions
+ */
+function chunkKey(source: unknown, content: string): string {
+  return `${source}\u0000${content}`;
+}
+
+/**
+ * Re-fetch a saved link and update its content and chunks
+ *
+ * 1. Loads the link again, the same way it was first loaded
+ * 2. Compares the new text with the stored content
+ * 3. Embeds the chunks that are new, or every chunk if the embedding model
+ *    changed
+ * 4. Stores the new chunks, deletes those no longer on the page and stores
+ *    the new content with a summary of what changed, all in one transaction
+ *
+ * Callers must check that the user may refresh the document.
+ *
+ * @param pdfId - ID of the link in the 'pdfs' table
+ * @returns What changed
+ */
+export async function refreshLinkDocument(
+  pdfId: string,
+): Promise<LinkRefreshResult> {
+  const { data: pdf, error: pdfError } = await supabaseClient
+    .from("pdfs")
+    .select(
+      "id, user_id, format, status, content, content_sha256, source_url, crawl_options, chunking_strategy",
+    )
+    .eq("id", pdfId)
+    .maybeSingle();
+
+  if (pdfError) {
+    throw new Error(`Failed to load document: ${pdfError.message}`);
+  }
+  if (!pdf) {
+    throw new Error("Document not found");
+  }
+  if (pdf.format !== "link" || !pdf.source_url) {
+    throw new Error("Only saved links can be refreshed");
+  }
+  if (pdf.status !== "ready") {
+    throw new Error("Only fully processed links can be refreshed");
+  }
+
+  console.log(`🔄 Refreshing link ${pdf.source_url} (${pdfId})`);
+
+  // Step 1: Load the link again with its original crawl options
+  const options = (pdf.crawl_options ?? {}) as LinkLoadOptions;
+  const docs = await loadLinkDocuments(pdf.source_url, options);
+  const newText = joinLinkContent(docs, options.crawlMode);
+
+  // Step 2: Stop early when nothing changed
+  if (newText === pdf.content) {
+    console.log("✅ Link content is unchanged");
+    await supabaseClient
+      .from("pdfs")
+      .update({ last_refreshed_at: new Date().toISOString() })
+      .eq("id", pdfId);
+    return { changed: false, addedChunks: 0, removedChunks: 0, summary: null };
+  }
+
+  // Step 3: Match the new chunks against the stored ones
+  const embeddingConfig = getEmbeddingConfig();
+  const newChunks = await splitLinkDocuments(
+    docs,
+    pdfId,
+    pdf.user_id,
+    pdf.source_url,
+    embeddingConfig,
+    // Split the same way as when the link was saved
+    pdf.chunking_strategy,
+  );
+
+  const { data: storedChunks, error: chunksError } = await supabaseClient
+    .from("pdf_chunks")
+    .select("id, content, metadata, embedding_model")
+    .eq("metadata->>pdf_id", pdfId);
+
+  if (chunksError) {
+    throw new Error(`Failed to load chunks: ${chunksError.message}`);
+  }
+
+  // Vectors of another model can't be kept next to new ones, so a model
+  // change re-embeds every chunk
+  const sameModel = storedChunks.every(
+    (chunk) => chunk.embedding_model === embeddingConfig.modelId,
+  );
+  if (!sameModel) {
+    console.log(
+      `🔁 Stored chunks were embedded by another model, re-embedding all of them with ${embeddingConfig.modelId}`,
+    );
+  }
+
+  // Stored chunks not yet matched, by key (a page can repeat a chunk)
+  const unmatched = new Map<string, string[]>();
+  for (const chunk of storedChunks) {
+    const key = sameModel
+      ? chunkKey(chunk.metadata?.source, chunk.content)
+      : chunk.id;
+    unmatched.set(key, [...(unmatched.get(key) ?? []), chunk.id]);
+  }
+
+  const chunksToAdd: Document[] = [];
+  for (const chunk of newChunks) {
+    const ids = unmatched.get(
+      chunkKey(chunk.metadata.source, chunk.pageContent),
+    );
+    if (ids?.length) {
+      ids.pop();
+    } else {
+      chunksToAdd.push(chunk);
+    }
+  }
+  const chunkIdsToRemove = [...unmatched.values()].flat();
+
+  console.log(
+    `🧩 ${chunksToAdd.length} new chunks to embed, ${chunkIdsToRemove.length} to remove, ${newChunks.length - chunksToAdd.length} unchanged`,
+  );
+
+  const embeddedChunks = await embedLinkChunks(chunksToAdd, embeddingConfig);
+
+  // Step 4: Summarize the changes, then store them in one transaction, so a
+  // failed refresh never leaves the document with missing or mixed content
+  const summary = await summarizeChanges(
+    changedLines(diffLines(pdf.content, newText)),
+    "two versions of a web page",
+  );
+
+  const { error: replaceError } = await supabaseClient.rpc(
+    "replace_link_chunks",
+    {
+      p_pdf_id: pdfId,
+      p_previous_sha256: pdf.content_sha256,
+      p_chunks: embeddedChunks,
+      p_remove_ids: chunkIdsToRemove,
+      p_content: newText,
+      p_content_sha256: hashText(newText),
+      p_change_summary: summary,
+    },
+  );
+
+  if (replaceError) {
+    throw new Error(
+      `Failed to store refreshed content: ${replaceError.message}`,
+    );
+  }
+
+  console.log(`✅ Refreshed link ${pdf.source_url}`);
+  return {
+    changed: true,
+    addedChunks: chunksToAdd.length,
+    removedChunks: chunkIdsToRemove.length,
+    summary,
+  };
+}
+
+/**
+ * Refresh every link whose refresh interval has passed
+ *
+ * Called on a schedule by /api/links/refresh. A link that fails to refresh
+ * is logged and retried at the next run.
+ *
+ * @returns The number of links refreshed and how many of them changed
+ */
+export async function refreshDueLinks(): Promise<{
+  refreshed: number;
+  changed: number;
+}> {
+  const { data: links, error } = await supabaseClient
+    .from("pdfs")
+    .select("id, refresh_interval_minutes, last_refreshed_at, created_at")
+    .eq("format", "link")
+    .eq("status", "ready")
+    .not("refresh_interval_minutes", "is", null);
+
+  if (error) {
+    throw new Error(`Failed to load scheduled links: ${error.message}`);
+  }
+
+  const now = Date.now();
+  const due = links.filter(
+    (link) =>
+      now - new Date(link.last_refreshed_at ?? link.created_at).getTime() >=
+      link.refresh_interval_minutes * 60 * 1000,
+  );
+
+  console.log(`⏰ ${due.length} of ${links.length} scheduled links are due`);
+
+  // One link at a time, so a run doesn't flood the embedding provider
+  let refreshed = 0;
+  let changed = 0;
+  for (const link of due) {
+    try {
+      const result = await refreshLinkDocument(link.id);
+      refreshed++;
+      if (result.changed) changed++;
+    } catch (refreshError) {
+      console.error(`❌ Error refreshing link ${link.id}:`, refreshError);
+    }
+  }
+
+  return { refreshed, changed };
+}
@@ -0,0 +1,117 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import { ChatGroq } from "@langchain/groq";
+import { ChatOpenAI } from "@langchain/openai";
+
+/**
+ * LLM Provider Factory
+ *
+ * Every chat and summary model in the app is created here, so the provider
+ * and model can be chosen per deployment with environment variables:
+ * - LLM_PROVIDER: "groq" (default), "openai-compatible" or "fake"
+ * - LLM_MODEL: Model name (defaults depend on the provider)
+ * - LLM_BASE_URL: API base URL for "openai-compatible", e.g.
+ *   http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp
+ * - LLM_API_KEY: API key for "openai-compatible" (local servers usually ignore it)
+ * - GROQ_API_KEY: API key for "groq"
+ * - LLM_FAKE_RESPONSE: Fixed reply of the "fake" provider
+ *
+ * The "fake" provider needs no network access and always gives the same
+ * reply, which makes it suitable for tests and offline development.
+ */
+
+export type LlmProvider = "groq" | "openai-compatible" | "fake";
+
+// Default model for each provider when LLM_MODEL is not set
+const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  groq: "llama-3.1-8b-instant",
+  "openai-compatible": "llama3.1:8b",
+  fake: "fake",
+};
+
+const DEFAULT_FAKE_RESPONSE =
+  "This is a deterministic response from the fake model.";
+
+/**
+ * Resolved LLM configuration
+ * - provider: Which backend to talk to
+ * - model: The model name sent to that backend
+ * - baseUrl: API base URL (openai-compatible only)
+ * - apiKey: API key, if the provider needs one
+ */
+export interface LlmConfig {
+  provider: LlmProvider;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+/**
+ * Read the LLM configuration from environment variables
+ */
+export function getLlmConfig(): LlmConfig {
+  const provider = (process.env.LLM_PROVIDER || "groq") as LlmProvider;
+
+  if (!Object.hasOwn(DEFAULT_MODELS, provider)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${provider}". Use "groq", "openai-compatible" or "fake".`,
+    );
+  }
+
+  const model = process.env.LLM_MODEL || DEFAULT_MODELS[provider];
+
+  switch (provider) {
+    case "groq":
+      return { provider, model, apiKey: process.env.GROQ_API_KEY };
+    case "openai-compatible":
+      return {
+        provider,
+        model,
+        baseUrl: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+        // Local servers accept any key, but the client requires one
+        apiKey: process.env.LLM_API_KEY || "not-needed",
+      };
+    case "fake":
+      return { provider, model };
+  }
+}
+
+/**
+ * Check whether the configured provider has the credentials it needs
+ */
+export function isLlmConfigured(config: LlmConfig = getLlmConfig()): boolean {
+  return config.provider !== "groq" || Boolean(config.apiKey);
+}
+
+/**
+ * Create the chat model for the configured provider
+ *
+ * @param options.temperature - Sampling temperature (defaults to 0 for
+ *   deterministic, factual answers)
+ */
+export function createChatModel({
+  temperature = 0,
+}: { temperature?: number } = {}): BaseChatModel {
+  const config = getLlmConfig();
+  console.log(`🤖 Using ${config.provider} model: ${config.model}`);
+
+  switch (config.provider) {
+    case "groq":
+      return new ChatGroq({
+        apiKey: config.apiKey,
+        model: config.model,
+        temperature,
+      });
+    case "openai-compatible":
+      return new ChatOpenAI({
+        apiKey: config.apiKey,
+        model: config.model,
+        temperature,
+        configuration: { baseURL: config.baseUrl },
+      });
+    case "fake":
+      return new FakeListChatModel({
+        responses: [process.env.LLM_FAKE_RESPONSE || DEFAULT_FAKE_RESPONSE],
+      });
+  }
+}
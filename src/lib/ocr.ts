@@ -0,0 +1,123 @@
+import { createWorker } from "tesseract.js";
+import { pdf } from "pdf-to-img";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+/**
+ * OCR for Scanned PDFs
+ *
+ * Scanned documents have no text layer, so PDFLoader returns nothing for
+ * their pages. Those pages are rendered to images and read with tesseract.js,
+ * entirely on the server (no OCR API). Configured with:
+ * - OCR_LANGUAGES: Tesseract language codes joined with "+" (default "eng+tel")
+ *
+ * Language data ships with the app in @tesseract.js-data/* packages, so no
+ * downloads are needed at runtime. Languages without a bundled package are
+ * rejected.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+// Pages with fewer characters than this in their text layer are OCR'd
+export const MIN_TEXT_LAYER_CHARS = 20;
+
+// Render scale for OCR; 2x the PDF's 72 DPI is roughly 150 DPI
+const OCR_RENDER_SCALE = 2;
+
+// Tesseract languages with bundled data, by language code
+const BUNDLED_LANGUAGE_PACKAGES: Record<string, string> = {
+  eng: "@tesseract.js-data/eng",
+  tel: "@tesseract.js-data/tel",
+};
+
+/**
+ * Gather the bundled language data into one directory, since tesseract.js
+ * reads every language from a single path
+ *
+ * @returns The language codes and the directory holding their data
+ */
+function prepareLanguageData(): { languages: string[]; langPath: string } {
+  const languages = (process.env.OCR_LANGUAGES || "eng+tel")
+    .split("+")
+    .map((language) => language.trim())
+    .filter(Boolean);
+
+  const langPath = path.join(os.tmpdir(), "tesseract-data");
+  fs.mkdirSync(langPath, { recursive: true });
+
+  for (const language of languages) {
+    const packageName = BUNDLED_LANGUAGE_PACKAGES[language];
+    if (!packageName) {
+      throw new Error(
+        `No bundled OCR data for "${language}". Supported OCR_LANGUAGES: ${Object.keys(BUNDLED_LANGUAGE_PACKAGES).join(", ")}`,
+      );
+    }
+
+    const target = path.join(langPath, `${language}.traineddata.gz`);
+    if (!fs.existsSync(target)) {
+      const packageDir = path.dirname(
+        require.resolve(`${packageName}/package.json`),
+      );
+      fs.copyFileSync(
+        path.join(packageDir, "4.0.0", `${language}.traineddata.gz`),
+        target,
+      );
+    }
+  }
+
+  return { languages, langPath };
+}
+
+/**
+ * Count the pages of a PDF
+ */
+export async function countPdfPages(filePath: string): Promise<number> {
+  const document = await pdf(fs.readFileSync(filePath));
+  return document.length;
+}
+
+/**
+ * Render the given pages of a PDF and read their text with OCR
+ *
+ * @param filePath - Path of the PDF file
+ * @param pageNumbers - 1-based numbers of the pages to read
+ * @returns The recognized text of each page, by page number
+ */
+export async function recognizePdfPages(
+  filePath: string,
+  pageNumbers: number[],
+): Promise<Map<number, string>> {
+  const { languages, langPath } = prepareLanguageData();
+  console.log(
+    `🔎 Running OCR (${languages.join("+")}) on ${pageNumbers.length} pages without a text layer`,
+  );
+
+  const document = await pdf(fs.readFileSync(filePath), {
+    scale: OCR_RENDER_SCALE,
+  });
+  const worker = await createWorker(languages, undefined, {
+    langPath,
+    gzip: true,
+    cacheMethod: "none",
+  });
+
+  const texts = new Map<number, string>();
+  try {
+    for (const pageNumber of pageNumbers) {
+      const image = await document.getPage(pageNumber);
+      const {
+        data: { text, confidence },
+      } = await worker.recognize(image);
+      console.log(
+        `📝 OCR page ${pageNumber}: ${text.trim().length} characters, confidence ${confidence.toFixed(0)}%`,
+      );
+      texts.set(pageNumber, text.trim());
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  return texts;
+}
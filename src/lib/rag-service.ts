@@ -5,33 +5,72 @@
 // =========================================================
 
 // Document loading and processing
-import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
 import { Document } from "@langchain/core/documents";
-import { CheerioWebBaseLoader } from "@langchain/community/document_loaders/web/cheerio";
+import { LinkRefreshResult, refreshLinkDocument } from "@/lib/link-refresh";
+import { CrawlMode } from "@/lib/web-crawler";
+import {
+  detectFileFormat,
+  FILE_FORMAT_CONFIG,
+  SUPPORTED_FORMAT_LABELS,
+} from "@/lib/file-formats";
 
 // Vector storage and embedding
-import { SupabaseVectorStore } from "@langchain/community/vectorstores/supabase";
-// Using Jina embeddings instead of OpenAI
-import { JinaEmbeddings } from "@langchain/community/embeddings/jina";
+// Embedding model chosen by EMBEDDING_PROVIDER (Jina by default)
+import { createEmbeddings, getEmbeddingConfig } from "@/lib/embedding-provider";
 
 // LLM and prompting
-import { ChatGroq } from "@langchain/groq";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { createChatModel } from "@/lib/llm-provider";
 import { PromptTemplate } from "@langchain/core/prompts";
-import { StringOutputParser } from "@langchain/core/output_parsers";
-import { RunnableSequence } from "@langchain/core/runnables";
+import { buildSources, formatCitedContext, Source } from "@/lib/citations";
+import { StreamOptions } from "@/lib/streaming";
+import {
+  DEFAULT_RETRIEVAL_MODE,
+  isRetrievalMode,
+  RetrievalMode,
+} from "@/lib/retrieval-config";
 
 // Database connectivity
 // NOTE: You need to install this package: npm install @supabase/supabase-js
 import { createClient } from "@supabase/supabase-js";
 
-// File system operations
-import * as fs from "fs";
-import * as path from "path";
-import * as os from "os";
-
-// Application constants
-import { TEMPORARY_USER_ID } from "@/lib/constants";
+// Background ingestion
+import { after } from "next/server";
+import {
+  createIngestionJob,
+  deleteIngestionJobsFor,
+  getIngestionJob,
+  IngestionProgress,
+  rollbackIngestionJob,
+  runIngestionJob,
+  toIngestionProgress,
+  UPLOADS_BUCKET,
+} from "@/lib/ingestion-jobs";
+
+// Authentication and access control
+import { requireUserId } from "@/lib/auth";
+import {
+  assertDocumentAccess,
+  assertDocumentsReady,
+  DocumentStatus,
+  filterAccessibleDocuments,
+} from "@/lib/document-access";
+import {
+  DuplicateDocument,
+  findDuplicateDocument,
+  sha256,
+} from "@/lib/deduplication";
+import {
+  compareDocumentVersionTexts,
+  DocumentVersion,
+  listDocumentVersions,
+  VersionComparison,
+} from "@/lib/document-versions";
+import {
+  ChunkingStrategy,
+  DEFAULT_CHUNKING_STRATEGY,
+  isChunkingStrategy,
+} from "@/lib/chunking-config";
 
 // =========================================================
 // Environment and Client Configuration
@@ -49,42 +88,72 @@ const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
 // Create a Supabase client with admin privileges for database operations
 const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
 
-// Hard-coded user ID is now imported from constants.ts
-
 /**
- * Initialize Jina embeddings with API key
- * The JINA_API_KEY should be set in your .env file
+ * Number of previous chat turns loaded from 'chat_history' for follow-up questions
  */
-const createEmbeddings = () => {
-  return new JinaEmbeddings({
-    apiKey: process.env.JINA_API_KEY as string,
-    model: "jina-embeddings-v3", // Using Jina's latest embedding model with 1024 dimensions
-  });
-};
+const CHAT_HISTORY_TURNS = 6;
 
 // =========================================================
 // PDF Processing and Storage Functions
 // =========================================================
 
 /**
- * Process and store a PDF document in Supabase with vector embeddings
+ * The chunking strategy for a new upload or link
+ *
+ * The one chosen in the form, else the strategy of the document it is a new
+ * version of, else the default.
+ */
+async function chooseChunkingStrategy(
+  formData: FormData,
+  versionOf: string | null,
+): Promise<ChunkingStrategy> {
+  const requested = formData.get("chunkingStrategy");
+  if (isChunkingStrategy(requested)) {
+    return requested;
+  }
+  if (!versionOf) {
+    return DEFAULT_CHUNKING_STRATEGY;
+  }
+
+  const { data, error } = await supabaseClient
+    .from("pdfs")
+    .select("chunking_strategy")
+    .eq("id", versionOf)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load document: ${error.message}`);
+  }
+  return data.chunking_strategy;
+}
+
+/**
+ * Queue an uploaded document for ingestion into Supabase with vector embeddings
+ *
+ * Besides PDFs, Word documents, PowerPoint presentations, Excel
+ * spreadsheets and text, Markdown and HTML files are accepted (see
+ * file-formats.ts). The loader is picked by file format, and slide numbers,
+ * sheet names and section heading paths are kept in the chunk metadata.
+ * Markdown and HTML are split at their headings before being chunked.
  *
  * This function performs the following operations:
- * 1. Extracts text from the uploaded PDF
- * 2. Stores the full document in the 'pdfs' table
- * 3. Splits the document into chunks
- * 4. Generates embeddings for each chunk using Jina
- * 5. Stores chunks and embeddings in the 'pdf_chunks' table
- * 6. Generates a summary of the document (optional)
+ * 1. Validates the upload and takes the owner from the session
+ * 2. Returns the existing document if this exact file was uploaded before
+ * 3. Keeps the file in the uploads bucket
+ * 4. Queues an ingestion job that extracts, stores, chunks, embeds and
+ *    summarizes the document in the background (see ingestion-jobs.ts)
  *
- * @param formData - Form data containing the PDF file
- * @returns Object with PDF ID and optional summary
+ * @param formData - Form data containing the uploaded file, and optionally
+ *   chunkingStrategy (see chunking-config.ts) and versionOf (the ID of a
+ *   library item the file is a new version of)
+ * @returns Object with the ID of the ingestion job to follow with
+ *   fetchIngestionJob, or the existing document if the upload is a duplicate
  */
 export async function processPdf(formData: FormData): Promise<{
-  pdfId: string;
-  summary: string | null;
+  jobId: string | null;
+  duplicate: DuplicateDocument | null;
 }> {
-  console.log("🚀 Starting PDF processing for RAG with Jina embeddings");
+  console.log("🚀 Starting PDF processing for RAG");
 
   // =========================================================
   // Step 1: Extract data from form and validate
@@ -92,8 +161,9 @@ export async function processPdf(formData: FormData): Promise<{
 
   // Get the file from the form data
   const file = formData.get("file") as File;
-  // Using the constant user ID instead of getting from form data
-  const userId = TEMPORARY_USER_ID;
+  const versionOf = formData.get("versionOf") as string | null;
+  // The owner always comes from the session, never from the form data
+  const userId = await requireUserId();
 
   // Validate required inputs
   if (!file) {
@@ -101,254 +171,97 @@ export async function processPdf(formData: FormData): Promise<{
     throw new Error("No file provided");
   }
 
+  const format = detectFileFormat(file.name, file.type);
+  if (!format) {
+    console.error(`❌ Unsupported file type: ${file.name} (${file.type})`);
+    throw new Error(
+      `Unsupported file type. Please upload one of: ${SUPPORTED_FORMAT_LABELS}`,
+    );
+  }
+
   console.log(
     `📄 Processing file: ${file.name}, Size: ${(file.size / 1024).toFixed(
       2,
-    )} KB, Type: ${file.type}`,
+    )} KB, Type: ${file.type}, Format: ${format}`,
   );
 
+  // New versions can only be added to the user's own library items
+  if (versionOf) {
+    await assertDocumentAccess(supabaseClient, [versionOf], userId, "owner");
+  }
+
   // =========================================================
-  // Step 2: Create temporary file for PDF processing
+  // Step 2: Check whether this exact file was uploaded before
   // =========================================================
 
-  // Create a temporary file for the PDF (LangChain's PDFLoader requires a file path)
-  const tempDir = os.tmpdir();
-  const tempFilePath = path.join(tempDir, `pdf-${Date.now()}.pdf`);
-
-  try {
-    // =========================================================
-    // Step 3: Convert File object to buffer and save to disk
-    // =========================================================
-
-    console.log("📥 Converting file to buffer...");
-    const fileBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(fileBuffer);
-    console.log(`✅ Converted to buffer of size: ${buffer.length} bytes`);
-
-    console.log(`💾 Writing PDF data to temporary file: ${tempFilePath}`);
-    fs.writeFileSync(tempFilePath, buffer);
-    console.log("✅ Temporary file created");
-
-    // =========================================================
-    // Step 4: Extract text from the PDF
-    // =========================================================
-
-    console.log("📚 Loading and parsing PDF content...");
-    // Use LangChain's PDFLoader to extract text from the PDF
-    const loader = new PDFLoader(tempFilePath);
-    const docs = await loader.load();
-    console.log(`📄 Loaded ${docs.length} pages from PDF`);
-
-    if (docs.length === 0) {
-      console.warn("⚠️ No content extracted from PDF");
-      throw new Error(
-        "Could not extract any content from the provided PDF file.",
-      );
-    }
-
-    // Join all document content for storing in the pdfs table
-    const fullText = docs.map((doc) => doc.pageContent).join("\n\n");
-
-    // =========================================================
-    // Step 5: Store the document in the database
-    // =========================================================
-
-    console.log("💾 Storing document in 'pdfs' table...");
-    const { data: pdfData, error: pdfError } = await supabaseClient
-      .from("pdfs")
-      .insert({
-        name: file.name,
-        content: fullText,
-        user_id: userId,
-      })
-      .select()
-      .single();
-
-    if (pdfError) {
-      console.error("❌ Error storing document:", pdfError);
-      throw new Error(`Failed to store document: ${pdfError.message}`);
-    }
-
-    console.log(`✅ Document stored with ID: ${pdfData.id}`);
+  console.log("📥 Converting file to buffer...");
+  const buffer = Buffer.from(await file.arrayBuffer());
 
-    // =========================================================
-    // Step 6: Split the document into smaller chunks for vectorization
-    // =========================================================
-
-    console.log("✂️ Splitting document into chunks...");
-    // Use RecursiveCharacterTextSplitter to break text into manageable chunks
-    // - chunkSize: The target size of each chunk in characters
-    // - chunkOverlap: The number of characters to overlap between chunks for context continuity
-    const textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 1000, // 1000 characters per chunk
-      chunkOverlap: 200, // 200 character overlap between chunks
+  // (unless it is meant as a new version of an item)
+  const fileSha256 = sha256(buffer);
+  if (!versionOf) {
+    const duplicate = await findDuplicateDocument(supabaseClient, userId, {
+      fileSha256,
     });
-
-    // Add metadata to each chunk including the PDF ID and user ID
-    // This allows for filtering queries by document and owner
-    const chunkedDocs = await textSplitter.splitDocuments(
-      docs.map((doc) => {
-        return new Document({
-          pageContent: doc.pageContent,
-          metadata: {
-            ...doc.metadata,
-            pdf_id: pdfData.id,
-            user_id: userId,
-          },
-        });
-      }),
-    );
-
-    console.log(`🧩 Split document into ${chunkedDocs.length} chunks`);
-
-    // Let's verify the metadata is correctly set
-    if (chunkedDocs.length > 0) {
-      console.log(
-        "🔍 Checking first chunk metadata:",
-        JSON.stringify(chunkedDocs[0].metadata),
-      );
-    }
-
-    // =========================================================
-    // Step 7: Generate embeddings and store in vector database
-    // =========================================================
-
-    console.log("🧠 Generating Jina embeddings and storing in vector store...");
-    // Initialize Jina embeddings
-    const embeddings = createEmbeddings();
-
-    // Store documents with embeddings in Supabase
-    // This creates an embedding for each chunk and stores both the text and embedding
-    console.log(
-      `🧠 Storing ${chunkedDocs.length} document chunks with embeddings in Supabase...`,
-    );
-
-    try {
-      // Create a proper stringified version of the metadata
-      // This is crucial to ensure the pdf_id is properly stored as a string
-      const preparedDocs = chunkedDocs.map((doc) => {
-        // Make sure all metadata values are properly stringified for storage
-        const preparedMetadata = Object.entries(doc.metadata).reduce(
-          (acc, [key, value]) => {
-            // Ensure values are always stored as strings
-            acc[key] = String(value);
-            return acc;
-          },
-          {} as Record<string, string>,
-        );
-
-        // Create a new Document with properly stringified metadata
-        return new Document({
-          pageContent: doc.pageContent,
-          metadata: preparedMetadata,
-        });
-      });
-
-      // Print debug info for the first document
-      if (preparedDocs.length > 0) {
-        console.log(
-          "📋 Prepared Document metadata:",
-          JSON.stringify(preparedDocs[0].metadata),
-        );
-        console.log(
-          "📤 PDF ID value in metadata:",
-          preparedDocs[0].metadata.pdf_id,
-        );
-        console.log("📤 PDF ID type:", typeof preparedDocs[0].metadata.pdf_id);
-      }
-
-      console.log("📊 Creating document embeddings with Jina API...");
-
-      // Store in the vector database - reusing the same table as PDF chunks
-      await SupabaseVectorStore.fromDocuments(preparedDocs, embeddings, {
-        client: supabaseClient,
-        tableName: "pdf_chunks",
-        queryName: "match_pdf_chunks",
-      });
-
-      // After storing, verify if chunks are properly stored with metadata
-      const { count, error } = await supabaseClient
-        .from("pdf_chunks")
-        .select("*", { count: "exact", head: true })
-        .filter("metadata->>pdf_id", "eq", pdfData.id);
-
-      console.log(
-        `📊 Verification: Found ${count || 0} chunks in database for content ID ${pdfData.id}`,
-      );
-      if (error) {
-        console.error("❌ Error verifying chunks:", error);
-      }
-
-      // Don't return vectorStore here - we'll return the proper object later
-    } catch (storeError) {
-      console.error("❌ Error storing chunks with embeddings:", storeError);
-      throw new Error(
-        `Failed to store document chunks: ${storeError instanceof Error ? storeError.message : "Unknown error"}`,
-      );
+    if (duplicate) {
+      console.log(`♻️ Same file already uploaded as ${duplicate.id}`);
+      return { jobId: null, duplicate };
     }
+  }
 
-    // =========================================================
-    // Step 8: Generate a summary of the document (optional)
-    // =========================================================
-
-    let summary = null;
-    try {
-      console.log("📝 Generating document summary...");
-      summary = await generateSummaryFromText(fullText);
-      console.log("✅ Summary generated");
-    } catch (summaryError) {
-      console.warn("⚠️ Failed to generate summary:", summaryError);
-      // Continue without summary - this is not critical functionality
-    }
+  // =========================================================
+  // Step 3: Keep the file until the job has extracted its text
+  // =========================================================
 
-    // =========================================================
-    // Step 9: Clean up temporary files
-    // =========================================================
+  const storagePath = `${userId}/${Date.now()}-${fileSha256}${FILE_FORMAT_CONFIG[format].extension}`;
+  const { error: uploadError } = await supabaseClient.storage
+    .from(UPLOADS_BUCKET)
+    .upload(storagePath, buffer, { contentType: file.type || undefined });
 
-    if (fs.existsSync(tempFilePath)) {
-      fs.unlinkSync(tempFilePath);
-      console.log("✅ Temporary file removed");
-    }
+  if (uploadError) {
+    console.error("❌ Error storing upload:", uploadError);
+    throw new Error(`Failed to store upload: ${uploadError.message}`);
+  }
 
-    return {
-      pdfId: pdfData.id,
-      summary,
-    };
-  } catch (error) {
-    console.error("❌ Error processing PDF:", error);
+  // =========================================================
+  // Step 4: Queue the ingestion and start it after responding
+  // =========================================================
 
-    // Clean up temporary file in case of error
-    try {
-      if (fs.existsSync(tempFilePath)) {
-        fs.unlinkSync(tempFilePath);
-      }
-    } catch (cleanupError) {
-      console.error("Error cleaning up temporary file:", cleanupError);
-    }
+  const job = await createIngestionJob(userId, {
+    kind: "file",
+    name: file.name,
+    format,
+    storagePath,
+    fileSha256,
+    chunkingStrategy: await chooseChunkingStrategy(formData, versionOf),
+    versionOf: versionOf ?? undefined,
+  });
+  after(() => runIngestionJob(job.id));
 
-    throw error;
-  }
+  return { jobId: job.id, duplicate: null };
 }
 
 /**
- * Process and store a web page in Supabase with vector embeddings
+ * Queue a web page for ingestion into Supabase with vector embeddings
  *
  * This function performs the following operations:
- * 1. Extracts text from the provided URL
- * 2. Stores the content in the 'pdfs' table (reusing the same table)
- * 3. Splits the document into chunks
- * 4. Generates embeddings for each chunk using Jina
- * 5. Stores chunks and embeddings in the 'pdf_chunks' table
- * 6. Returns a content ID for chat and a summary (optional)
+ * 1. Validates the form data and takes the owner from the session
+ * 2. Returns the existing document if the user already saved this URL,
+ *    unless the URL is meant as a new version of a library item
+ * 3. Queues an ingestion job that loads, stores, chunks and embeds the page
+ *    (or crawled site) in the background (see ingestion-jobs.ts)
  *
- * @param formData - Form data containing the URL
- * @returns Object with content ID and optional summary
+ * @param formData - Form data containing the URL, and optionally
+ *   chunkingStrategy (see chunking-config.ts) and versionOf (the ID of a
+ *   library item the page is a new version of)
+ * @returns Object with the ID of the ingestion job to follow with
+ *   fetchIngestionJob, or the existing document if the URL was saved before
  */
 export async function processLink(formData: FormData): Promise<{
-  contentId: string;
-  summary: string | null;
+  jobId: string | null;
+  duplicate: DuplicateDocument | null;
 }> {
-  console.log("🚀 Starting URL processing for RAG with Jina embeddings");
+  console.log("🚀 Starting URL processing for RAG");
 
   // =========================================================
   // Step 1: Extract data from form and validate
@@ -356,8 +269,14 @@ export async function processLink(formData: FormData): Promise<{
 
   // Get the URL from the form data
   const url = formData.get("url") as string;
-  // Using the constant user ID
-  const userId = (formData.get("userId") as string) || TEMPORARY_USER_ID;
+  // "single" loads just this page; "links" and "sitemap" crawl the site
+  const crawlMode = ((formData.get("crawlMode") as string) ||
+    "single") as CrawlMode;
+  const maxDepth = Number(formData.get("maxDepth")) || undefined;
+  const maxPages = Number(formData.get("maxPages")) || undefined;
+  const versionOf = formData.get("versionOf") as string | null;
+  // The owner always comes from the session, never from the form data
+  const userId = await requireUserId();
 
   // Validate required inputs
   if (!url) {
@@ -365,221 +284,137 @@ export async function processLink(formData: FormData): Promise<{
     throw new Error("No URL provided");
   }
 
-  console.log(`🔗 Processing URL: ${url}`);
-
-  try {
-    // =========================================================
-    // Step 2: Extract text from the URL
-    // =========================================================
-
-    console.log("📚 Loading and parsing web page content...");
-
-    // Use CheerioWebBaseLoader to extract text from the web page
-    const loader = new CheerioWebBaseLoader(url);
-    const docs = await loader.load();
-
-    console.log(`📄 Loaded content from URL: ${url}`);
-
-    if (docs.length === 0) {
-      console.warn("⚠️ No content extracted from URL");
-      throw new Error("Could not extract any content from the provided URL.");
-    }
-
-    // Join all document content for storing in the pdfs table
-    // Reusing the same table for both PDFs and links
-    const fullText = docs.map((doc) => doc.pageContent).join("\n\n");
-
-    // =========================================================
-    // Step 3: Store the document in the database
-    // =========================================================
-
-    console.log("💾 Storing web content in 'pdfs' table...");
-    const { data: pdfData, error: pdfError } = await supabaseClient
-      .from("pdfs")
-      .insert({
-        name: url,
-        content: fullText,
-        user_id: userId,
-      })
-      .select()
-      .single();
-
-    if (pdfError) {
-      console.error("❌ Error storing document:", pdfError);
-      throw new Error(`Failed to store document: ${pdfError.message}`);
-    }
-
-    console.log(`✅ Web content stored with ID: ${pdfData.id}`);
+  // New versions can only be added to the user's own library items
+  if (versionOf) {
+    await assertDocumentAccess(supabaseClient, [versionOf], userId, "owner");
+  }
 
-    // =========================================================
-    // Step 4: Split the document into smaller chunks for vectorization
-    // =========================================================
+  // =========================================================
+  // Step 2: Check whether this URL was saved before
+  // =========================================================
 
-    console.log("✂️ Splitting document into chunks...");
-    // Use RecursiveCharacterTextSplitter to break text into manageable chunks
-    const textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 1000, // 1000 characters per chunk
-      chunkOverlap: 200, // 200 character overlap between chunks
+  if (!versionOf) {
+    const duplicate = await findDuplicateDocument(supabaseClient, userId, {
+      sourceUrl: url,
     });
-
-    // Add metadata to each chunk including the content ID and user ID
-    const chunkedDocs = await textSplitter.splitDocuments(
-      docs.map((doc) => {
-        return new Document({
-          pageContent: doc.pageContent,
-          metadata: {
-            ...doc.metadata,
-            pdf_id: pdfData.id,
-            user_id: userId,
-            source_type: "link",
-            source: url,
-          },
-        });
-      }),
-    );
-
-    console.log(`🧩 Split content into ${chunkedDocs.length} chunks`);
-
-    // Let's verify the metadata is correctly set before processing
-    if (chunkedDocs.length > 0) {
-      console.log(
-        "🔍 Checking first chunk metadata before vector storage:",
-        JSON.stringify(chunkedDocs[0].metadata),
-      );
+    if (duplicate) {
+      console.log(`♻️ URL already saved as ${duplicate.id}`);
+      return { jobId: null, duplicate };
     }
+  }
 
-    // =========================================================
-    // Step 5: Generate embeddings and store in vector database
-    // =========================================================
+  // =========================================================
+  // Step 3: Queue the ingestion and start it after responding
+  // =========================================================
 
-    console.log("🧠 Generating Jina embeddings and storing in vector store...");
-    // Initialize Jina embeddings
-    const embeddings = createEmbeddings();
+  const job = await createIngestionJob(userId, {
+    kind: "link",
+    url,
+    crawlMode,
+    maxDepth,
+    maxPages,
+    chunkingStrategy: await chooseChunkingStrategy(formData, versionOf),
+    versionOf: versionOf ?? undefined,
+  });
+  after(() => runIngestionJob(job.id));
 
-    console.log(
-      `🧠 Storing ${chunkedDocs.length} content chunks with embeddings in Supabase...`,
-    );
+  return { jobId: job.id, duplicate: null };
+}
 
-    try {
-      // Create a proper stringified version of the metadata
-      // This is crucial to ensure the pdf_id is properly stored as a string
-      const preparedDocs = chunkedDocs.map((doc) => {
-        // Make sure all metadata values are properly stringified for storage
-        const preparedMetadata = Object.entries(doc.metadata).reduce(
-          (acc, [key, value]) => {
-            // Ensure values are always stored as strings
-            acc[key] = String(value);
-            return acc;
-          },
-          {} as Record<string, string>,
-        );
+/**
+ * Fetch the progress of one of the current user's ingestion jobs
+ *
+ * @param formData - Form data containing jobId
+ * @returns The job's stage, chunks embedded so far and overall percent
+ *   complete, and once it completes the new document's ID and summary
+ */
+export async function fetchIngestionJob(
+  formData: FormData,
+): Promise<IngestionProgress> {
+  const jobId = formData.get("jobId") as string;
+  const userId = await requireUserId();
+
+  const job = jobId ? await getIngestionJob(jobId) : null;
+  if (!job || job.user_id !== userId) {
+    throw new Error("Ingestion job not found");
+  }
 
-        // Create a new Document with properly stringified metadata
-        return new Document({
-          pageContent: doc.pageContent,
-          metadata: preparedMetadata,
-        });
-      });
-
-      // Print debug info for the first document
-      if (preparedDocs.length > 0) {
-        console.log(
-          "📋 Prepared Document metadata:",
-          JSON.stringify(preparedDocs[0].metadata),
-        );
-        console.log(
-          "📤 PDF ID value in metadata:",
-          preparedDocs[0].metadata.pdf_id,
-        );
-        console.log("📤 PDF ID type:", typeof preparedDocs[0].metadata.pdf_id);
-      }
+  return toIngestionProgress(job);
+}
 
-      console.log("📊 Creating document embeddings with Jina API...");
+/**
+ * Retry a failed ingestion job of the current user
+ *
+ * The job stores the document again from the text it already extracted, or
+ * extracts it again if that is what failed, then embeds only the chunks that
+ * aren't stored yet.
+ *
+ * @param formData - Form data containing jobId
+ */
+export async function retryIngestionJob(formData: FormData): Promise<void> {
+  const jobId = formData.get("jobId") as string;
+  const userId = await requireUserId();
 
-      // Store in the vector database - reusing the same table as PDF chunks
-      await SupabaseVectorStore.fromDocuments(preparedDocs, embeddings, {
-        client: supabaseClient,
-        tableName: "pdf_chunks",
-        queryName: "match_pdf_chunks",
-      });
+  const job = jobId ? await getIngestionJob(jobId) : null;
+  if (!job || job.user_id !== userId) {
+    throw new Error("Ingestion job not found");
+  }
+  if (job.status !== "failed") {
+    throw new Error("Only failed ingestion jobs can be retried");
+  }
 
-      // After storing, check what actually got stored in the database
-      const { data: storedChunks, error: fetchError } = await supabaseClient
-        .from("pdf_chunks")
-        .select("content, metadata")
-        .filter("metadata->>pdf_id", "eq", pdfData.id)
-        .limit(1);
+  console.log(`🔁 Retrying ingestion job ${jobId} from stage ${job.stage}`);
+  const { error } = await supabaseClient
+    .from("ingestion_jobs")
+    .update({ status: "queued", error: null })
+    .eq("id", jobId)
+    .eq("status", "failed");
 
-      if (fetchError) {
-        console.error("❌ Error fetching stored chunks:", fetchError);
-      } else {
-        console.log("📊 Stored chunks check:");
-        console.log(
-          `📚 Found ${storedChunks.length} chunks with pdf_id=${pdfData.id}`,
-        );
+  if (error) {
+    console.error("❌ Error retrying ingestion job:", error);
+    throw new Error(`Failed to retry ingestion: ${error.message}`);
+  }
 
-        if (storedChunks.length > 0) {
-          console.log(
-            "📑 First stored chunk metadata:",
-            JSON.stringify(storedChunks[0].metadata),
-          );
-        } else {
-          // Try a more general query to see what metadata looks like
-          const { data: anyChunks, error } = await supabaseClient
-            .from("pdf_chunks")
-            .select("content, metadata")
-            .eq("id", pdfData.id) // Try finding by ID directly
-            .limit(1);
-
-          if (error) {
-            console.error("❌ Error fetching any chunks:", error);
-          } else if (anyChunks.length > 0) {
-            console.log("📊 Found a chunk with matching ID directly");
-            console.log(
-              "📑 Chunk metadata:",
-              JSON.stringify(anyChunks[0].metadata),
-            );
-          } else {
-            // Get the most recent chunks to check for any issues
-            await checkLatestChunkMetadata();
-          }
-        }
-      }
+  after(() => runIngestionJob(jobId));
+}
 
-      // For now, return without a summary - can be generated separately
-      return {
-        contentId: pdfData.id,
-        summary: null,
-      };
-    } catch (error) {
-      console.error("❌ Error generating embeddings:", error);
-      throw new Error(
-        `Failed to generate embeddings: ${
-          error instanceof Error ? error.message : String(error)
-        }`,
-      );
-    }
-  } catch (error) {
-    console.error("❌ Error processing URL:", error);
-    throw new Error(
-      `Failed to process URL: ${
-        error instanceof Error ? error.message : String(error)
-      }`,
-    );
+/**
+ * Give up on a failed ingestion job of the current user
+ *
+ * Rolls the job back: the job, the chunks it embedded and the uploaded file
+ * are deleted (its document already was when it failed), as if it had never
+ * been queued.
+ *
+ * @param formData - Form data containing jobId
+ */
+export async function discardIngestionJob(formData: FormData): Promise<void> {
+  const jobId = formData.get("jobId") as string;
+  const userId = await requireUserId();
+
+  const job = jobId ? await getIngestionJob(jobId) : null;
+  if (!job || job.user_id !== userId) {
+    throw new Error("Ingestion job not found");
+  }
+  if (job.status !== "failed") {
+    throw new Error("Only failed ingestion jobs can be discarded");
   }
+
+  await rollbackIngestionJob(job);
 }
 
 /**
- * Check the most recently created chunk's metadata
+ * Check the metadata of the current user's most recently created chunks
  * This function helps diagnose issues with metadata storage
  */
 export async function checkLatestChunkMetadata() {
+  const userId = await requireUserId();
   console.log("🔍 Checking the most recently created chunk's metadata...");
 
   try {
     const { data: latestChunks, error } = await supabaseClient
       .from("pdf_chunks")
       .select("id, content, metadata, created_at")
+      .eq("metadata->>user_id", userId)
       .order("created_at", { ascending: false })
       .limit(5);
 
@@ -641,23 +476,42 @@ export async function checkLatestChunkMetadata() {
  *
  * This function implements the RAG pattern:
  * 1. Takes a user query and document ID
- * 2. Converts the query to an embedding using Jina
- * 3. Retrieves the most similar chunks from the document
- * 4. Sends the chunks + query to the Groq LLM to generate an answer
- * 5. Stores the interaction in the chat history
+ * 2. Loads the last few turns of the conversation from the chat history and
+ *    rewrites follow-up questions into standalone retrieval queries
+ * 3. Converts the query to an embedding with the configured embedding model
+ * 4. Retrieves the most relevant chunks from the document by vector
+ *    similarity, full-text keyword rank, or both (hybrid, the default)
+ * 5. Sends the chunks + conversation + query to the configured LLM to generate an answer
+ * 6. Stores the interaction in the chat history
  *
- * @param formData - Form data containing query and PDF ID
- * @returns Object containing the generated answer
+ * @param formData - Form data containing query and PDF ID, or several
+ *   "pdfIds" entries to chat with a set of documents at once
+ * @param options - Optional token callback and abort signal for streaming
+ * @returns Object containing the generated answer and the sources it cites
  */
-export async function queryDocument(formData: FormData): Promise<{
+export async function queryDocument(
+  formData: FormData,
+  options: StreamOptions = {},
+): Promise<{
   answer: string;
+  sources: Source[];
 }> {
-  console.log("🤖 Starting RAG query process with Jina embeddings");
+  console.log("🤖 Starting RAG query process");
 
   // Extract required inputs
   const query = formData.get("query") as string;
   const pdfId = formData.get("pdfId") as string;
-  const userId = (formData.get("userId") as string) || TEMPORARY_USER_ID;
+  // Several "pdfIds" entries select multi-document chat
+  const pdfIds = formData.getAll("pdfIds") as string[];
+  const documentIds = pdfIds.length > 0 ? pdfIds : pdfId ? [pdfId] : [];
+  const isMultiDocument = documentIds.length > 1;
+  // Search mode: from the request, then the RETRIEVAL_MODE env var, then the default
+  const requestedMode =
+    formData.get("retrievalMode") || process.env.RETRIEVAL_MODE;
+  const retrievalMode: RetrievalMode = isRetrievalMode(requestedMode)
+    ? requestedMode
+    : DEFAULT_RETRIEVAL_MODE;
+  const userId = await requireUserId();
   const contentType = (formData.get("contentType") as "pdf" | "link") || "pdf";
 
   // Validate required inputs
@@ -666,18 +520,26 @@ export async function queryDocument(formData: FormData): Promise<{
     throw new Error("No query provided");
   }
 
-  if (!pdfId) {
+  if (documentIds.length === 0) {
     console.error("❌ No content ID provided in form data");
     throw new Error("No content ID provided");
   }
 
   console.log(`📝 Query: "${query}"`);
-  console.log(`🔑 Content ID: ${pdfId}`);
+  console.log(`🔑 Content IDs: ${documentIds.join(", ")}`);
   console.log(`👤 User ID: ${userId}`);
   console.log(`📁 Content Type: ${contentType}`);
+  console.log(`🔎 Retrieval Mode: ${retrievalMode}`);
+
+  // Only documents the user owns or that were shared with them can be queried,
+  // and only once they are fully ingested
+  await assertDocumentAccess(supabaseClient, documentIds, userId);
+  await assertDocumentsReady(supabaseClient, documentIds);
 
   try {
-    console.log(`🔍 Processing query: "${query}" for document ID: ${pdfId}`);
+    console.log(
+      `🔍 Processing query: "${query}" for ${documentIds.length} document(s)`,
+    );
 
     // =========================================================
     // Step 2: Check if we have document chunks for this PDF
@@ -688,10 +550,10 @@ export async function queryDocument(formData: FormData): Promise<{
     const { count, error } = await supabaseClient
       .from("pdf_chunks")
       .select("*", { count: "exact", head: true })
-      .filter("metadata->>pdf_id", "eq", pdfId);
+      .in("metadata->>pdf_id", documentIds);
 
     console.log(
-      `📊 Found ${count || 0} chunks in database for PDF ID: ${pdfId}`,
+      `📊 Found ${count || 0} chunks in database for content IDs: ${documentIds.join(", ")}`,
     );
 
     if (error) {
@@ -708,6 +570,7 @@ export async function queryDocument(formData: FormData): Promise<{
       return {
         answer:
           "I couldn't find any information for this document in my database. The document may not have been properly processed.",
+        sources: [],
       };
     }
 
@@ -717,7 +580,14 @@ export async function queryDocument(formData: FormData): Promise<{
 
     console.log("🧠 Initializing vector store for similarity search...");
     // Create embeddings model
-    const embeddings = createEmbeddings();
+    const embeddingConfig = getEmbeddingConfig();
+    const embeddings = createEmbeddings(embeddingConfig);
+
+    // Vectors from different models can't be compared, so refuse to search
+    // documents that were embedded with another model
+    if (retrievalMode !== "keyword") {
+      await assertEmbeddingModel(documentIds, embeddingConfig.modelId);
+    }
 
     // No longer need vectorStore initialization since we're using direct queries
 
@@ -732,10 +602,22 @@ export async function queryDocument(formData: FormData): Promise<{
       Use the following pieces of context to answer the question at the end.
       If you don't know the answer, just say that you don't know, don't try to make up an answer.
       Provide a conversational response that directly answers the question.
+      Each piece of context starts with a number in square brackets. Cite the pieces
+      you used inline with those numbers, for example [1] or [2][3].
+      When a piece names the section it comes from, mention that section in your answer.
+      ${
+        isMultiDocument
+          ? "The context comes from several documents, and each piece names the document it is from. When you use a piece, say which document it came from, and compare the documents when the question asks you to."
+          : ""
+      }
+      Use the conversation so far to understand what the question refers to.
       
       Context:
       {context}
       
+      Conversation so far:
+      {chat_history}
+      
       Question: {question}
       
       Helpful Answer:
@@ -745,38 +627,63 @@ export async function queryDocument(formData: FormData): Promise<{
     // Step 5: Set up the LLM and create the RAG chain
     // =========================================================
 
-    // Initialize the Groq model
-    const model = new ChatGroq({
-      apiKey: process.env.GROQ_API_KEY as string,
-      model: "llama-3.1-8b-instant", // Using Llama 3 for inference
-      temperature: 0, // Use 0 for more deterministic responses
-    });
+    // Initialize the chat model for the configured provider
+    // (temperature 0 for more deterministic responses)
+    const model = createChatModel({ temperature: 0 });
 
-    console.log("🔎 Performing direct vector similarity search with query...");
+    // =========================================================
+    // Step 5b: Load the conversation and build a standalone query
+    // =========================================================
 
-    // Convert user query to embedding vector
-    const queryEmbedding = await embeddings.embedQuery(query);
-    console.log("✅ Generated query embedding vector");
+    const history = await loadChatHistory(
+      documentIds,
+      userId,
+      CHAT_HISTORY_TURNS,
+    );
+
+    // Document names let answers say which document a passage came from
+    const documentNames = isMultiDocument
+      ? await fetchDocumentNames(documentIds)
+      : {};
+    const retrievalQuery = await condenseQuestion(
+      query,
+      history,
+      model,
+      options.signal,
+    );
+
+    console.log(`🔎 Performing ${retrievalMode} search with query...`);
+
+    // Convert the standalone query to an embedding vector
+    // (keyword-only search doesn't need one)
+    const queryEmbedding =
+      retrievalMode === "keyword"
+        ? null
+        : await embeddings.embedQuery(retrievalQuery);
+    if (queryEmbedding) {
+      console.log("✅ Generated query embedding vector");
+    }
 
     // Define type for query results
     interface ChunkResult {
       id: string;
       content: string;
       metadata: Record<string, unknown>;
+      similarity: number | null;
     }
 
     // Run direct vector similarity search using pgvector's <=> operator
     // Note: We use a raw query since the bind() method might not be supported in all versions
-    console.log(`🔍 Using filter parameters: pdfId=${pdfId}`);
+    console.log(`🔍 Using filter parameters: pdfIds=${documentIds.join(",")}`);
 
     // First check direct database access
     const { count: directCount, error: directCountError } = await supabaseClient
       .from("pdf_chunks")
       .select("*", { count: "exact", head: true })
-      .filter("metadata->pdf_id", "eq", pdfId);
+      .in("metadata->pdf_id", documentIds);
 
     console.log(
-      `📊 Direct database count: ${directCount || 0} chunks for pdfId=${pdfId}`,
+      `📊 Direct database count: ${directCount || 0} chunks for pdfIds=${documentIds.join(",")}`,
     );
 
     if (directCountError) {
@@ -787,10 +694,10 @@ export async function queryDocument(formData: FormData): Promise<{
         await supabaseClient
           .from("pdf_chunks")
           .select("*", { count: "exact", head: true })
-          .filter("metadata->>pdf_id", "eq", pdfId);
+          .in("metadata->>pdf_id", documentIds);
 
       console.log(
-        `📊 Alternative query count: ${alternativeCount || 0} chunks for pdfId=${pdfId}`,
+        `📊 Alternative query count: ${alternativeCount || 0} chunks for pdfIds=${documentIds.join(",")}`,
       );
 
       if (alternativeError) {
@@ -798,21 +705,49 @@ export async function queryDocument(formData: FormData): Promise<{
       }
     }
 
-    // Now try with the RPC function
+    // Now try with the RPC function. Keyword and hybrid modes use the
+    // full-text search function; vector mode searches across all selected
+    // documents when chatting with more than one
+    const matchLimit = isMultiDocument
+      ? Math.max(8, documentIds.length * 3)
+      : 5;
     const { data: vectorResults, error: vectorError } =
-      await supabaseClient.rpc("match_pdf_chunks", {
-        query_vector: queryEmbedding,
-        pdf_id_filter: pdfId,
-        match_limit: 5,
-      });
+      retrievalMode !== "vector"
+        ? await supabaseClient.rpc("match_pdf_chunks_hybrid", {
+            query_vector: queryEmbedding,
+            query_text: retrievalQuery,
+            pdf_id_filters: documentIds,
+            match_limit: matchLimit,
+            search_mode: retrievalMode,
+            embedding_model_filter: queryEmbedding
+              ? embeddingConfig.modelId
+              : null,
+          })
+        : isMultiDocument
+          ? await supabaseClient.rpc("match_pdf_chunks_multi", {
+              query_vector: queryEmbedding,
+              pdf_id_filters: documentIds,
+              match_limit: matchLimit,
+              per_document_limit: 4,
+              embedding_model_filter: embeddingConfig.modelId,
+            })
+          : await supabaseClient.rpc("match_pdf_chunks", {
+              query_vector: queryEmbedding,
+              pdf_id_filter: documentIds[0],
+              match_limit: matchLimit,
+              embedding_model_filter: embeddingConfig.modelId,
+            });
 
     if (vectorError) {
-      console.error("❌ Error performing vector search:", vectorError);
-      throw new Error(`Vector search failed: ${vectorError.message}`);
+      console.error(
+        `❌ Error performing ${retrievalMode} search:`,
+        vectorError,
+      );
+      throw new Error(`Search failed: ${vectorError.message}`);
     }
 
     console.log(
-      `✅ Vector search completed, found ${vectorResults?.length || 0} results`,
+      `✅ ${retrievalMode} search completed, found ${vectorResults?.length || 0} results`,
     );
 
     // Convert results to Document objects
@@ -820,7 +755,11 @@ export async function queryDocument(formData: FormData): Promise<{
       (chunk: ChunkResult) =>
         new Document({
           pageContent: chunk.content,
-          metadata: chunk.metadata,
+          metadata: {
+            ...chunk.metadata,
+            chunk_id: chunk.id,
+            similarity: chunk.similarity,
+          },
         }),
     );
 
@@ -833,8 +772,8 @@ export async function queryDocument(formData: FormData): Promise<{
       const { data: fallbackChunks, error: fallbackError } =
         await supabaseClient
           .from("pdf_chunks")
-          .select("content, metadata")
-          .filter("metadata->pdf_id", "eq", pdfId)
+          .select("id, content, metadata")
+          .in("metadata->pdf_id", documentIds)
           .limit(3);
 
       if (fallbackError) {
@@ -846,8 +785,8 @@ export async function queryDocument(formData: FormData): Promise<{
           error: alternativeFallbackError,
         } = await supabaseClient
           .from("pdf_chunks")
-          .select("content, metadata")
-          .filter("metadata->>pdf_id", "eq", pdfId)
+          .select("id, content, metadata")
+          .in("metadata->>pdf_id", documentIds)
           .limit(3);
 
         if (alternativeFallbackError) {
@@ -868,7 +807,7 @@ export async function queryDocument(formData: FormData): Promise<{
             (chunk) =>
               new Document({
                 pageContent: chunk.content,
-                metadata: chunk.metadata,
+                metadata: { ...chunk.metadata, chunk_id: chunk.id },
               }),
           );
 
@@ -876,10 +815,13 @@ export async function queryDocument(formData: FormData): Promise<{
           return await processDocsAndGenerateAnswer(
             fallbackDocs,
             query,
-            pdfId,
+            documentIds,
             userId,
             prompt,
             model,
+            history,
+            documentNames,
+            options,
           );
         }
       } else if (fallbackChunks && fallbackChunks.length > 0) {
@@ -890,7 +832,7 @@ export async function queryDocument(formData: FormData): Promise<{
           (chunk) =>
             new Document({
               pageContent: chunk.content,
-              metadata: chunk.metadata,
+              metadata: { ...chunk.metadata, chunk_id: chunk.id },
             }),
         );
 
@@ -898,10 +840,13 @@ export async function queryDocument(formData: FormData): Promise<{
         return await processDocsAndGenerateAnswer(
           fallbackDocs,
           query,
-          pdfId,
+          documentIds,
           userId,
           prompt,
           model,
+          history,
+          documentNames,
+          options,
         );
       }
     }
@@ -918,16 +863,19 @@ export async function queryDocument(formData: FormData): Promise<{
     // Step 6: Execute the RAG chain to generate an answer
     // =========================================================
 
-    console.log("🤖 Executing RAG chain with Groq LLM...");
+    console.log("🤖 Executing RAG chain with the LLM...");
 
     // Process the docs and generate an answer
     return await processDocsAndGenerateAnswer(
       retrievedDocs,
       query,
-      pdfId,
+      documentIds,
       userId,
       prompt,
       model,
+      history,
+      documentNames,
+      options,
     );
   } catch (error) {
     console.error("❌ Error querying document:", error);
@@ -936,94 +884,67 @@ export async function queryDocument(formData: FormData): Promise<{
 }
 
 // =========================================================
-// Helper Functions
-// =========================================================
-
-/**
- * Generate a summary from document text using Groq LLM
- *
- * This function:
- * 1. Takes the full text of a document
- * 2. Creates a prompt asking for a comprehensive summary
- * 3. Sends the prompt to Groq LLM
- * 4. Returns the generated summary
- *
- * @param text - The full text content to summarize
- * @returns A string containing the generated summary
- */
-async function generateSummaryFromText(text: string): Promise<string> {
-  // Initialize the Groq model for summary generation
-  const model = new ChatGroq({
-    apiKey: process.env.GROQ_API_KEY as string,
-    model: "llama-3.1-8b-instant", // Using Llama 3 for summaries
-    temperature: 0, // Lower temperature for more factual summaries
-  });
-
-  // Create a prompt template for document summarization
-  const summaryPrompt = PromptTemplate.fromTemplate(`
-    You are a professional document summarizer.
-    
-    Below is the content from a document. Please create a comprehensive summary 
-    that captures the key points, main arguments, and conclusions. The summary should be 
-    well-structured, clear, and concise while preserving the important details.
-    
-    Document content:
-    {text}
-    
-    Summary:
-  `);
-
-  // Create and execute a chain for summary generation
-  const chain = RunnableSequence.from([
-    {
-      invoke: async (input: { text: string }) => {
-        console.log(
-          "📄 Document text sample being passed to LLM:",
-          input.text.substring(0, 200) + "...",
-        );
-        return summaryPrompt.format(input);
-      },
-    },
-    model,
-    new StringOutputParser(),
-  ]);
-
-  // Invoke the chain with the document text
-  // Limit to 32,000 characters to prevent token overflow
-  const summary = await chain.invoke({
-    text: text.substring(0, 32000),
-  });
-
-  return summary;
-}
-
-// =========================================================
-// PDF Retrieval Function
+// PDF Retrieval and Management Functions
 // =========================================================
 
 /**
  * Fetch previously uploaded PDFs for the current user
  *
- * This function retrieves all PDFs that have been uploaded by the current user
- * so they can be loaded for chat without re-embedding.
+ * This function retrieves all PDFs that have been uploaded by the current user,
+ * plus those shared with them, so they can be loaded for chat without
+ * re-embedding. Each library item is listed once, as its latest ready
+ * version; items with no ready version yet are listed with their status.
  *
- * @returns Array of PDF objects with id, name, and creation date
+ * @returns Array of PDF objects with id, name, creation date, ingestion
+ *   status, whether the PDF was shared with the user rather than uploaded by
+ *   them, its version number and how many ready versions the item has, and
+ *   the refresh schedule and last change summary of saved links
  */
 export async function fetchUserPdfs(): Promise<
   Array<{
     id: string;
     name: string;
     created_at: string;
+    status: DocumentStatus;
+    shared: boolean;
+    tags: string[];
+    format: string;
+    refresh_interval_minutes: number | null;
+    last_refreshed_at: string | null;
+    last_change_summary: string | null;
+    version_number: number;
+    version_count: number;
   }>
 > {
   console.log("📚 Fetching user PDFs");
 
+  const userId = await requireUserId();
+
   try {
-    // Query the database for PDFs belonging to the current user
+    // Documents other users shared with the current user
+    const { data: shares, error: sharesError } = await supabaseClient
+      .from("pdf_shares")
+      .select("pdf_id")
+      .eq("user_id", userId);
+
+    if (sharesError) {
+      console.error("❌ Error fetching shared PDFs:", sharesError);
+      throw new Error(`Failed to fetch PDFs: ${sharesError.message}`);
+    }
+
+    const sharedIds = shares.map((share) => share.pdf_id as string);
+
+    // Query the database for PDFs belonging to or shared with the current user
     const { data: pdfs, error } = await supabaseClient
       .from("pdfs")
-      .select("id, name, created_at")
-      .eq("user_id", TEMPORARY_USER_ID)
+      .select(
+        "id, name, created_at, status, user_id, tags, format, refresh_interval_minutes, last_refreshed_at, last_change_summary, document_id, version_number",
+      )
+      .or(
+        sharedIds.length > 0
+          ? `user_id.eq.${userId},id.in.(${sharedIds.join(",")})`
+          : `user_id.eq.${userId}`,
+      )
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -1031,31 +952,455 @@ export async function fetchUserPdfs(): Promise<
       throw new Error(`Failed to fetch PDFs: ${error.message}`);
     }
 
-    console.log(`✅ Found ${pdfs.length} PDFs for user`);
-    return pdfs;
+    // Keep the latest version of each library item, preferring ready
+    // versions over ones still being ingested, and count its ready versions
+    const rank = (pdf: (typeof pdfs)[number]) =>
+      (pdf.status === "ready" ? 1e9 : 0) + pdf.version_number;
+    const versionCounts = new Map<string, number>();
+    const latestVersions = new Map<string, (typeof pdfs)[number]>();
+    for (const pdf of pdfs) {
+      const latest = latestVersions.get(pdf.document_id);
+      if (pdf.status === "ready") {
+        versionCounts.set(
+          pdf.document_id,
+          (versionCounts.get(pdf.document_id) ?? 0) + 1,
+        );
+      }
+      if (!latest || rank(pdf) > rank(latest)) {
+        latestVersions.set(pdf.document_id, pdf);
+      }
+    }
+
+    console.log(
+      `✅ Found ${pdfs.length} PDFs in ${latestVersions.size} library items for user (${sharedIds.length} shared)`,
+    );
+    return pdfs
+      .filter((pdf) => latestVersions.get(pdf.document_id) === pdf)
+      .map(({ user_id, document_id, ...pdf }) => ({
+        ...pdf,
+        shared: user_id !== userId,
+        version_count: versionCounts.get(document_id) ?? 1,
+      }));
   } catch (error) {
     console.error("❌ Error in fetchUserPdfs:", error);
     throw error;
   }
 }
 
+/**
+ * Delete a document owned by the current user
+ *
+ * Removes every version of the library item: their chunks, every chat that
+ * included one of them and the versions themselves. Documents shared with
+ * the user can't be deleted by them.
+ *
+ * @param formData - Form data containing pdfId (any version of the item)
+ */
+export async function deleteDocument(formData: FormData): Promise<void> {
+  const pdfId = formData.get("pdfId") as string;
+  const userId = await requireUserId();
+
+  if (!pdfId) {
+    throw new Error("No content ID provided");
+  }
+
+  console.log(`🗑️ Deleting document ${pdfId} for user ${userId}`);
+  await assertDocumentAccess(supabaseClient, [pdfId], userId, "owner");
+
+  const versionIds = (await listDocumentVersions(supabaseClient, pdfId)).map(
+    (version) => version.id,
+  );
+
+  // Chunks reference the document through their metadata, not a foreign key
+  const { error: chunksError } = await supabaseClient
+    .from("pdf_chunks")
+    .delete()
+    .in("metadata->>pdf_id", versionIds);
+
+  if (chunksError) {
+    console.error("❌ Error deleting chunks:", chunksError);
+    throw new Error(`Failed to delete document: ${chunksError.message}`);
+  }
+
+  // Single-document chats cascade with the document; multi-document chats
+  // only list it in pdf_ids
+  const { error: historyError } = await supabaseClient
+    .from("chat_history")
+    .delete()
+    .overlaps("pdf_ids", versionIds);
+
+  if (historyError) {
+    console.error("❌ Error deleting chat history:", historyError);
+    throw new Error(`Failed to delete document: ${historyError.message}`);
+  }
+
+  const { error } = await supabaseClient
+    .from("pdfs")
+    .delete()
+    .in("id", versionIds)
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("❌ Error deleting document:", error);
+    throw new Error(`Failed to delete document: ${error.message}`);
+  }
+
+  // Along with the jobs that ingested them, so none resumes
+  await deleteIngestionJobsFor(versionIds);
+
+  console.log(`✅ Document deleted (${versionIds.length} versions)`);
+}
+
+/**
+ * Share a document owned by the current user with another user
+ *
+ * The other user is looked up by the email they signed up with, and can
+ * then read, summarize and chat with every version of the document, but not
+ * delete or re-share it.
+ *
+ * @param formData - Form data containing pdfId (any version) and email
+ */
+export async function shareDocument(formData: FormData): Promise<void> {
+  const pdfId = formData.get("pdfId") as string;
+  const email = (formData.get("email") as string)?.trim();
+  const userId = await requireUserId();
+
+  if (!pdfId || !email) {
+    throw new Error("A content ID and an email address are required");
+  }
+
+  console.log(`🤝 Sharing document ${pdfId} with ${email}`);
+  await assertDocumentAccess(supabaseClient, [pdfId], userId, "owner");
+
+  const { data: recipientId, error: lookupError } = await supabaseClient.rpc(
+    "find_user_id_by_email",
+    { user_email: email },
+  );
+
+  if (lookupError) {
+    console.error("❌ Error looking up user:", lookupError);
+    throw new Error(`Failed to share document: ${lookupError.message}`);
+  }
+
+  if (!recipientId) {
+    throw new Error(`No user found with the email ${email}`);
+  }
+
+  if (recipientId === userId) {
+    throw new Error("You already own this document");
+  }
+
+  const versions = await listDocumentVersions(supabaseClient, pdfId);
+  const { error } = await supabaseClient
+    .from("pdf_shares")
+    .upsert(
+      versions.map((version) => ({ pdf_id: version.id, user_id: recipientId })),
+    );
+
+  if (error) {
+    console.error("❌ Error sharing document:", error);
+    throw new Error(`Failed to share document: ${error.message}`);
+  }
+
+  console.log("✅ Document shared");
+}
+
+/**
+ * List the ready versions of a library item the current user can read
+ *
+ * Any of them can be opened for chat or summarized by its ID.
+ *
+ * @param formData - Form data containing pdfId (any version of the item)
+ * @returns The versions, oldest first
+ */
+export async function fetchDocumentVersions(
+  formData: FormData,
+): Promise<DocumentVersion[]> {
+  const pdfId = formData.get("pdfId") as string;
+  const userId = await requireUserId();
+
+  if (!pdfId) {
+    throw new Error("No content ID provided");
+  }
+
+  await assertDocumentAccess(supabaseClient, [pdfId], userId);
+
+  const versions = await listDocumentVersions(supabaseClient, pdfId);
+  const readable = await filterAccessibleDocuments(
+    supabaseClient,
+    versions.map((version) => version.id),
+    userId,
+  );
+
+  return versions.filter(
+    (version) => version.status === "ready" && readable.includes(version.id),
+  );
+}
+
+/**
+ * Compare two versions of a library item the current user can read
+ *
+ * @param formData - Form data containing fromId and toId, in either order
+ * @returns A line diff from the older to the newer version and a summary
+ *   of what changed
+ */
+export async function compareDocumentVersions(
+  formData: FormData,
+): Promise<VersionComparison> {
+  const fromId = formData.get("fromId") as string;
+  const toId = formData.get("toId") as string;
+  const userId = await requireUserId();
+
+  if (!fromId || !toId || fromId === toId) {
+    throw new Error("Two different versions are required");
+  }
+
+  await assertDocumentAccess(supabaseClient, [fromId, toId], userId);
+  await assertDocumentsReady(supabaseClient, [fromId, toId]);
+  return compareDocumentVersionTexts(supabaseClient, fromId, toId);
+}
+
+/**
+ * Re-fetch a saved link owned by the current user and update it
+ *
+ * Only changed chunks are re-embedded (see link-refresh.ts).
+ *
+ * @param formData - Form data containing pdfId
+ * @returns Whether the page changed, and a summary of what changed
+ */
+export async function refreshLink(
+  formData: FormData,
+): Promise<LinkRefreshResult> {
+  const pdfId = formData.get("pdfId") as string;
+  const userId = await requireUserId();
+
+  if (!pdfId) {
+    throw new Error("No content ID provided");
+  }
+
+  await assertDocumentAccess(supabaseClient, [pdfId], userId, "owner");
+  return refreshLinkDocument(pdfId);
+}
+
+/**
+ * Set how often a saved link owned by the current user is refreshed
+ *
+ * @param formData - Form data containing pdfId and intervalMinutes (empty or
+ *   0 to refresh only on demand)
+ */
+export async function setLinkRefreshSchedule(
+  formData: FormData,
+): Promise<void> {
+  const pdfId = formData.get("pdfId") as string;
+  const intervalMinutes = Number(formData.get("intervalMinutes")) || null;
+  const userId = await requireUserId();
+
+  if (!pdfId) {
+    throw new Error("No content ID provided");
+  }
+
+  await assertDocumentAccess(supabaseClient, [pdfId], userId, "owner");
+
+  const { error } = await supabaseClient
+    .from("pdfs")
+    .update({ refresh_interval_minutes: intervalMinutes })
+    .eq("id", pdfId)
+    .eq("format", "link");
+
+  if (error) {
+    console.error("❌ Error saving refresh schedule:", error);
+    throw new Error(`Failed to save refresh schedule: ${error.message}`);
+  }
+
+  console.log(
+    `⏰ Link ${pdfId} refreshes ${intervalMinutes ? `every ${intervalMinutes} minutes` : "on demand only"}`,
+  );
+}
+
+/**
+ * A single question/answer exchange loaded from the 'chat_history' table
+ */
+interface ChatTurn {
+  user_message: string;
+  assistant_message: string;
+}
+
+/**
+ * Load the most recent chat turns for a document (or set of documents) and
+ * user, oldest first
+ *
+ * Conversations over a single document are keyed by pdf_id. Conversations
+ * over several documents are keyed by the exact set of IDs in pdf_ids.
+ *
+ * Failures are logged and treated as an empty history so that a broken
+ * history lookup never blocks answering the question itself.
+ */
+async function loadChatHistory(
+  documentIds: string[],
+  userId: string,
+  limit: number,
+): Promise<ChatTurn[]> {
+  let historyQuery = supabaseClient
+    .from("chat_history")
+    .select("user_message, assistant_message")
+    .eq("user_id", userId);
+
+  historyQuery =
+    documentIds.length === 1
+      ? historyQuery.eq("pdf_id", documentIds[0])
+      : historyQuery
+          .contains("pdf_ids", documentIds)
+          .containedBy("pdf_ids", documentIds);
+
+  const { data, error } = await historyQuery
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("❌ Error loading chat history:", error);
+    return [];
+  }
+
+  console.log(`💬 Loaded ${data.length} previous chat turns`);
+  return (data as ChatTurn[]).reverse();
+}
+
+/**
+ * Look up the names of documents by ID
+ *
+ * @returns A map from document ID to name (missing entries are simply absent)
+ */
+async function fetchDocumentNames(
+  documentIds: string[],
+): Promise<Record<string, string>> {
+  const { data, error } = await supabaseClient
+    .from("pdfs")
+    .select("id, name")
+    .in("id", documentIds);
+
+  if (error) {
+    console.error("❌ Error fetching document names:", error);
+    return {};
+  }
+
+  return Object.fromEntries(data.map((pdf) => [pdf.id, pdf.name]));
+}
+
+/**
+ * Make sure every chunk of the given documents was embedded with the
+ * configured model
+ *
+ * @throws Error naming the other model(s) if any chunk was embedded differently
+ */
+async function assertEmbeddingModel(
+  documentIds: string[],
+  modelId: string,
+): Promise<void> {
+  const { data, error } = await supabaseClient
+    .from("pdf_chunks")
+    .select("embedding_model")
+    .in("metadata->>pdf_id", documentIds)
+    .or(`embedding_model.is.null,embedding_model.neq."${modelId}"`)
+    .limit(10);
+
+  if (error) {
+    throw new Error(`Error checking embedding models: ${error.message}`);
+  }
+
+  if (data.length > 0) {
+    const otherModels = [
+      ...new Set(data.map((chunk) => chunk.embedding_model ?? "unknown")),
+    ];
+    console.error(
+      `❌ Embedding model mismatch: expected ${modelId}, found ${otherModels.join(", ")}`,
+    );
+    throw new Error(
+      `This content was embedded with ${otherModels.join(", ")}, but the configured embedding model is ${modelId}. Re-process the content or switch EMBEDDING_PROVIDER/EMBEDDING_MODEL back.`,
+    );
+  }
+}
+
+/**
+ * Render chat turns as a plain-text transcript for prompts
+ */
+function formatChatHistory(history: ChatTurn[]): string {
+  return history
+    .map(
+      (turn) =>
+        `User: ${turn.user_message}\nAssistant: ${turn.assistant_message}`,
+    )
+    .join("\n\n");
+}
+
+/**
+ * Rewrite a follow-up question into a standalone retrieval query
+ *
+ * Questions like "what about the second point?" don't embed well on their
+ * own, so the conversation is used to spell out what they refer to. The
+ * original query is returned when there is no history or the rewrite fails.
+ */
+async function condenseQuestion(
+  query: string,
+  history: ChatTurn[],
+  model: BaseChatModel,
+  signal?: AbortSignal,
+): Promise<string> {
+  if (history.length === 0) {
+    return query;
+  }
+
+  const condensePrompt = PromptTemplate.fromTemplate(`
+    Given the following conversation and a follow-up question, rephrase the
+    follow-up question to be a standalone question that can be understood
+    without the conversation. Keep it in the same language as the question.
+    Reply with the standalone question only.
+
+    Conversation:
+    {chat_history}
+
+    Follow-up question: {question}
+
+    Standalone question:
+  `);
+
+  try {
+    const formattedPrompt = await condensePrompt.format({
+      chat_history: formatChatHistory(history),
+      question: query,
+    });
+    const response = await model.invoke(formattedPrompt, { signal });
+    const standalone = response.content.toString().trim();
+
+    console.log(`🔁 Rewrote follow-up question as: "${standalone}"`);
+    return standalone || query;
+  } catch (error) {
+    console.warn("⚠️ Failed to rewrite follow-up question:", error);
+    return query;
+  }
+}
+
 /**
  * Process retrieved documents and generate an answer using the LLM
  */
 async function processDocsAndGenerateAnswer(
   docs: Document[],
   query: string,
-  pdfId: string,
+  documentIds: string[],
   userId: string,
   prompt: PromptTemplate,
-  model: ChatGroq,
-): Promise<{ answer: string }> {
-  // Build context from retrieved documents
-  const context = docs.map((doc: Document) => doc.pageContent).join("\n\n");
+  model: BaseChatModel,
+  history: ChatTurn[],
+  documentNames: Record<string, string>,
+  { onToken, signal }: StreamOptions = {},
+): Promise<{ answer: string; sources: Source[] }> {
+  // Build numbered context from retrieved documents so the model can cite it
+  const sources = buildSources(docs, documentNames);
+  const context = formatCitedContext(docs, sources);
 
   // Format the full prompt for debugging
   const formattedPrompt = await prompt.format({
     context,
+    chat_history: formatChatHistory(history) || "(no previous messages)",
     question: query,
   });
   console.log(
@@ -1069,25 +1414,42 @@ async function processDocsAndGenerateAnswer(
   if (docs.length === 0) {
     answer =
       "I don't have any information about your document. No relevant content was found in the database.";
+  } else if (onToken) {
+    // Stream the answer token by token to the caller
+    answer = "";
+    const stream = await model.stream(formattedPrompt, { signal });
+    for await (const chunk of stream) {
+      const token = chunk.content.toString();
+      answer += token;
+      onToken(token);
+    }
   } else {
     // Use the model directly with our formatted prompt instead of the chain
-    const response = await model.invoke(formattedPrompt);
+    const response = await model.invoke(formattedPrompt, { signal });
     answer = response.content.toString();
   }
 
   console.log("✅ Generated response using RAG");
 
+  // Don't store a half-finished answer if the user cancelled it
+  if (signal?.aborted) {
+    console.log("⏹️ Query was cancelled, not storing chat history");
+    return { answer, sources };
+  }
+
   // =========================================================
   // Step 7: Store the conversation in chat history
   // =========================================================
 
   console.log("💾 Storing conversation in chat history...");
   await supabaseClient.from("chat_history").insert({
-    pdf_id: pdfId,
+    ...(documentIds.length === 1
+      ? { pdf_id: documentIds[0] }
+      : { pdf_id: null, pdf_ids: [...documentIds].sort() }),
     user_id: userId,
     user_message: query,
     assistant_message: answer,
   });
 
-  return { answer };
+  return { answer, sources };
 }
@@ -0,0 +1,176 @@
+import { Document } from "@langchain/core/documents";
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+import { load as loadHtml } from "cheerio";
+
+/**
+ * Readable Content Extraction for Web Pages
+ *
+ * Raw page text is full of navigation menus, cookie banners, footers and
+ * script noise. Pages are run through Mozilla's Readability (the engine
+ * behind Firefox Reader View) to keep only the main content, along with the
+ * article's title, byline, publish date and headings. When Readability can't
+ * find an article, the whole body text is used instead.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+// Articles shorter than this are treated as failed extractions
+const MIN_ARTICLE_CHARS = 200;
+
+// Longest wait for a page, so a host that never answers can't stall ingestion
+const FETCH_TIMEOUT_MS = 30 * 1000;
+
+// Elements that end a line of text when converting HTML to plain text
+const BLOCK_ELEMENTS =
+  "p, div, section, article, main, header, footer, nav, aside, li, tr, pre, blockquote, h1, h2, h3, h4, h5, h6, figcaption";
+
+/**
+ * The readable content of a web page
+ * - extraction: "readability" if the main content was found, "body" for the fallback
+ * - headings: Headings of the extracted content, in page order
+ */
+export interface ReadableContent {
+  title: string;
+  byline: string | null;
+  publishedTime: string | null;
+  headings: string[];
+  text: string;
+  extraction: "readability" | "body";
+}
+
+/**
+ * Convert an HTML fragment to plain text, keeping paragraph breaks
+ */
+function htmlToText(html: string): string {
+  const $ = loadHtml(html);
+  $("script, style, noscript, template, svg").remove();
+  $("br").replaceWith("\n");
+  $(BLOCK_ELEMENTS).each((_, element) => {
+    $(element).append("\n\n");
+  });
+
+  return $.root()
+    .text()
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Find a publish date in the page's metadata, for when Readability has none
+ */
+function findPublishedTime($: ReturnType<typeof loadHtml>): string | null {
+  const value =
+    $('meta[property="article:published_time"]').attr("content") ||
+    $('meta[name="date"]').attr("content") ||
+    $('meta[itemprop="datePublished"]').attr("content") ||
+    $("time[datetime]").first().attr("datetime");
+  return value?.trim() || null;
+}
+
+/**
+ * Extract the main content of a web page
+ *
+ * @param html - The page's HTML
+ * @param url - The page URL, used to resolve relative links
+ */
+export function extractReadableContent(
+  html: string,
+  url: string,
+): ReadableContent {
+  const $ = loadHtml(html);
+  const pageTitle = $("title").first().text().trim();
+  const publishedTime = findPublishedTime($);
+
+  // Step 1: Try Readability on a DOM of the page
+  try {
+    const { document } = parseHTML(html);
+    // Readability reads the base URI to resolve relative links
+    Object.defineProperty(document, "baseURI", { value: url });
+    const article = new Readability(document).parse();
+
+    if (
+      article?.content &&
+      (article.textContent ?? "").trim().length >= MIN_ARTICLE_CHARS
+    ) {
+      const $article = loadHtml(article.content);
+      const headings = $article("h1, h2, h3, h4, h5, h6")
+        .map((_, element) =>
+          $article(element).text().replace(/\s+/g, " ").trim(),
+        )
+        .get()
+        .filter(Boolean);
+
+      return {
+        title: article.title?.trim() || pageTitle,
+        byline: article.byline?.trim() || null,
+        publishedTime: article.publishedTime?.trim() || publishedTime,
+        headings,
+        text: htmlToText(article.content),
+        extraction: "readability",
+      };
+    }
+  } catch (error) {
+    console.warn(`⚠️ Readability failed for ${url}:`, error);
+  }
+
+  // Step 2: Fall back to the whole body
+  console.log(`📰 No article found on ${url}, using the whole page`);
+  return {
+    title: pageTitle,
+    byline: null,
+    publishedTime,
+    headings: $("body h1, body h2, body h3")
+      .map((_, element) => $(element).text().replace(/\s+/g, " ").trim())
+      .get()
+      .filter(Boolean),
+    text: htmlToText($("body").html() ?? ""),
+    extraction: "body",
+  };
+}
+
+/**
+ * Build a document from a page's readable content, with the article details
+ * as metadata
+ */
+export function toReadableDocument(html: string, url: string): Document {
+  const content = extractReadableContent(html, url);
+
+  return new Document({
+    pageContent: content.text,
+    metadata: {
+      source: url,
+      title: content.title,
+      ...(content.byline && { byline: content.byline }),
+      ...(content.publishedTime && { published_time: content.publishedTime }),
+      ...(content.headings.length > 0 && {
+        headings: content.headings.join(" | "),
+      }),
+      extraction: content.extraction,
+    },
+  });
+}
+
+/**
+ * Fetch a web page and load its readable content
+ *
+ * @returns One document holding the page's main content
+ */
+export async function loadReadableWebPage(url: string): Promise<Document> {
+  const response = await fetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  }
+
+  const document = toReadableDocument(await response.text(), url);
+  console.log(
+    `📰 Extracted ${document.pageContent.length} characters from ${url} (${document.metadata.extraction})`,
+  );
+  return document;
+}
@@ -0,0 +1,692 @@
+import { Document } from "@langchain/core/documents";
+import { createClient } from "@supabase/supabase-js";
+import { createHash } from "crypto";
+import { createEmbeddings, getEmbeddingConfig } from "@/lib/embedding-provider";
+import {
+  getEmbeddingBatchSize,
+  storeEmbeddingBatch,
+} from "@/lib/embedding-batches";
+import { ChunkingStrategy } from "@/lib/chunking-config";
+import { splitIntoChunks } from "@/lib/chunking";
+import { startHeartbeat } from "@/lib/job-heartbeat";
+
+/**
+ * Re-index Jobs
+ *
+ * Re-chunks and re-embeds existing documents from their stored content,
+ * e.g. after the embedding model or a document's chunking strategy changed.
+ * A job works through one document, a filtered set or the whole library,
+ * one document at a time:
+ * 1. Rebuilds the document's sections (pages, slides, headings...) from its
+ *    content and the metadata of its current chunks
+ * 2. Splits them with the document's chunking strategy, or the job's
+ * 3. Embeds the new chunks into the 'pdf_chunks_shadow' table, while the
+ *    current chunks keep serving chat
+ * 4. Replaces the current chunks with the new ones in one transaction
+ *    (swap_document_chunks, see
+ *    supabase/migrations/20261019000015_reindex_jobs.sql)
+ *
+ * A document that fails keeps its current chunks and is recorded on the
+ * job. Jobs are started by administrators (see admin-service.ts) or the
+ * CLI (scripts/reindex.mjs through /api/reindex), and /api/ingestion/run
+ * resumes jobs whose worker died at the document it stopped at. The batches
+ * of a document already in the shadow table are kept, whether its worker
+ * died or a batch failed, so the next attempt (by the same job or a later
+ * one) embeds only the rest.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL as string;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY as string;
+
+// Create a Supabase client with admin privileges for database operations
+const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+
+// A running job that hasn't saved progress for this long is assumed dead
+const JOB_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Rows loaded per request when listing documents and chunks (the most
+// PostgREST returns by default)
+const PAGE_SIZE = 1000;
+
+// Where new chunks are built until they replace a document's chunks
+const SHADOW_TABLE = "pdf_chunks_shadow";
+
+// Chunk metadata describing how a chunk was split and embedded rather than
+// where in the document it comes from
+const CHUNKING_METADATA = new Set(["loc", "embedding_model"]);
+
+export type ReindexStatus = "queued" | "running" | "completed" | "failed";
+
+/**
+ * Which documents a job re-indexes; every given condition must match
+ * - pdfIds: Only these documents
+ * - userId: Only this user's documents
+ * - format: Only documents of this format, e.g. "pdf" or "link"
+ * - staleModel: Only documents with chunks embedded by another model than
+ *   the configured one (see embedding-provider.ts)
+ */
+export interface ReindexFilter {
+  pdfIds?: string[];
+  userId?: string;
+  format?: string;
+  staleModel?: boolean;
+}
+
+/**
+ * A document a job could not re-index; it kept its current chunks
+ */
+export interface ReindexFailure {
+  pdf_id: string;
+  error: string;
+}
+
+/**
+ * A row of the 'reindex_jobs' table
+ * - pdf_ids: The documents to re-index, chosen when the job is queued
+ * - chunking_strategy: Strategy to re-chunk with; null keeps each
+ *   document's own
+ * - progress_done/progress_total: Documents finished so far, out of all
+ * - current_*: The document being re-indexed and its chunks embedded so far
+ */
+export interface ReindexJob {
+  id: string;
+  requested_by: string;
+  status: ReindexStatus;
+  pdf_ids: string[];
+  chunking_strategy: ChunkingStrategy | null;
+  progress_done: number;
+  progress_total: number;
+  current_pdf_id: string | null;
+  current_chunks_done: number;
+  current_chunks_total: number;
+  failed: ReindexFailure[];
+  error: string | null;
+  locked_at: string | null;
+  created_at: string;
+}
+
+/**
+ * What an administrator needs to follow a job
+ * - percent: Overall progress, 0-100
+ */
+export type ReindexProgress = Omit<
+  ReindexJob,
+  "pdf_ids" | "locked_at" | "requested_by"
+> & { percent: number };
+
+/**
+ * A chunk as stored in the 'pdf_chunks' table
+ */
+interface StoredChunk {
+  id: string;
+  content: string;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Summarize a job's state for the admin panel and the CLI
+ */
+export function toReindexProgress(job: ReindexJob): ReindexProgress {
+  const current =
+    job.current_chunks_total > 0
+      ? job.current_chunks_done / job.current_chunks_total
+      : 0;
+  const percent =
+    job.progress_total > 0
+      ? Math.round((100 * (job.progress_done + current)) / job.progress_total)
+      : 100;
+
+  return {
+    id: job.id,
+    status: job.status,
+    chunking_strategy: job.chunking_strategy,
+    progress_done: job.progress_done,
+    progress_total: job.progress_total,
+    current_pdf_id: job.current_pdf_id,
+    current_chunks_done: job.current_chunks_done,
+    current_chunks_total: job.current_chunks_total,
+    failed: job.failed,
+    error: job.error,
+    created_at: job.created_at,
+    percent: job.status === "completed" ? 100 : percent,
+  };
+}
+
+/**
+ * IDs of the documents with chunks embedded by another model
+ */
+async function findStaleModelDocuments(modelId: string): Promise<Set<string>> {
+  const pdfIds = new Set<string>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from("pdf_chunks")
+      .select("id, pdf_id:metadata->>pdf_id")
+      // Chunks stored before models were recorded have none
+      .or(`embedding_model.is.null,embedding_model.neq."${modelId}"`)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to find stale chunks: ${error.message}`);
+    }
+
+    data.forEach((chunk) => pdfIds.add(chunk.pdf_id as string));
+    if (data.length < PAGE_SIZE) {
+      return pdfIds;
+    }
+  }
+}
+
+/**
+ * IDs of the ready documents matching a filter, oldest first
+ */
+async function findDocuments(filter: ReindexFilter): Promise<string[]> {
+  const stale = filter.staleModel
+    ? await findStaleModelDocuments(getEmbeddingConfig().modelId)
+    : null;
+  const pdfIds: string[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabaseClient
+      .from("pdfs")
+      .select("id")
+      .eq("status", "ready")
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (filter.pdfIds) {
+      query = query.in("id", filter.pdfIds);
+    }
+    if (filter.userId) {
+      query = query.eq("user_id", filter.userId);
+    }
+    if (filter.format) {
+      query = query.eq("format", filter.format);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to find documents: ${error.message}`);
+    }
+
+    pdfIds.push(
+      ...data.map((pdf) => pdf.id).filter((id) => !stale || stale.has(id)),
+    );
+    if (data.length < PAGE_SIZE) {
+      return pdfIds;
+    }
+  }
+}
+
+/**
+ * Queue a job re-indexing the documents that match a filter
+ *
+ * The caller starts the job with runReindexJob, or leaves it to
+ * /api/ingestion/run.
+ *
+ * @param chunkingStrategy - Strategy to re-chunk with, or null to keep
+ *   each document's own
+ * @param requestedBy - Who started the job, for the record
+ * @returns The queued job
+ */
+export async function createReindexJob(
+  filter: ReindexFilter,
+  chunkingStrategy: ChunkingStrategy | null,
+  requestedBy: string,
+): Promise<ReindexJob> {
+  const pdfIds = await findDocuments(filter);
+  if (pdfIds.length === 0) {
+    throw new Error("No documents match the filter");
+  }
+
+  const { data, error } = await supabaseClient
+    .from("reindex_jobs")
+    .insert({
+      requested_by: requestedBy,
+      pdf_ids: pdfIds,
+      chunking_strategy: chunkingStrategy,
+      progress_total: pdfIds.length,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to queue re-index: ${error.message}`);
+  }
+
+  console.log(
+    `📥 Queued re-index job ${data.id} for ${pdfIds.length} documents`,
+  );
+  return data as ReindexJob;
+}
+
+/**
+ * Load a job by ID
+ */
+export async function getReindexJob(jobId: string): Promise<ReindexJob | null> {
+  const { data, error } = await supabaseClient
+    .from("reindex_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load re-index job: ${error.message}`);
+  }
+
+  return data as ReindexJob | null;
+}
+
+/**
+ * Save changes to a job, which also shows its worker is alive
+ */
+async function updateJob(
+  jobId: string,
+  changes: Partial<ReindexJob>,
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseClient
+    .from("reindex_jobs")
+    .update({ ...changes, locked_at: now, updated_at: now })
+    .eq("id", jobId);
+
+  if (error) {
+    throw new Error(`Failed to save re-index job: ${error.message}`);
+  }
+}
+
+/**
+ * Take a job for this worker if it is queued, or running with a dead worker
+ *
+ * @returns The job, or null if another worker has it or it is finished
+ */
+async function claimJob(jobId: string): Promise<ReindexJob | null> {
+  const now = new Date().toISOString();
+  const staleBefore = new Date(Date.now() - JOB_LOCK_TIMEOUT_MS).toISOString();
+
+  const { data, error } = await supabaseClient
+    .from("reindex_jobs")
+    .update({ status: "running", locked_at: now, updated_at: now })
+    .eq("id", jobId)
+    .or(`status.eq.queued,and(status.eq.running,locked_at.lt.${staleBefore})`)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim re-index job: ${error.message}`);
+  }
+
+  return data as ReindexJob | null;
+}
+
+/**
+ * Load every current chunk of a document
+ */
+async function loadChunks(pdfId: string): Promise<StoredChunk[]> {
+  const chunks: StoredChunk[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from("pdf_chunks")
+      .select("id, content, metadata")
+      .eq("metadata->>pdf_id", pdfId)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load chunks: ${error.message}`);
+    }
+
+    chunks.push(...(data as StoredChunk[]));
+    if (data.length < PAGE_SIZE) {
+      return chunks;
+    }
+  }
+}
+
+/**
+ * The ID a new chunk is stored under in the shadow table
+ *
+ * Derived from the document and the chunk, including the model recorded in
+ * its metadata, so the next attempt at the document finds the batches
+ * stored before a worker stopped or a batch failed.
+ */
+function shadowChunkId(pdfId: string, index: number, chunk: Document): string {
+  const hash = createHash("sha256")
+    .update(
+      `${pdfId}:${index}:${JSON.stringify(chunk.metadata)}:${chunk.pageContent}`,
+    )
+    .digest("hex");
+  return [
+    hash.slice(0, 8),
+    hash.slice(8, 12),
+    hash.slice(12, 16),
+    hash.slice(16, 20),
+    hash.slice(20, 32),
+  ].join("-");
+}
+
+/**
+ * Load the IDs of a document's shadow chunks
+ */
+async function loadShadowChunkIds(pdfId: string): Promise<string[]> {
+  const ids: string[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseClient
+      .from(SHADOW_TABLE)
+      .select("id")
+      .eq("metadata->>pdf_id", pdfId)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load shadow chunks: ${error.message}`);
+    }
+
+    ids.push(...data.map((row) => row.id as string));
+    if (data.length < PAGE_SIZE) {
+      return ids;
+    }
+  }
+}
+
+/**
+ * Delete shadow chunks by ID
+ */
+async function deleteShadowChunks(ids: string[]): Promise<void> {
+  for (let start = 0; start < ids.length; start += PAGE_SIZE) {
+    const { error } = await supabaseClient
+      .from(SHADOW_TABLE)
+      .delete()
+      .in("id", ids.slice(start, start + PAGE_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to clear shadow chunks: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Rebuild the sections a document was loaded as from its stored content
+ *
+ * Only the joined text of the loaded pages, slides or sections is stored,
+ * but the current chunks still carry each one's metadata (page number,
+ * heading path, source URL...). Each chunk is located in the content, and
+ * a new section starts where that metadata changes. Chunks whose text
+ * appears more than once can't be placed and are ignored.
+ *
+ * @param base - Metadata every section gets, e.g. the document's ID
+ */
+function rebuildSections(
+  content: string,
+  chunks: StoredChunk[],
+  base: Record<string, unknown>,
+): Document[] {
+  const located = chunks
+    .map((chunk) => ({
+      start: content.indexOf(chunk.content),
+      metadata: Object.fromEntries(
+        Object.entries(chunk.metadata ?? {}).filter(
+          ([key]) => !CHUNKING_METADATA.has(key),
+        ),
+      ),
+      unique:
+        content.indexOf(chunk.content, content.indexOf(chunk.content) + 1) ===
+        -1,
+    }))
+    .filter((chunk) => chunk.start >= 0 && chunk.unique)
+    .sort((a, b) => a.start - b.start);
+
+  const sections: { start: number; metadata: Record<string, unknown> }[] = [];
+  for (const chunk of located) {
+    const previous = sections[sections.length - 1];
+    if (
+      !previous ||
+      JSON.stringify(previous.metadata) !== JSON.stringify(chunk.metadata)
+    ) {
+      sections.push(chunk);
+    }
+  }
+
+  if (sections.length === 0) {
+    return [new Document({ pageContent: content, metadata: base })];
+  }
+
+  // Text before the first placed chunk belongs to the first section
+  sections[0].start = 0;
+  return sections
+    .map(
+      (section, i) =>
+        new Document({
+          pageContent: content
+            .slice(section.start, sections[i + 1]?.start ?? content.length)
+            .trim(),
+          metadata: { ...base, ...section.metadata },
+        }),
+    )
+    .filter((section) => section.pageContent);
+}
+
+/**
+ * Re-chunk and re-embed one document, then switch it to the new chunks
+ *
+ * Progress is saved per batch. An attempt at a document that stopped before
+ * (its worker died or a batch failed) skips the chunks already in the
+ * shadow table, and drops any left there by an attempt that split or
+ * embedded the document differently.
+ */
+async function reindexDocument(job: ReindexJob, pdfId: string): Promise<void> {
+  const { data: pdf, error: pdfError } = await supabaseClient
+    .from("pdfs")
+    .select(
+      "id, user_id, format, status, content, content_sha256, source_url, chunking_strategy",
+    )
+    .eq("id", pdfId)
+    .maybeSingle();
+
+  if (pdfError) {
+    throw new Error(`Failed to load document: ${pdfError.message}`);
+  }
+  if (!pdf) {
+    throw new Error("Document not found");
+  }
+  if (pdf.status !== "ready") {
+    throw new Error("Only fully processed documents can be re-indexed");
+  }
+
+  const chunkingStrategy: ChunkingStrategy =
+    job.chunking_strategy ?? pdf.chunking_strategy;
+  const embeddingConfig = getEmbeddingConfig();
+  console.log(
+    `🔁 Re-indexing ${pdfId} with ${chunkingStrategy} chunking and ${embeddingConfig.modelId}`,
+  );
+
+  // Step 1: Rebuild the sections the document was loaded as
+  const sections = rebuildSections(pdf.content, await loadChunks(pdfId), {
+    pdf_id: pdf.id,
+    user_id: pdf.user_id,
+    ...(pdf.format === "link"
+      ? { source_type: "link", source: pdf.source_url }
+      : { format: pdf.format }),
+  });
+
+  // Step 2: Split them into chunks recording the model that embeds them
+  const chunks = (await splitIntoChunks(sections, chunkingStrategy)).map(
+    (chunk) =>
+      new Document({
+        pageContent: chunk.pageContent,
+        metadata: Object.fromEntries(
+          Object.entries({
+            ...chunk.metadata,
+            embedding_model: embeddingConfig.modelId,
+          })
+            .filter(([key]) => key !== "loc")
+            .map(([key, value]) => [key, String(value)]),
+        ),
+      }),
+  );
+
+  // Step 3: Embed the chunks not in the shadow table yet
+  const ids = chunks.map((chunk, i) => shadowChunkId(pdfId, i, chunk));
+  const wanted = new Set(ids);
+  const existing = await loadShadowChunkIds(pdfId);
+  const stored = new Set(existing.filter((id) => wanted.has(id)));
+  // Left by an attempt that split or embedded the document differently
+  await deleteShadowChunks(existing.filter((id) => !wanted.has(id)));
+
+  const pending = chunks
+    .map((chunk, i) => ({ chunk, id: ids[i] }))
+    .filter(({ id }) => !stored.has(id));
+  let done = chunks.length - pending.length;
+  if (done > 0) {
+    console.log(`⏩ Resuming ${pdfId} at ${done}/${chunks.length} chunks`);
+  }
+  await updateJob(job.id, {
+    current_pdf_id: pdfId,
+    current_chunks_done: done,
+    current_chunks_total: chunks.length,
+  });
+
+  // A failed batch leaves the batches before it in the shadow table for the
+  // next attempt
+  const embeddings = createEmbeddings(embeddingConfig);
+  const batchSize = getEmbeddingBatchSize();
+  for (let start = 0; start < pending.length; start += batchSize) {
+    const batch = pending.slice(start, start + batchSize);
+    await storeEmbeddingBatch(
+      batch.map(({ chunk }) => chunk),
+      batch.map(({ id }) => id),
+      embeddings,
+      SHADOW_TABLE,
+    );
+    done += batch.length;
+    await updateJob(job.id, { current_chunks_done: done });
+  }
+
+  // Step 4: Switch over in one transaction
+  const { data: swapped, error: swapError } = await supabaseClient.rpc(
+    "swap_document_chunks",
+    {
+      p_pdf_id: pdfId,
+      p_content_sha256: pdf.content_sha256,
+      p_chunking_strategy: chunkingStrategy,
+    },
+  );
+
+  if (swapError) {
+    throw new Error(`Failed to switch chunks: ${swapError.message}`);
+  }
+
+  console.log(`✅ ${pdfId} now has ${swapped} re-indexed chunks`);
+}
+
+/**
+ * Run a job from the document it stopped at to the end
+ *
+ * Does nothing if another worker is running the job or it is finished.
+ * Documents that fail are recorded and skipped; the job only fails if its
+ * progress can't be saved.
+ */
+export async function runReindexJob(jobId: string): Promise<void> {
+  let job: ReindexJob | null;
+  try {
+    job = await claimJob(jobId);
+  } catch (error) {
+    // Left queued for the next run of /api/ingestion/run
+    console.error(`❌ Could not claim re-index job ${jobId}:`, error);
+    return;
+  }
+  if (!job) {
+    console.log(`⏭️ Re-index job ${jobId} is not waiting to run`);
+    return;
+  }
+
+  console.log(
+    `🚀 Running re-index job ${jobId} from document ${job.progress_done + 1}/${job.progress_total}`,
+  );
+
+  // Splitting a document (semantic chunking embeds every sentence) and
+  // embedding a batch can take minutes without saving progress
+  const stopHeartbeat = startHeartbeat("reindex_jobs", jobId);
+
+  try {
+    const failed = [...job.failed];
+    for (let i = job.progress_done; i < job.pdf_ids.length; i++) {
+      const pdfId = job.pdf_ids[i];
+      try {
+        await reindexDocument(job, pdfId);
+      } catch (error) {
+        console.error(`❌ Failed to re-index ${pdfId}:`, error);
+        failed.push({
+          pdf_id: pdfId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      await updateJob(jobId, {
+        progress_done: i + 1,
+        failed,
+        current_pdf_id: null,
+        current_chunks_done: 0,
+        current_chunks_total: 0,
+      });
+    }
+
+    await updateJob(jobId, { status: "completed" });
+    console.log(
+      `✅ Re-index job ${jobId} completed, ${failed.length} documents failed`,
+    );
+  } catch (error) {
+    console.error(`❌ Re-index job ${jobId} failed:`, error);
+
+    // This can run inside after(), where nothing would catch a rejection; if
+    // the failure can't be saved, the lock goes stale and the job is resumed
+    // by /api/ingestion/run
+    try {
+      await updateJob(jobId, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } catch (saveError) {
+      console.error(
+        `❌ Could not record the failure of re-index job ${jobId}:`,
+        saveError,
+      );
+    }
+  } finally {
+    stopHeartbeat();
+  }
+}
+
+/**
+ * Run the oldest queued job, or one whose worker died
+ *
+ * Called on a schedule by /api/ingestion/run. Re-index jobs can take long,
+ * so a run works on one.
+ *
+ * @returns The number of jobs run
+ */
+export async function runPendingReindexJobs(): Promise<{ run: number }> {
+  const staleBefore = new Date(Date.now() - JOB_LOCK_TIMEOUT_MS).toISOString();
+
+  const { data: jobs, error } = await supabaseClient
+    .from("reindex_jobs")
+    .select("id")
+    .or(`status.eq.queued,and(status.eq.running,locked_at.lt.${staleBefore})`)
+    .order("created_at", { ascending: true })
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to load pending re-index jobs: ${error.message}`);
+  }
+
+  for (const job of jobs) {
+    await runReindexJob(job.id);
+  }
+
+  return { run: jobs.length };
+}
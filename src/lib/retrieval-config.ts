@@ -0,0 +1,36 @@
+// Define supported retrieval modes
+export type RetrievalMode = "hybrid" | "vector" | "keyword";
+
+// Retrieval mode configuration for the chat search setting
+export const RETRIEVAL_MODE_CONFIG = {
+  hybrid: {
+    value: "hybrid",
+    label: "Hybrid",
+    description: "Meaning and exact keywords combined",
+  },
+  vector: {
+    value: "vector",
+    label: "Semantic",
+    description: "Meaning only (vector similarity)",
+  },
+  keyword: {
+    value: "keyword",
+    label: "Keyword",
+    description: "Exact words, numbers and identifiers only",
+  },
+};
+
+// Used when neither the request nor RETRIEVAL_MODE chooses a mode
+export const DEFAULT_RETRIEVAL_MODE: RetrievalMode = "hybrid";
+
+// Export retrieval modes for UI
+export const RETRIEVAL_MODES = Object.values(RETRIEVAL_MODE_CONFIG);
+
+/**
+ * Check that a value from form data or the environment is a known mode
+ */
+export function isRetrievalMode(value: unknown): value is RetrievalMode {
+  return (
+    typeof value === "string" && Object.hasOwn(RETRIEVAL_MODE_CONFIG, value)
+  );
+}
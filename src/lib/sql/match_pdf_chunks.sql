@@ -1,29 +1,83 @@
 -- Function to match PDF chunks based on vector similarity
 -- This function is used by SupabaseVectorStore for semantic search
+-- The similarity column is returned so answers can cite how close each source was
+-- embedding_model_filter keeps vectors from different embedding models apart
+
+DROP FUNCTION IF EXISTS match_pdf_chunks(vector, text, int);
+DROP FUNCTION IF EXISTS match_pdf_chunks(vector, text, int, text);
 
 CREATE OR REPLACE FUNCTION match_pdf_chunks(
-  query_vector vector(1024),  -- Adjust dimension to match your Jina embeddings
+  query_vector vector,  -- Any dimension; must match the model in embedding_model_filter
   pdf_id_filter text,
-  match_limit int DEFAULT 5
+  match_limit int DEFAULT 5,
+  embedding_model_filter text DEFAULT NULL
 ) RETURNS TABLE (
   id text,
   content text,
-  metadata jsonb
+  metadata jsonb,
+  similarity float
 ) LANGUAGE sql AS $$
   SELECT
     id::text,
     content,
-    metadata
+    metadata,
+    1 - (embedding <=> query_vector) AS similarity
   FROM 
     pdf_chunks
   WHERE 
     metadata->>'pdf_id' = pdf_id_filter
+    AND (embedding_model_filter IS NULL OR embedding_model = embedding_model_filter)
   ORDER BY 
     embedding <=> query_vector
   LIMIT 
     match_limit;
 $$;
 
+-- Function to match chunks across several documents at once (multi-document chat)
+-- Each document contributes at most per_document_limit chunks
+DROP FUNCTION IF EXISTS match_pdf_chunks_multi(vector, text[], int, int);
+
+CREATE OR REPLACE FUNCTION match_pdf_chunks_multi(
+  query_vector vector,
+  pdf_id_filters text[],
+  match_limit int DEFAULT 10,
+  per_document_limit int DEFAULT 4,
+  embedding_model_filter text DEFAULT NULL
+) RETURNS TABLE (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity float
+) LANGUAGE sql AS $$
+  SELECT
+    ranked.id,
+    ranked.content,
+    ranked.metadata,
+    ranked.similarity
+  FROM (
+    SELECT
+      id::text AS id,
+      content,
+      metadata,
+      1 - (embedding <=> query_vector) AS similarity,
+      ROW_NUMBER() OVER (
+        PARTITION BY metadata->>'pdf_id'
+        ORDER BY embedding <=> query_vector
+      ) AS document_rank
+    FROM 
+      pdf_chunks
+    WHERE 
+      metadata->>'pdf_id' = ANY(pdf_id_filters)
+      AND (embedding_model_filter IS NULL OR embedding_model = embedding_model_filter)
+  ) ranked
+  WHERE 
+    ranked.document_rank <= per_document_limit
+  ORDER BY 
+    ranked.similarity DESC
+  LIMIT 
+    match_limit;
+$$;
+
 -- Alternative version with different parameter names if needed
 CREATE OR REPLACE FUNCTION match_documents (
   query_embedding vector(1024),
@@ -56,4 +110,5 @@ END;
 $$;
 
 COMMENT ON FUNCTION match_pdf_chunks IS 'Function for semantic search over PDF chunks with embeddings';
+COMMENT ON FUNCTION match_pdf_chunks_multi IS 'Function for semantic search over the chunks of several documents at once';
 COMMENT ON FUNCTION match_documents IS 'Alternative function name for semantic search over document chunks'; 
\ No newline at end of file
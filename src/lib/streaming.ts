@@ -0,0 +1,107 @@
+/**
+ * Streaming Helpers
+ *
+ * Chat answers and summaries are streamed from /api/stream as Server-Sent
+ * Events. Each event has a name and a JSON payload:
+ * - token: A piece of generated text (string)
+ * - done: The final result once generation has finished
+ * - error: { message } if generation failed
+ *
+ * The server-side services accept StreamOptions so the same code path serves
+ * both the regular server actions and the streaming route. The client-side
+ * helper below reads the event stream and supports cancellation through an
+ * AbortSignal.
+ */
+
+/**
+ * Options accepted by services that can stream their output
+ * - onToken: Called with each piece of generated text as it arrives
+ * - signal: Aborts the model calls when the client goes away or cancels
+ */
+export interface StreamOptions {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+// The API route that streams chat answers and summaries
+export const STREAM_ENDPOINT = "/api/stream";
+
+/**
+ * Encode a single Server-Sent Event
+ */
+export function encodeEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Handlers for streamFromServer
+ * - onToken: Called with each piece of generated text
+ * - onDone: Called once with the final result payload
+ */
+export interface StreamHandlers<TResult> {
+  onToken: (token: string) => void;
+  onDone: (result: TResult) => void;
+}
+
+/**
+ * Post form data to the streaming route and dispatch the events it sends
+ *
+ * Resolves when the stream ends. Rejects with the server's message on an
+ * error event, or with an AbortError if the signal is aborted.
+ */
+export async function streamFromServer<TResult>(
+  formData: FormData,
+  handlers: StreamHandlers<TResult>,
+  signal?: AbortSignal,
+): Promise<void> {
+  const response = await fetch(STREAM_ENDPOINT, {
+    method: "POST",
+    body: formData,
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Streaming request failed with status ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; keep any partial event buffered
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+
+    for (const rawEvent of events) {
+      let event = "message";
+      let data = "";
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event: ")) event = line.slice(7);
+        else if (line.startsWith("data: ")) data += line.slice(6);
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === "token") {
+        handlers.onToken(payload as string);
+      } else if (event === "done") {
+        handlers.onDone(payload as TResult);
+      } else if (event === "error") {
+        throw new Error((payload as { message: string }).message);
+      }
+    }
+  }
+}
+
+/**
+ * Check whether an error was caused by the user cancelling a request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
@@ -0,0 +1,220 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { StringOutputParser } from "@langchain/core/output_parsers";
+import { RunnableSequence } from "@langchain/core/runnables";
+import { Document } from "@langchain/core/documents";
+import { StreamOptions } from "./streaming";
+
+/**
+ * Map-Reduce Summarization
+ *
+ * Documents that fit in a single prompt are summarized in one pass, exactly
+ * like before. Anything longer is summarized hierarchically:
+ * 1. Chunks from RecursiveCharacterTextSplitter are packed into sections
+ * 2. Each section is summarized on its own (map)
+ * 3. Partial summaries are merged, in as many passes as needed, until they
+ *    fit into the final summary prompt (reduce); nothing is cut off to make
+ *    them fit
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+// Largest amount of text sent to the model in a single prompt
+export const SINGLE_PASS_CHAR_LIMIT = 32000;
+
+// Target size of each section summarized during the map step
+export const SECTION_CHAR_LIMIT = 12000;
+
+// How many section summaries are requested from the model at once
+const MAP_CONCURRENCY = 3;
+
+// Most merge passes before giving up, in case the model's merged summaries
+// stop getting shorter
+const MAX_REDUCE_PASSES = 10;
+
+const MAP_PROMPT = PromptTemplate.fromTemplate(`
+  You are summarizing one section of a longer document.
+
+  Write a detailed summary of the section below. Keep every key point,
+  figure, name, date and conclusion, since this summary will later be
+  merged with the summaries of the other sections.
+
+  Section:
+  {text}
+
+  Section Summary:
+`);
+
+const REDUCE_PROMPT = PromptTemplate.fromTemplate(`
+  You are merging partial summaries of consecutive sections of one document.
+
+  Combine the summaries below into a single summary that keeps the key
+  points from every section, removes repetition and preserves the order in
+  which topics appear.
+
+  Partial summaries:
+  {text}
+
+  Merged Summary:
+`);
+
+/**
+ * Options for summarizeChunks
+ * - model: The chat model used for every pass
+ * - finalPrompt: Prompt with a {text} variable that produces the final summary
+ * - onToken/signal: Stream the final pass and allow cancelling (see StreamOptions)
+ */
+export interface SummarizeChunksOptions extends StreamOptions {
+  model: BaseChatModel;
+  finalPrompt: PromptTemplate;
+}
+
+/**
+ * Result of summarizeChunks
+ * - summary: The final summary text
+ * - sectionCount: Number of sections folded into the summary (1 for single pass)
+ * - reducePasses: Number of intermediate merge passes that were needed
+ */
+export interface SummaryResult {
+  summary: string;
+  sectionCount: number;
+  reducePasses: number;
+}
+
+/**
+ * Pack consecutive texts into groups no larger than the character limit
+ *
+ * A single text longer than the limit ends up in a group of its own.
+ */
+export function groupTexts(texts: string[], charLimit: number): string[] {
+  const groups: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  for (const text of texts) {
+    if (current.length > 0 && currentLength + text.length > charLimit) {
+      groups.push(current.join("\n\n"));
+      current = [];
+      currentLength = 0;
+    }
+    current.push(text);
+    currentLength += text.length + 2;
+  }
+
+  if (current.length > 0) {
+    groups.push(current.join("\n\n"));
+  }
+
+  return groups;
+}
+
+/**
+ * Run a prompt over every text, a few requests at a time, keeping the order
+ */
+async function summarizeEach(
+  texts: string[],
+  prompt: PromptTemplate,
+  model: BaseChatModel,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const chain = RunnableSequence.from([
+    prompt,
+    model,
+    new StringOutputParser(),
+  ]);
+  const results: string[] = [];
+
+  for (let i = 0; i < texts.length; i += MAP_CONCURRENCY) {
+    const batch = texts.slice(i, i + MAP_CONCURRENCY);
+    const summaries = await Promise.all(
+      batch.map((text) => chain.invoke({ text }, { signal })),
+    );
+    results.push(...summaries);
+  }
+
+  return results;
+}
+
+/**
+ * Summarize a list of chunks, switching to map-reduce when they don't fit
+ * into a single prompt
+ *
+ * @param chunks - Chunks produced by RecursiveCharacterTextSplitter
+ * @param options - Model and final prompt to use
+ * @returns The summary along with how many sections were folded in
+ */
+export async function summarizeChunks(
+  chunks: Document[],
+  { model, finalPrompt, onToken, signal }: SummarizeChunksOptions,
+): Promise<SummaryResult> {
+  const finalChain = RunnableSequence.from([
+    finalPrompt,
+    model,
+    new StringOutputParser(),
+  ]);
+
+  // The final pass is streamed when a token callback is provided
+  const runFinal = async (text: string): Promise<string> => {
+    if (!onToken) {
+      return finalChain.invoke({ text }, { signal });
+    }
+
+    let summary = "";
+    const stream = await finalChain.stream({ text }, { signal });
+    for await (const token of stream) {
+      summary += token;
+      onToken(token);
+    }
+    return summary;
+  };
+
+  const texts = chunks.map((chunk) => chunk.pageContent);
+  const fullText = texts.join("\n\n");
+
+  // Short documents keep the original single-pass behaviour
+  if (fullText.length <= SINGLE_PASS_CHAR_LIMIT) {
+    console.log(`📄 Summarizing ${fullText.length} characters in one pass`);
+    const summary = await runFinal(fullText);
+    return { summary, sectionCount: 1, reducePasses: 0 };
+  }
+
+  // Map: summarize each section of the document independently
+  const sections = groupTexts(texts, SECTION_CHAR_LIMIT);
+  console.log(
+    `🗺️ Document is ${fullText.length} characters, summarizing ${sections.length} sections separately`,
+  );
+  let partials = await summarizeEach(sections, MAP_PROMPT, model, signal);
+
+  // Reduce: merge partial summaries until they fit into the final prompt
+  let reducePasses = 0;
+  while (partials.join("\n\n").length > SINGLE_PASS_CHAR_LIMIT) {
+    if (reducePasses >= MAX_REDUCE_PASSES) {
+      throw new Error(
+        `Document is too long to summarize: its partial summaries still don't fit into one prompt after ${reducePasses} merge passes`,
+      );
+    }
+
+    let groups = groupTexts(partials, SECTION_CHAR_LIMIT);
+
+    // Partial summaries too long to share a section are merged in pairs
+    // instead, so every pass still shrinks the input
+    if (groups.length >= partials.length) {
+      groups = [];
+      for (let i = 0; i < partials.length; i += 2) {
+        groups.push(partials.slice(i, i + 2).join("\n\n"));
+      }
+    }
+
+    reducePasses++;
+    console.log(
+      `🔁 Reduce pass ${reducePasses}: merging ${partials.length} partial summaries into ${groups.length}`,
+    );
+    partials = await summarizeEach(groups, REDUCE_PROMPT, model, signal);
+  }
+
+  console.log(`🧮 Combining ${partials.length} partial summaries`);
+  const summary = await runFinal(partials.join("\n\n"));
+
+  return { summary, sectionCount: sections.length, reducePasses };
+}
@@ -1,24 +1,57 @@
 "use server";
 
-import { ChatGroq } from "@langchain/groq";
-import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
-import { CheerioWebBaseLoader } from "@langchain/community/document_loaders/web/cheerio";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { loadReadableWebPage } from "@/lib/readable-content";
 import { PromptTemplate } from "@langchain/core/prompts";
-import { StringOutputParser } from "@langchain/core/output_parsers";
-import { RunnableSequence } from "@langchain/core/runnables";
 import { Document } from "@langchain/core/documents";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { LANGUAGE_CONFIG, SupportedLanguage } from "./language-config";
+import {
+  detectFileFormat,
+  FILE_FORMAT_CONFIG,
+  SUPPORTED_FORMAT_LABELS,
+} from "./file-formats";
+import { loadFileDocuments } from "./document-loaders";
+import { summarizeChunks } from "./summary-chain";
+import { StreamOptions } from "./streaming";
+import { createChatModel, getLlmConfig, isLlmConfigured } from "./llm-provider";
+import { requireUserId } from "./auth";
+import { assertDocumentAccess, assertDocumentsReady } from "./document-access";
+import { ChunkingStrategy, DEFAULT_CHUNKING_STRATEGY } from "./chunking-config";
+import { splitIntoChunks } from "./chunking";
 
 /**
- * Generates a summary of a PDF file or web page using AI with LangChain and Groq
+ * Result of a summary generation
+ * - summary: The generated summary (or a user-facing error message)
+ * - sectionCount: How many document sections were folded into the summary
+ *   (0 when no model call was made)
  */
-export async function generateSummary(formData: FormData): Promise<string> {
+export interface GeneratedSummary {
+  summary: string;
+  sectionCount: number;
+}
+
+/**
+ * Generates a summary of an uploaded file or web page using AI with LangChain and
+ * the configured LLM provider (Groq by default)
+ *
+ * Long documents are summarized section by section and then merged, so the
+ * summary covers the whole document rather than only its first 32,000 characters.
+ *
+ * When called from the streaming route, options.onToken receives the final
+ * summary as it is generated and options.signal cancels the model calls.
+ */
+export async function generateSummary(
+  formData: FormData,
+  options: StreamOptions = {},
+): Promise<GeneratedSummary> {
   console.log("🚀 Starting content summary generation process");
 
+  // Only signed-in users can generate summaries
+  const userId = await requireUserId();
+  console.log(`👤 User ID: ${userId}`);
+
   // Get parameters from formData
   const file = formData.get("file") as File;
   const url = formData.get("url") as string;
@@ -40,17 +73,29 @@ export async function generateSummary(formData: FormData): Promise<string> {
   }
 
   let docs: Document[] = [];
-  let tempFilePath = "";
+  // Library documents are split the way they were when they were stored,
+  // files and pages summarized without storing them with the default
+  let chunkingStrategy: ChunkingStrategy = DEFAULT_CHUNKING_STRATEGY;
 
-  // Handle content from file upload (PDF)
+  // Handle content from file upload (PDF, Word, PowerPoint or Excel)
   if (file) {
+    const format = detectFileFormat(file.name, file.type);
+    if (!format) {
+      throw new Error(
+        `Unsupported file type. Please upload one of: ${SUPPORTED_FORMAT_LABELS}`,
+      );
+    }
+
     console.log(
-      `📄 Processing uploaded file: ${file.name}, Size: ${(file.size / 1024).toFixed(2)} KB, Type: ${file.type}`,
+      `📄 Processing uploaded file: ${file.name}, Size: ${(file.size / 1024).toFixed(2)} KB, Type: ${file.type}, Format: ${format}`,
     );
 
-    // Create a temporary file for the PDF
+    // Create a temporary file for the upload
     const tempDir = os.tmpdir();
-    tempFilePath = path.join(tempDir, `pdf-${Date.now()}.pdf`);
+    const tempFilePath = path.join(
+      tempDir,
+      `${format}-${Date.now()}${FILE_FORMAT_CONFIG[format].extension}`,
+    );
 
     try {
       console.log("📥 Converting file to buffer...");
@@ -60,18 +105,27 @@ export async function generateSummary(formData: FormData): Promise<string> {
       console.log(`✅ Converted to buffer of size: ${buffer.length} bytes`);
 
       // Write buffer to temporary file
-      console.log(`💾 Writing PDF data to temporary file: ${tempFilePath}`);
+      console.log(`💾 Writing file data to temporary file: ${tempFilePath}`);
       fs.writeFileSync(tempFilePath, buffer);
       console.log("✅ Temporary file created");
 
-      // Load and parse the PDF using the file path
-      console.log("📚 Loading and parsing PDF content...");
-      const loader = new PDFLoader(tempFilePath);
-      docs = await loader.load();
-      console.log(`📄 Loaded ${docs.length} pages from PDF`);
+      // Load and parse the file with the loader for its format
+      console.log(`📚 Loading and parsing ${format} content...`);
+      docs = await loadFileDocuments(tempFilePath, format);
+      console.log(`📄 Loaded ${docs.length} sections from ${format} file`);
     } catch (error) {
       console.error("❌ Error processing uploaded file:", error);
       throw error;
+    } finally {
+      // The file is only needed while it is loaded
+      try {
+        if (fs.existsSync(tempFilePath)) {
+          fs.unlinkSync(tempFilePath);
+          console.log("🧹 Temporary file removed");
+        }
+      } catch (cleanupError) {
+        console.error("❌ Error cleaning up temporary file:", cleanupError);
+      }
     }
   }
   // Handle URL input
@@ -79,10 +133,9 @@ export async function generateSummary(formData: FormData): Promise<string> {
     console.log(`🔗 Processing URL: ${url}`);
 
     try {
-      // Use CheerioWebBaseLoader to extract text from the URL
+      // Keep only the page's main content, without menus and footers
       console.log("📚 Loading and parsing web page content...");
-      const loader = new CheerioWebBaseLoader(url);
-      docs = await loader.load();
+      docs = [await loadReadableWebPage(url)];
       console.log(`📄 Loaded content from URL: ${url}`);
     } catch (error) {
       console.error("❌ Error loading URL content:", error);
@@ -103,10 +156,14 @@ export async function generateSummary(formData: FormData): Promise<string> {
         .SUPABASE_SERVICE_ROLE_KEY as string;
       const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
 
+      // Only documents the user owns or that were shared with them
+      await assertDocumentAccess(supabaseClient, [contentId], userId);
+      await assertDocumentsReady(supabaseClient, [contentId]);
+
       // Fetch the content from the database
       const { data: contentData, error: contentError } = await supabaseClient
         .from("pdfs")
-        .select("content, name")
+        .select("content, name, chunking_strategy")
         .eq("id", contentId)
         .single();
 
@@ -127,6 +184,8 @@ export async function generateSummary(formData: FormData): Promise<string> {
         `📄 Retrieved content for "${contentData.name}" from database`,
       );
 
+      chunkingStrategy = contentData.chunking_strategy;
+
       // Create a Document object from the database content
       docs = [
         new Document({
@@ -142,7 +201,10 @@ export async function generateSummary(formData: FormData): Promise<string> {
 
   if (docs.length === 0) {
     console.warn("⚠️ No content extracted");
-    return "Could not extract any content from the provided source.";
+    return {
+      summary: "Could not extract any content from the provided source.",
+      sectionCount: 0,
+    };
   }
 
   // Log a sample of the first page content
@@ -152,12 +214,8 @@ export async function generateSummary(formData: FormData): Promise<string> {
 
   try {
     // Split the document into manageable chunks
-    console.log("✂️ Splitting document into chunks...");
-    const textSplitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 1000,
-      chunkOverlap: 100,
-    });
-    const splits = await textSplitter.splitDocuments(docs);
+    console.log(`✂️ Splitting document into chunks (${chunkingStrategy})...`);
+    const splits = await splitIntoChunks(docs, chunkingStrategy);
     console.log(`🧩 Split document into ${splits.length} chunks`);
 
     // Log some information about the chunks
@@ -170,23 +228,22 @@ export async function generateSummary(formData: FormData): Promise<string> {
       );
     }
 
-    // Initialize the Groq model
-    // Note: You'll need to set GROQ_API_KEY in your environment variables
-    const apiKey = process.env.GROQ_API_KEY;
-    if (!apiKey) {
+    // Initialize the chat model
+    // Note: The default Groq provider needs GROQ_API_KEY in your environment variables
+    const llmConfig = getLlmConfig();
+    if (!isLlmConfigured(llmConfig)) {
       console.warn(
         "⚠️ No GROQ_API_KEY found in environment variables. Using fallback summary.",
       );
-      return `Summary of content (API key not configured)\n\nTo generate real summaries, please add your Groq API key to the environment variables.\n\nGet your API key from: https://console.groq.com/keys\n\nThe content contained ${splits.length} text chunks with content related to: "${splits[0]?.pageContent.substring(0, 100)}..."`;
+      return {
+        summary: `Summary of content (API key not configured)\n\nTo generate real summaries, please add your Groq API key to the environment variables.\n\nGet your API key from: https://console.groq.com/keys\n\nThe content contained ${splits.length} text chunks with content related to: "${splits[0]?.pageContent.substring(0, 100)}..."`,
+        sectionCount: 0,
+      };
     }
 
-    console.log("🤖 Initializing Groq model...");
-    const model = new ChatGroq({
-      apiKey,
-      model: "llama-3.1-8b-instant", // Using Llama3.1 8B Instant
-      temperature: 0,
-    });
-    console.log("✅ Groq model initialized");
+    console.log(`🤖 Initializing ${llmConfig.provider} model...`);
+    const model = createChatModel({ temperature: 0 });
+    console.log("✅ Model initialized");
 
     // Create a prompt template for summarization with language output instructions
     console.log("📝 Creating prompt template...");
@@ -205,59 +262,30 @@ export async function generateSummary(formData: FormData): Promise<string> {
       ${languageConfig.outputLanguage} Summary:
     `);
 
-    // Prepare the text input (join chunks with reasonable limit)
-    console.log("🔄 Preparing text input for model...");
-    const combinedText = splits
-      .map((split: Document) => split.pageContent)
-      .join("\n\n")
-      .substring(0, 32000);
-    console.log(`📊 Combined text length: ${combinedText.length} characters`);
-
-    // Create a chain for the summarization process
-    console.log("⛓️ Creating processing chain...");
-    const chain = RunnableSequence.from([
-      summaryPrompt,
-      model,
-      new StringOutputParser(),
-    ]);
-
-    // Execute the chain
+    // Summarize the chunks, falling back to map-reduce for long documents
+    // so that content past the single-prompt limit is not dropped
     console.log(`🏃 Executing summarization chain in ${language}...`);
     console.time("summarization");
-    const summary = await chain.invoke({
-      text: combinedText,
+    const { summary, sectionCount } = await summarizeChunks(splits, {
+      model,
+      finalPrompt: summaryPrompt,
+      onToken: options.onToken,
+      signal: options.signal,
     });
     console.timeEnd("summarization");
-    console.log(`✅ Summary generated (${summary.length} characters)`);
-
-    // Clean up
-    if (tempFilePath) {
-      console.log("🧹 Cleaning up resources...");
-      if (fs.existsSync(tempFilePath)) {
-        fs.unlinkSync(tempFilePath);
-        console.log("✅ Temporary file removed");
-      }
-      console.log("✅ Resources cleaned up");
-    }
+    console.log(
+      `✅ Summary generated (${summary.length} characters from ${sectionCount} sections)`,
+    );
 
     console.log("🎉 Summary generation completed successfully");
-    return summary;
+    return { summary, sectionCount };
   } catch (error) {
     console.error("❌ Error generating summary:", error);
     console.error("Error details:", JSON.stringify(error, null, 2));
 
-    // Clean up temporary file in case of error
-    if (tempFilePath) {
-      try {
-        if (fs.existsSync(tempFilePath)) {
-          fs.unlinkSync(tempFilePath);
-          console.log("✅ Temporary file removed during error handling");
-        }
-      } catch (cleanupError) {
-        console.error("❌ Error cleaning up temporary file:", cleanupError);
-      }
-    }
-
-    return `Failed to generate summary: ${error instanceof Error ? error.message : String(error)}`;
+    return {
+      summary: `Failed to generate summary: ${error instanceof Error ? error.message : String(error)}`,
+      sectionCount: 0,
+    };
   }
 }
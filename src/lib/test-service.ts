@@ -1,5 +1,17 @@
 "use server";
 
+import { requireAdmin, requireUserId } from "@/lib/auth";
+import { assertDocumentAccess } from "@/lib/document-access";
+
+/**
+ * Diagnostics
+ *
+ * Server actions behind the debug buttons of the chat interface. Checks of
+ * one document require access to it, like every other action; checks that
+ * look at or rewrite the whole database are for administrators only (see
+ * ADMIN_EMAILS in auth.ts).
+ */
+
 /**
  * Simple test function to verify server actions are working
  */
@@ -7,6 +19,7 @@ export async function testServerAction(): Promise<{
   status: string;
   message: string;
 }> {
+  await requireUserId();
   console.log("✅ TEST: Server action was called successfully");
 
   try {
@@ -14,6 +27,8 @@ export async function testServerAction(): Promise<{
     const envVars = {
       JINA_API_KEY: process.env.JINA_API_KEY ? "Present" : "Missing",
       GROQ_API_KEY: process.env.GROQ_API_KEY ? "Present" : "Missing",
+      LLM_PROVIDER: process.env.LLM_PROVIDER || "groq (default)",
+      EMBEDDING_PROVIDER: process.env.EMBEDDING_PROVIDER || "jina (default)",
       NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL
         ? "Present"
         : "Missing",
@@ -49,6 +64,7 @@ export async function testDatabaseAccess(pdfId: string): Promise<{
     tables?: Record<string, unknown>[];
   };
 }> {
+  const userId = await requireUserId();
   console.log("✅ TEST: Database access check started");
 
   try {
@@ -69,6 +85,9 @@ export async function testDatabaseAccess(pdfId: string): Promise<{
     console.log("🔌 Connecting to Supabase...");
     const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Only documents the user owns or that were shared with them
+    await assertDocumentAccess(supabaseClient, [pdfId], userId);
+
     // Test basic connection by getting database schema
     const { data: tablesData, error: tablesError } = await supabaseClient
       .from("pg_tables")
@@ -102,7 +121,8 @@ export async function testDatabaseAccess(pdfId: string): Promise<{
     // Check if the table exists but no chunks for this PDF
     const { count: totalCount } = await supabaseClient
       .from("pdf_chunks")
-      .select("id", { count: "exact", head: true });
+      .select("id", { count: "exact", head: true })
+      .eq("metadata->>user_id", userId);
 
     // Check embeddings columns
     const { data: columnsData } = await supabaseClient
@@ -112,7 +132,7 @@ export async function testDatabaseAccess(pdfId: string): Promise<{
 
     return {
       status: "success",
-      message: `Database connection successful. Found ${chunksData?.length || 0} chunks for PDF ID ${pdfId} (out of ${totalCount || 0} total chunks)`,
+      message: `Database connection successful. Found ${chunksData?.length || 0} chunks for PDF ID ${pdfId} (out of ${totalCount || 0} chunks of yours)`,
       data: {
         sampleChunks: chunksData || [],
         columns: columnsData || [],
@@ -129,7 +149,7 @@ export async function testDatabaseAccess(pdfId: string): Promise<{
 }
 
 /**
- * Test Jina embeddings generation
+ * Test embedding generation with the configured provider
  */
 export async function testEmbeddings(): Promise<{
   status: string;
@@ -138,33 +158,29 @@ export async function testEmbeddings(): Promise<{
     embedding?: number[];
   };
 }> {
-  console.log("✅ TEST: Jina embeddings test started");
+  await requireUserId();
+  console.log("✅ TEST: Embeddings test started");
 
   try {
-    // Import JinaEmbeddings
-    const { JinaEmbeddings } = await import(
-      "@langchain/community/embeddings/jina"
+    const { createEmbeddings, getEmbeddingConfig } = await import(
+      "@/lib/embedding-provider"
     );
+    const config = getEmbeddingConfig();
 
-    // Check API key
-    const apiKey = process.env.JINA_API_KEY;
-    if (!apiKey) {
+    // Check API key (the local provider doesn't need one)
+    if (config.provider === "jina" && !process.env.JINA_API_KEY) {
       return {
         status: "error",
         message: "JINA_API_KEY environment variable is not set",
       };
     }
 
-    console.log("🧠 Creating Jina embeddings instance...");
-    // Initialize Jina embeddings
-    const embeddings = new JinaEmbeddings({
-      apiKey,
-      model: "jina-embeddings-v3", // Using Jina's latest embedding model with 1024 dimensions
-    });
+    console.log(`🧠 Creating ${config.provider} embeddings instance...`);
+    const embeddings = createEmbeddings(config);
 
     // Generate a test embedding
     console.log("🔄 Generating test embedding...");
-    const testText = "This is a test of the Jina embeddings API.";
+    const testText = `This is a test of the ${config.modelId} embeddings.`;
     const embedding = await embeddings.embedQuery(testText);
 
     // Check if embedding was generated successfully
@@ -175,6 +191,14 @@ export async function testEmbeddings(): Promise<{
       };
     }
 
+    // Vectors of the wrong size would be stored but never match a query
+    if (embedding.length !== config.dimensions) {
+      return {
+        status: "error",
+        message: `${config.modelId} produced ${embedding.length} dimensions, but EMBEDDING_DIMENSIONS expects ${config.dimensions}`,
+      };
+    }
+
     return {
       status: "success",
       message: `Successfully generated embedding with ${embedding.length} dimensions`,
@@ -201,13 +225,12 @@ export async function testVectorStore(pdfId: string): Promise<{
     retrievedDocs?: { content: string; metadata: Record<string, unknown> }[];
   };
 }> {
+  const userId = await requireUserId();
   console.log("✅ TEST: Supabase vector store test started");
 
   try {
     // Import required modules
-    const { JinaEmbeddings } = await import(
-      "@langchain/community/embeddings/jina"
-    );
+    const { createEmbeddings } = await import("@/lib/embedding-provider");
     const { SupabaseVectorStore } = await import(
       "@langchain/community/vectorstores/supabase"
     );
@@ -226,21 +249,12 @@ export async function testVectorStore(pdfId: string): Promise<{
 
     const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Check if JINA_API_KEY is set
-    const apiKey = process.env.JINA_API_KEY;
-    if (!apiKey) {
-      return {
-        status: "error",
-        message: "JINA_API_KEY environment variable is not set",
-      };
-    }
+    // Only documents the user owns or that were shared with them
+    await assertDocumentAccess(supabaseClient, [pdfId], userId);
 
-    // Initialize Jina embeddings
-    console.log("🧠 Creating Jina embeddings instance...");
-    const embeddings = new JinaEmbeddings({
-      apiKey,
-      model: "jina-embeddings-v3",
-    });
+    // Initialize the configured embedding model
+    console.log("🧠 Creating embeddings instance...");
+    const embeddings = createEmbeddings();
 
     // First check if there are chunks for this PDF
     console.log(`🔍 Checking for chunks with PDF ID: ${pdfId}`);
@@ -299,6 +313,7 @@ export async function testVectorStore(pdfId: string): Promise<{
       const { data: rawChunks } = await supabaseClient
         .from("pdf_chunks")
         .select("id, metadata")
+        .eq("metadata->>user_id", userId)
         .limit(5);
 
       console.log(
@@ -345,6 +360,7 @@ export async function checkDatabaseContent(): Promise<{
   message: string;
   data?: Record<string, unknown>;
 }> {
+  await requireAdmin();
   console.log("🔍 Starting basic database content check");
 
   try {
@@ -480,6 +496,7 @@ export async function checkMatchDocumentsFunction(): Promise<{
   status: string;
   message: string;
 }> {
+  await requireAdmin();
   console.log("🔍 Checking match_documents function");
 
   try {
@@ -566,14 +583,13 @@ export async function fixDatabaseEmbeddings(): Promise<{
   status: string;
   message: string;
 }> {
+  await requireAdmin();
   console.log("🔧 Starting database embedding fix");
 
   try {
     // Import required dependencies
     const { createClient } = await import("@supabase/supabase-js");
-    const { JinaEmbeddings } = await import(
-      "@langchain/community/embeddings/jina"
-    );
+    const { createEmbeddings } = await import("@/lib/embedding-provider");
     const { SupabaseVectorStore } = await import(
       "@langchain/community/vectorstores/supabase"
     );
@@ -616,20 +632,9 @@ export async function fixDatabaseEmbeddings(): Promise<{
 
     console.log(`📊 Found ${existingChunks.length} chunks to reprocess`);
 
-    // Initialize Jina embeddings
-    console.log("🧠 Creating Jina embeddings instance...");
-    const apiKey = process.env.JINA_API_KEY;
-    if (!apiKey) {
-      return {
-        status: "error",
-        message: "JINA_API_KEY environment variable is not set",
-      };
-    }
-
-    const embeddings = new JinaEmbeddings({
-      apiKey,
-      model: "jina-embeddings-v3",
-    });
+    // Initialize the configured embedding model
+    console.log("🧠 Creating embeddings instance...");
+    const embeddings = createEmbeddings();
 
     // Convert to Document objects
     const documents = existingChunks.map(
@@ -711,6 +716,7 @@ export async function testMatchDocumentsLowThreshold(): Promise<{
   status: string;
   message: string;
 }> {
+  await requireAdmin();
   console.log("🔍 Testing match_documents with low similarity threshold");
 
   try {
@@ -807,6 +813,7 @@ export async function inspectEmbeddingFormat(): Promise<{
     };
   };
 }> {
+  await requireAdmin();
   console.log("🔍 Inspecting embedding column format");
 
   try {
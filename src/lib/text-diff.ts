@@ -0,0 +1,182 @@
+/**
+ * Line-Based Text Diff
+ *
+ * Compares two texts line by line with Myers' algorithm, the one behind
+ * `git diff`, so the result is a shortest edit script. Shared between the
+ * server (which diffs document versions and summarizes the changes) and the
+ * client (which renders them), so it has no server-only imports.
+ */
+
+/**
+ * A run of consecutive lines that were added, removed or left unchanged
+ */
+export interface DiffPart {
+  type: "added" | "removed" | "unchanged";
+  lines: string[];
+}
+
+// Beyond this many edits the texts are treated as rewritten: everything
+// between the common start and end is shown as removed, then added. This
+// keeps memory bounded (the search stores O(edits²) numbers).
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Append a line to the parts, extending the last part if it has the same type
+ */
+function pushLine(parts: DiffPart[], type: DiffPart["type"], line: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.lines.push(line);
+  } else {
+    parts.push({ type, lines: [line] });
+  }
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers, "An O(ND) Difference
+ * Algorithm and Its Variations")
+ *
+ * @returns The edits in order, or null if they exceed MAX_EDIT_DISTANCE
+ */
+function myersDiff(a: string[], b: string[]): DiffPart[] | null {
+  const n = a.length;
+  const m = b.length;
+  const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = maxD + 1;
+
+  // v[k + offset]: furthest x reached on diagonal k (k = x - y)
+  const v = new Int32Array(2 * offset + 1);
+  // trace[d]: v for diagonals -d..d before step d, for the backtrack
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= maxD; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, d);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Walk the search trace back from the end to recover the edits
+ */
+function backtrack(
+  trace: Int32Array[],
+  a: string[],
+  b: string[],
+  editCount: number,
+): DiffPart[] {
+  const reversed: Array<[DiffPart["type"], string]> = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = editCount; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d];
+    const k = x - y;
+
+    let prevK = k;
+    if (d > 0) {
+      prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    }
+    const prevX = d > 0 ? at(prevK) : 0;
+    const prevY = prevX - prevK;
+
+    // Diagonal moves are lines both texts share
+    while (x > prevX && y > prevY) {
+      reversed.push(["unchanged", a[x - 1]]);
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (prevK === k + 1) {
+        reversed.push(["added", b[y - 1]]);
+      } else {
+        reversed.push(["removed", a[x - 1]]);
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  const parts: DiffPart[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) {
+    pushLine(parts, reversed[i][0], reversed[i][1]);
+  }
+  return parts;
+}
+
+/**
+ * Compare two texts line by line
+ *
+ * @returns Runs of added, removed and unchanged lines, in order
+ */
+export function diffLines(oldText: string, newText: string): DiffPart[] {
+  const a = oldText.split("\n");
+  const b = newText.split("\n");
+
+  // Lines shared at the start and the end don't need the search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const middleA = a.slice(start, a.length - end);
+  const middleB = b.slice(start, b.length - end);
+  const middle = myersDiff(middleA, middleB) ?? [
+    { type: "removed" as const, lines: middleA },
+    { type: "added" as const, lines: middleB },
+  ];
+
+  const parts: DiffPart[] = [];
+  a.slice(0, start).forEach((line) => pushLine(parts, "unchanged", line));
+  middle.forEach((part) =>
+    part.lines.forEach((line) => pushLine(parts, part.type, line)),
+  );
+  a.slice(a.length - end).forEach((line) => pushLine(parts, "unchanged", line));
+
+  return parts;
+}
+
+/**
+ * Collect the non-empty lines that were added and removed
+ */
+export function changedLines(parts: DiffPart[]): {
+  added: string[];
+  removed: string[];
+} {
+  const collect = (type: DiffPart["type"]) =>
+    parts
+      .filter((part) => part.type === type)
+      .flatMap((part) => part.lines)
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+  return { added: collect("added"), removed: collect("removed") };
+}
@@ -0,0 +1,123 @@
+/**
+ * Subtitle and Transcript Parsing
+ *
+ * Reads WebVTT (.vtt) and SubRip (.srt) files into timed cues, and formats
+ * cue times for citations. Shared between the document loaders (server) and
+ * the citation footnotes (client), so it has no server-only imports.
+ */
+
+/**
+ * A timed piece of a transcript
+ * - start/end: Time range in seconds from the start of the recording
+ * - text: What was said, with the speaker's name first when known
+ */
+export interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Matches the timing line of a cue, e.g. "00:12:41.000 --> 00:12:45.500"
+const TIMING_LINE =
+  /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/**
+ * Parse a cue timestamp ("hh:mm:ss.mmm", "mm:ss.mmm" or SubRip's
+ * "hh:mm:ss,mmm") into seconds
+ */
+export function parseTimestamp(value: string): number {
+  const [clock, fraction = "0"] = value.replace(",", ".").split(".");
+  const seconds = clock
+    .split(":")
+    .reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds + Number(`0.${fraction}`);
+}
+
+/**
+ * Format seconds as "m:ss", or "h:mm:ss" for times past the first hour
+ */
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${rest}`
+    : `${minutes}:${rest}`;
+}
+
+/**
+ * Remove markup from cue text, keeping WebVTT speaker names
+ * ("<v Alice>Hi" becomes "Alice: Hi")
+ */
+function cleanCueText(lines: string[]): string {
+  return lines
+    .join(" ")
+    .replace(/<v(?:\.[^\s>]+)?\s+([^>]+)>/g, "$1: ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Parse a WebVTT or SubRip file into cues
+ *
+ * Blocks without a timing line (the WEBVTT header, NOTE, STYLE and REGION
+ * blocks) are skipped, as are cues without text.
+ */
+export function parseSubtitles(content: string): Cue[] {
+  const cues: Cue[] = [];
+
+  for (const block of content.replace(/\r\n?/g, "\n").split(/\n{2,}/)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = lines[timingIndex].match(TIMING_LINE)!;
+    const text = cleanCueText(lines.slice(timingIndex + 1));
+    if (text) {
+      cues.push({
+        start: parseTimestamp(start),
+        end: parseTimestamp(end),
+        text,
+      });
+    }
+  }
+
+  return cues;
+}
+
+// Largest transcript passage. Passages are chunks of their own whatever the
+// chunking strategy (see chunking.ts), so they always start and end on a cue
+export const TRANSCRIPT_PASSAGE_CHARS = 1000;
+
+/**
+ * Merge consecutive cues into passages of at most charLimit characters
+ *
+ * Passages always start and end on cue boundaries, so their time range
+ * covers exactly the cues they contain. A single cue longer than the limit
+ * becomes a passage of its own.
+ */
+export function groupCues(cues: Cue[], charLimit: number): Cue[] {
+  const passages: Cue[] = [];
+  let current: Cue | null = null;
+
+  for (const cue of cues) {
+    if (current && current.text.length + 1 + cue.text.length <= charLimit) {
+      current.text += `\n${cue.text}`;
+      current.end = cue.end;
+    } else {
+      if (current) passages.push(current);
+      current = { ...cue };
+    }
+  }
+
+  if (current) passages.push(current);
+  return passages;
+}
@@ -0,0 +1,351 @@
+import { Document } from "@langchain/core/documents";
+import { load as loadHtml } from "cheerio";
+import { toReadableDocument } from "@/lib/readable-content";
+
+/**
+ * Website Crawler
+ *
+ * Collects many pages of a site into documents, either by following links
+ * from a start page or by reading the site's sitemap. The crawl:
+ * - Stays on the start URL's origin, also when a page redirects
+ * - Honours robots.txt (Allow/Disallow rules and Crawl-delay) for our user agent
+ * - Stops at a maximum link depth and a maximum number of pages
+ * Configured with environment variables:
+ * - CRAWL_MAX_DEPTH: Largest link depth a request may ask for (default 3)
+ * - CRAWL_MAX_PAGES: Largest number of pages a request may ask for (default 50)
+ *
+ * Only plain HTTP requests are made, so a crawl can be pointed at a local
+ * fixture server.
+ *
+ * This module is server-only but deliberately not a "use server" file, so
+ * the helpers below are not exposed as server actions.
+ */
+
+export type CrawlMode = "single" | "links" | "sitemap";
+
+export const CRAWL_USER_AGENT = "GlanceBuddyBot/1.0";
+
+// Defaults used when a request doesn't set its own limits
+export const DEFAULT_CRAWL_DEPTH = 2;
+export const DEFAULT_CRAWL_PAGES = 25;
+
+// Longest Crawl-delay honoured, so a hostile robots.txt can't stall a crawl
+const MAX_CRAWL_DELAY_MS = 5000;
+
+// Longest wait for one response, so a host that never answers can't either
+const FETCH_TIMEOUT_MS = 15 * 1000;
+
+// Sitemap indexes can nest; stop following them after this many levels
+const MAX_SITEMAP_NESTING = 3;
+
+/**
+ * Options for crawlWebsite
+ * - mode: "links" follows same-origin links, "sitemap" reads sitemap.xml
+ * - maxDepth: How many links away from the start page to go ("links" mode)
+ * - maxPages: Largest number of pages to collect
+ */
+export interface CrawlOptions {
+  mode: Exclude<CrawlMode, "single">;
+  maxDepth?: number;
+  maxPages?: number;
+}
+
+/**
+ * The rules in robots.txt that apply to our user agent
+ */
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs: number;
+  sitemaps: string[];
+}
+
+/**
+ * Clamp requested limits to the deployment's maximums
+ */
+export function resolveCrawlLimits(
+  maxDepth?: number,
+  maxPages?: number,
+): { maxDepth: number; maxPages: number } {
+  const depthLimit = Number(process.env.CRAWL_MAX_DEPTH) || 3;
+  const pageLimit = Number(process.env.CRAWL_MAX_PAGES) || 50;
+
+  return {
+    maxDepth: Math.min(
+      Math.max(maxDepth ?? DEFAULT_CRAWL_DEPTH, 0),
+      depthLimit,
+    ),
+    maxPages: Math.min(Math.max(maxPages ?? DEFAULT_CRAWL_PAGES, 1), pageLimit),
+  };
+}
+
+/**
+ * Fetch a URL of the crawled site as our crawler
+ *
+ * @returns The response, or null if the request failed, timed out or was
+ *   redirected to another origin
+ */
+async function fetchAsCrawler(
+  url: string,
+  origin: string,
+): Promise<Response | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": CRAWL_USER_AGENT },
+      redirect: "follow",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (response.url && new URL(response.url).origin !== origin) {
+      console.warn(`⚠️ Skipping ${url} (redirected to ${response.url})`);
+      return null;
+    }
+    return response.ok ? response : null;
+  } catch (error) {
+    console.warn(`⚠️ Could not fetch ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Parse robots.txt, keeping the group for our user agent, or the "*" group
+ * if there is none
+ */
+export function parseRobotsTxt(content: string): RobotsRules {
+  const ownAgent = CRAWL_USER_AGENT.split("/")[0].toLowerCase();
+  const groups: Array<{ agents: string[]; lines: string[][] }> = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; lines: string[][] } | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "sitemap") {
+      sitemaps.push(value);
+    } else if (field === "user-agent") {
+      // Consecutive User-agent lines share one group of rules
+      if (!current || current.lines.length > 0) {
+        current = { agents: [], lines: [] };
+        groups.push(current);
+      }
+      // An empty User-agent names no crawler, so it can't match ours
+      if (value) {
+        current.agents.push(value.toLowerCase());
+      }
+    } else if (current) {
+      current.lines.push([field, value]);
+    }
+  }
+
+  const group =
+    groups.find((g) => g.agents.some((agent) => ownAgent.includes(agent))) ??
+    groups.find((g) => g.agents.includes("*"));
+  const rules: RobotsRules = {
+    allow: [],
+    disallow: [],
+    crawlDelayMs: 0,
+    sitemaps,
+  };
+
+  for (const [field, value] of group?.lines ?? []) {
+    if (field === "allow" && value) rules.allow.push(value);
+    if (field === "disallow" && value) rules.disallow.push(value);
+    if (field === "crawl-delay") {
+      rules.crawlDelayMs = Math.min(
+        Number(value) * 1000 || 0,
+        MAX_CRAWL_DELAY_MS,
+      );
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Check a robots.txt path pattern ("*" wildcards, "$" end anchor) against a path
+ */
+function matchesRobotsPattern(pattern: string, pathname: string): boolean {
+  const regex = pattern
+    .replace(/[.+?^{}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\\\$$|\$$/, "$");
+  return new RegExp(`^${regex}`).test(pathname);
+}
+
+/**
+ * Check whether robots.txt lets us fetch a URL; the longest matching rule
+ * wins, and Allow wins a tie
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const target = `${pathname}${search}`;
+  const longest = (patterns: string[]) =>
+    Math.max(
+      -1,
+      ...patterns
+        .filter((pattern) => matchesRobotsPattern(pattern, target))
+        .map((pattern) => pattern.length),
+    );
+
+  return longest(rules.allow) >= longest(rules.disallow);
+}
+
+/**
+ * Find the same-origin links on a page, without fragments
+ */
+function extractLinks(html: string, pageUrl: string, origin: string): string[] {
+  const $ = loadHtml(html);
+  const links = new Set<string>();
+
+  $("a[href]").each((_, element) => {
+    try {
+      const link = new URL($(element).attr("href") as string, pageUrl);
+      link.hash = "";
+      if (link.origin === origin && /^https?:$/.test(link.protocol)) {
+        links.add(link.toString());
+      }
+    } catch {
+      // Ignore malformed links
+    }
+  });
+
+  return [...links];
+}
+
+/**
+ * Read page URLs from a sitemap, following nested sitemap indexes
+ */
+async function readSitemap(
+  sitemapUrl: string,
+  origin: string,
+  limit: number,
+  nesting = 0,
+): Promise<string[]> {
+  const response = await fetchAsCrawler(sitemapUrl, origin);
+  if (!response) return [];
+
+  const $ = loadHtml(await response.text(), { xmlMode: true });
+  const urls: string[] = [];
+
+  // A sitemap index lists other sitemaps instead of pages
+  const nestedSitemaps = $("sitemapindex > sitemap > loc")
+    .map((_, element) => $(element).text().trim())
+    .get();
+  if (nestedSitemaps.length > 0 && nesting < MAX_SITEMAP_NESTING) {
+    for (const nested of nestedSitemaps) {
+      if (urls.length >= limit) break;
+      urls.push(
+        ...(await readSitemap(
+          nested,
+          origin,
+          limit - urls.length,
+          nesting + 1,
+        )),
+      );
+    }
+    return urls;
+  }
+
+  $("urlset > url > loc").each((_, element) => {
+    const loc = $(element).text().trim();
+    try {
+      if (urls.length < limit && new URL(loc).origin === origin) {
+        urls.push(loc);
+      }
+    } catch {
+      // Ignore malformed entries
+    }
+  });
+
+  return urls;
+}
+
+/**
+ * Crawl a website into one document per page
+ *
+ * Each document holds the page's readable content (see readable-content.ts),
+ * with the page URL as its source.
+ *
+ * @param startUrl - The page to start from, or the sitemap URL in "sitemap" mode
+ * @param options - Crawl mode and limits (clamped by resolveCrawlLimits)
+ */
+export async function crawlWebsite(
+  startUrl: string,
+  options: CrawlOptions,
+): Promise<Document[]> {
+  const { maxDepth, maxPages } = resolveCrawlLimits(
+    options.maxDepth,
+    options.maxPages,
+  );
+  const start = new URL(startUrl);
+  const origin = start.origin;
+
+  console.log(
+    `🕷️ Crawling ${origin} (${options.mode}, depth ${maxDepth}, up to ${maxPages} pages)`,
+  );
+
+  // Step 1: Read robots.txt (a missing file allows everything)
+  const robotsResponse = await fetchAsCrawler(`${origin}/robots.txt`, origin);
+  const robots = parseRobotsTxt(
+    robotsResponse ? await robotsResponse.text() : "",
+  );
+
+  // Step 2: Build the initial queue of pages
+  let queue: Array<{ url: string; depth: number }> = [];
+  if (options.mode === "sitemap") {
+    const sitemapUrl = start.pathname.endsWith(".xml")
+      ? start.toString()
+      : new URL(robots.sitemaps[0] ?? "/sitemap.xml", origin).toString();
+    const urls = await readSitemap(sitemapUrl, origin, maxPages);
+    console.log(`🗺️ Sitemap lists ${urls.length} pages`);
+    queue = urls.map((url) => ({ url, depth: 0 }));
+  } else {
+    start.hash = "";
+    queue = [{ url: start.toString(), depth: 0 }];
+  }
+
+  // Step 3: Fetch pages breadth-first until a limit is reached
+  const seen = new Set(queue.map((item) => item.url));
+  const docs: Document[] = [];
+
+  while (queue.length > 0 && docs.length < maxPages) {
+    const { url, depth } = queue.shift()!;
+
+    if (!isAllowedByRobots(robots, url)) {
+      console.log(`🚫 Skipping ${url} (disallowed by robots.txt)`);
+      continue;
+    }
+
+    if (robots.crawlDelayMs > 0 && docs.length > 0) {
+      await new Promise((resolve) => setTimeout(resolve, robots.crawlDelayMs));
+    }
+
+    const response = await fetchAsCrawler(url, origin);
+    if (!response?.headers.get("content-type")?.includes("text/html")) {
+      continue;
+    }
+
+    const html = await response.text();
+    const doc = toReadableDocument(html, url);
+    if (doc.pageContent) {
+      docs.push(doc);
+      console.log(`📄 Crawled ${url} (${doc.pageContent.length} characters)`);
+    }
+
+    if (options.mode === "links" && depth < maxDepth) {
+      for (const link of extractLinks(html, url, origin)) {
+        if (!seen.has(link)) {
+          seen.add(link);
+          queue.push({ url: link, depth: depth + 1 });
+        }
+      }
+    }
+  }
+
+  console.log(`✅ Crawl finished with ${docs.length} pages`);
+  return docs;
+}
@@ -0,0 +1,32 @@
+-- Return cosine similarity from match_pdf_chunks so chat answers can cite
+-- their sources together with how closely each one matched the question.
+-- The return type changes, so the old function has to be dropped first.
+
+DROP FUNCTION IF EXISTS match_pdf_chunks(vector, text, int);
+
+CREATE OR REPLACE FUNCTION match_pdf_chunks(
+  query_vector vector(1024),
+  pdf_id_filter text,
+  match_limit int DEFAULT 5
+) RETURNS TABLE (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity float
+) LANGUAGE sql AS $$
+  SELECT
+    id::text,
+    content,
+    metadata,
+    1 - (embedding <=> query_vector) AS similarity
+  FROM
+    pdf_chunks
+  WHERE
+    metadata->>'pdf_id' = pdf_id_filter
+  ORDER BY
+    embedding <=> query_vector
+  LIMIT
+    match_limit;
+$$;
+
+COMMENT ON FUNCTION match_pdf_chunks IS 'Function for semantic search over PDF chunks with embeddings';
@@ -0,0 +1,51 @@
+-- Multi-document chat
+-- 1. A match function that searches several documents at once
+-- 2. A pdf_ids column so conversations over a set of documents keep their history
+
+-- Returns the closest chunks across a set of documents. Each document
+-- contributes at most per_document_limit chunks, so one large document
+-- cannot crowd the others out of a comparison question.
+CREATE OR REPLACE FUNCTION match_pdf_chunks_multi(
+  query_vector vector(1024),
+  pdf_id_filters text[],
+  match_limit int DEFAULT 10,
+  per_document_limit int DEFAULT 4
+) RETURNS TABLE (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity float
+) LANGUAGE sql AS $$
+  SELECT
+    ranked.id,
+    ranked.content,
+    ranked.metadata,
+    ranked.similarity
+  FROM (
+    SELECT
+      id::text AS id,
+      content,
+      metadata,
+      1 - (embedding <=> query_vector) AS similarity,
+      ROW_NUMBER() OVER (
+        PARTITION BY metadata->>'pdf_id'
+        ORDER BY embedding <=> query_vector
+      ) AS document_rank
+    FROM
+      pdf_chunks
+    WHERE
+      metadata->>'pdf_id' = ANY(pdf_id_filters)
+  ) ranked
+  WHERE
+    ranked.document_rank <= per_document_limit
+  ORDER BY
+    ranked.similarity DESC
+  LIMIT
+    match_limit;
+$$;
+
+COMMENT ON FUNCTION match_pdf_chunks_multi IS 'Function for semantic search over the chunks of several documents at once';
+
+-- Conversations over several documents are stored with pdf_id left empty
+-- and the full (sorted) set of document IDs in pdf_ids
+ALTER TABLE chat_history ADD COLUMN IF NOT EXISTS pdf_ids TEXT[];
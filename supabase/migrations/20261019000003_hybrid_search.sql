@@ -0,0 +1,75 @@
+-- Hybrid keyword + vector retrieval
+-- Pure cosine search misses exact identifiers such as part numbers, clause
+-- numbers and acronyms, so chunks also get a full-text search vector.
+
+-- 1. Full-text search column, kept in sync with content automatically.
+--    The 'simple' configuration does no stemming or stop-word removal, which
+--    keeps identifiers intact and works for non-English content as well.
+ALTER TABLE pdf_chunks
+  ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS pdf_chunks_content_tsv_idx ON pdf_chunks
+USING gin (content_tsv);
+
+-- 2. Hybrid match function
+--    search_mode selects 'vector', 'keyword' or 'hybrid'. In hybrid mode the
+--    vector and keyword rankings are merged with reciprocal rank fusion:
+--    score = 1 / (rrf_k + vector_rank) + 1 / (rrf_k + keyword_rank)
+CREATE OR REPLACE FUNCTION match_pdf_chunks_hybrid(
+  query_vector vector(1024),
+  query_text text,
+  pdf_id_filters text[],
+  match_limit int DEFAULT 5,
+  search_mode text DEFAULT 'hybrid',
+  rrf_k int DEFAULT 60
+) RETURNS TABLE (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity float,
+  keyword_rank float,
+  score float
+) LANGUAGE sql AS $$
+  WITH candidates AS (
+    SELECT pc.id, pc.embedding, pc.content_tsv
+    FROM pdf_chunks pc
+    WHERE pc.metadata->>'pdf_id' = ANY(pdf_id_filters)
+  ),
+  vector_matches AS (
+    SELECT
+      c.id,
+      1 - (c.embedding <=> query_vector) AS similarity,
+      ROW_NUMBER() OVER (ORDER BY c.embedding <=> query_vector) AS rank
+    FROM candidates c
+    WHERE search_mode <> 'keyword' AND query_vector IS NOT NULL
+    ORDER BY c.embedding <=> query_vector
+    LIMIT match_limit * 4
+  ),
+  keyword_matches AS (
+    SELECT
+      c.id,
+      ts_rank_cd(c.content_tsv, q.query, 1) AS keyword_rank,
+      ROW_NUMBER() OVER (
+        ORDER BY ts_rank_cd(c.content_tsv, q.query, 1) DESC
+      ) AS rank
+    FROM candidates c, websearch_to_tsquery('simple', query_text) AS q(query)
+    WHERE search_mode <> 'vector' AND c.content_tsv @@ q.query
+    ORDER BY keyword_rank DESC
+    LIMIT match_limit * 4
+  )
+  SELECT
+    pc.id::text,
+    pc.content,
+    pc.metadata,
+    v.similarity,
+    k.keyword_rank,
+    COALESCE(1.0 / (rrf_k + v.rank), 0) + COALESCE(1.0 / (rrf_k + k.rank), 0) AS score
+  FROM vector_matches v
+  FULL OUTER JOIN keyword_matches k ON v.id = k.id
+  JOIN pdf_chunks pc ON pc.id = COALESCE(v.id, k.id)
+  ORDER BY score DESC
+  LIMIT match_limit;
+$$;
+
+COMMENT ON FUNCTION match_pdf_chunks_hybrid IS 'Function for keyword, vector or hybrid (reciprocal rank fusion) search over document chunks';
@@ -0,0 +1,165 @@
+-- Pluggable embedding models
+-- Chunks record which model and dimension produced their vector, the
+-- embedding column accepts any dimension, and every match function can be
+-- restricted to a single model so vectors from different models are never
+-- compared with each other.
+
+-- 1. Record the model on existing chunks, which were all embedded with Jina v3
+UPDATE pdf_chunks
+SET metadata = COALESCE(metadata, '{}'::jsonb) || '{"embedding_model": "jina:jina-embeddings-v3"}'::jsonb
+WHERE metadata IS NULL OR NOT metadata ? 'embedding_model';
+
+-- 2. Allow vectors of any dimension. The ivfflat index requires a fixed
+--    dimension, so it is dropped; searches are always filtered to one or a
+--    few documents, where a sequential scan over their chunks is exact.
+DROP INDEX IF EXISTS pdf_chunks_embedding_idx;
+
+ALTER TABLE pdf_chunks ALTER COLUMN embedding TYPE vector;
+
+-- 3. Model and dimension columns, derived from the metadata written by the
+--    app and from the vector itself
+ALTER TABLE pdf_chunks
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT
+  GENERATED ALWAYS AS (metadata->>'embedding_model') STORED;
+
+ALTER TABLE pdf_chunks
+  ADD COLUMN IF NOT EXISTS embedding_dimensions INT
+  GENERATED ALWAYS AS (vector_dims(embedding)) STORED;
+
+CREATE INDEX IF NOT EXISTS pdf_chunks_embedding_model_idx ON pdf_chunks (embedding_model);
+
+-- 4. Recreate the match functions with an untyped query vector and an
+--    optional model filter
+DROP FUNCTION IF EXISTS match_pdf_chunks(vector, text, int);
+DROP FUNCTION IF EXISTS match_pdf_chunks_multi(vector, text[], int, int);
+DROP FUNCTION IF EXISTS match_pdf_chunks_hybrid(vector, text, text[], int, text, int);
+
+CREATE OR REPLACE FUNCTION match_pdf_chunks(
+  query_vector vector,
+  pdf_id_filter text,
+  match_limit int DEFAULT 5,
+  embedding_model_filter text DEFAULT NULL
+) RETURNS TABLE (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity float
+) LANGUAGE sql AS $$
+  SELECT
+    id::text,
+    content,
+    metadata,
+    1 - (embedding <=> query_vector) AS similarity
+  FROM
+    pdf_chunks
+  WHERE
+    metadata->>'pdf_id' = pdf_id_filter
+    AND (embedding_model_filter IS NULL OR embedding_model = embedding_model_filter)
+  ORDER BY
+    embedding <=> query_vector
+  LIMIT
+    match_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION match_pdf_chunks_multi(
+  query_vector vector,
+  pdf_id_filters text[],
+  match_limit int DEFAULT 10,
+  per_document_limit int DEFAULT 4,
+  embedding_model_filter text DEFAULT NULL
+) RETURNS TABLE (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity float
+) LANGUAGE sql AS $$
+  SELECT
+    ranked.id,
+    ranked.content,
+    ranked.metadata,
+    ranked.similarity
+  FROM (
+    SELECT
+      id::text AS id,
+      content,
+      metadata,
+      1 - (embedding <=> query_vector) AS similarity,
+      ROW_NUMBER() OVER (
+        PARTITION BY metadata->>'pdf_id'
+        ORDER BY embedding <=> query_vector
+      ) AS document_rank
+    FROM
+      pdf_chunks
+    WHERE
+      metadata->>'pdf_id' = ANY(pdf_id_filters)
+      AND (embedding_model_filter IS NULL OR embedding_model = embedding_model_filter)
+  ) ranked
+  WHERE
+    ranked.document_rank <= per_document_limit
+  ORDER BY
+    ranked.similarity DESC
+  LIMIT
+    match_limit;
+$$;
+
+CREATE OR REPLACE FUNCTION match_pdf_chunks_hybrid(
+  query_vector vector,
+  query_text text,
+  pdf_id_filters text[],
+  match_limit int DEFAULT 5,
+  search_mode text DEFAULT 'hybrid',
+  rrf_k int DEFAULT 60,
+  embedding_model_filter text DEFAULT NULL
+) RETURNS TABLE (
+  id text,
+  content text,
+  metadata jsonb,
+  similarity float,
+  keyword_rank float,
+  score float
+) LANGUAGE sql AS $$
+  WITH candidates AS (
+    SELECT pc.id, pc.embedding, pc.content_tsv
+    FROM pdf_chunks pc
+    WHERE pc.metadata->>'pdf_id' = ANY(pdf_id_filters)
+      AND (embedding_model_filter IS NULL OR pc.embedding_model = embedding_model_filter)
+  ),
+  vector_matches AS (
+    SELECT
+      c.id,
+      1 - (c.embedding <=> query_vector) AS similarity,
+      ROW_NUMBER() OVER (ORDER BY c.embedding <=> query_vector) AS rank
+    FROM candidates c
+    WHERE search_mode <> 'keyword' AND query_vector IS NOT NULL
+    ORDER BY c.embedding <=> query_vector
+    LIMIT match_limit * 4
+  ),
+  keyword_matches AS (
+    SELECT
+      c.id,
+      ts_rank_cd(c.content_tsv, q.query, 1) AS keyword_rank,
+      ROW_NUMBER() OVER (
+        ORDER BY ts_rank_cd(c.content_tsv, q.query, 1) DESC
+      ) AS rank
+    FROM candidates c, websearch_to_tsquery('simple', query_text) AS q(query)
+    WHERE search_mode <> 'vector' AND c.content_tsv @@ q.query
+    ORDER BY keyword_rank DESC
+    LIMIT match_limit * 4
+  )
+  SELECT
+    pc.id::text,
+    pc.content,
+    pc.metadata,
+    v.similarity,
+    k.keyword_rank,
+    COALESCE(1.0 / (rrf_k + v.rank), 0) + COALESCE(1.0 / (rrf_k + k.rank), 0) AS score
+  FROM vector_matches v
+  FULL OUTER JOIN keyword_matches k ON v.id = k.id
+  JOIN pdf_chunks pc ON pc.id = COALESCE(v.id, k.id)
+  ORDER BY score DESC
+  LIMIT match_limit;
+$$;
+
+COMMENT ON FUNCTION match_pdf_chunks IS 'Function for semantic search over PDF chunks with embeddings';
+COMMENT ON FUNCTION match_pdf_chunks_multi IS 'Function for semantic search over the chunks of several documents at once';
+COMMENT ON FUNCTION match_pdf_chunks_hybrid IS 'Function for keyword, vector or hybrid (reciprocal rank fusion) search over document chunks';
@@ -0,0 +1,96 @@
+-- Row-level security and document sharing
+-- Users can only see documents they own or that were shared with them, and
+-- only their own chat history. The server actions use the service-role key,
+-- which bypasses these policies, and check the same rules in
+-- src/lib/document-access.ts; the policies protect every other client,
+-- such as the browser with the anon key.
+
+-- 1. Documents shared with other users (read-only access)
+CREATE TABLE IF NOT EXISTS pdf_shares (
+  pdf_id UUID NOT NULL REFERENCES pdfs(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (pdf_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS pdf_shares_user_id_idx ON pdf_shares (user_id);
+
+-- 2. Access helpers. SECURITY DEFINER lets the policies look up ownership
+--    and shares without recursing into the policies of those tables.
+CREATE OR REPLACE FUNCTION owns_pdf(document_id uuid)
+RETURNS boolean LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM pdfs
+    WHERE id = document_id AND user_id = auth.uid()::text
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION can_read_pdf(document_id uuid)
+RETURNS boolean LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT owns_pdf(document_id) OR EXISTS (
+    SELECT 1 FROM pdf_shares
+    WHERE pdf_id = document_id AND user_id = auth.uid()::text
+  );
+$$;
+
+-- Used by the share action to find the recipient; only the service role may call it
+CREATE OR REPLACE FUNCTION find_user_id_by_email(user_email text)
+RETURNS text LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, auth AS $$
+  SELECT id::text FROM auth.users WHERE lower(email) = lower(user_email) LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_user_id_by_email(text) FROM PUBLIC, anon, authenticated;
+
+-- 3. Enable row-level security
+ALTER TABLE pdfs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pdf_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pdf_shares ENABLE ROW LEVEL SECURITY;
+
+-- 4. pdfs: read if owned or shared, write only your own
+CREATE POLICY "Read own and shared documents" ON pdfs
+  FOR SELECT USING (user_id = auth.uid()::text OR can_read_pdf(id));
+
+CREATE POLICY "Insert own documents" ON pdfs
+  FOR INSERT WITH CHECK (user_id = auth.uid()::text);
+
+CREATE POLICY "Update own documents" ON pdfs
+  FOR UPDATE USING (user_id = auth.uid()::text)
+  WITH CHECK (user_id = auth.uid()::text);
+
+CREATE POLICY "Delete own documents" ON pdfs
+  FOR DELETE USING (user_id = auth.uid()::text);
+
+-- 5. pdf_chunks: follow the document they belong to (linked through metadata)
+CREATE POLICY "Read chunks of readable documents" ON pdf_chunks
+  FOR SELECT USING (can_read_pdf((metadata->>'pdf_id')::uuid));
+
+CREATE POLICY "Insert chunks of own documents" ON pdf_chunks
+  FOR INSERT WITH CHECK (owns_pdf((metadata->>'pdf_id')::uuid));
+
+CREATE POLICY "Delete chunks of own documents" ON pdf_chunks
+  FOR DELETE USING (owns_pdf((metadata->>'pdf_id')::uuid));
+
+-- 6. chat_history: every user only sees and writes their own conversations
+CREATE POLICY "Read own chat history" ON chat_history
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+CREATE POLICY "Insert own chat history" ON chat_history
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()::text
+    AND (pdf_id IS NULL OR can_read_pdf(pdf_id))
+  );
+
+CREATE POLICY "Delete own chat history" ON chat_history
+  FOR DELETE USING (user_id = auth.uid()::text);
+
+-- 7. pdf_shares: owners manage the shares of their documents, recipients
+--    can see what was shared with them
+CREATE POLICY "Read own shares" ON pdf_shares
+  FOR SELECT USING (user_id = auth.uid()::text OR owns_pdf(pdf_id));
+
+CREATE POLICY "Owners share documents" ON pdf_shares
+  FOR INSERT WITH CHECK (owns_pdf(pdf_id));
+
+CREATE POLICY "Owners unshare documents" ON pdf_shares
+  FOR DELETE USING (owns_pdf(pdf_id));
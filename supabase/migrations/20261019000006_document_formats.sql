@@ -0,0 +1,20 @@
+-- Document formats
+-- Uploads can be PDF, Word (docx), PowerPoint (pptx) or Excel (xlsx) files.
+-- The original format is stored on the document; existing rows are PDFs
+-- unless they came from a link.
+
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS format TEXT;
+
+UPDATE pdfs
+SET format = CASE
+  WHEN EXISTS (
+    SELECT 1 FROM pdf_chunks
+    WHERE pdf_chunks.metadata->>'pdf_id' = pdfs.id::text
+      AND pdf_chunks.metadata->>'source_type' = 'link'
+  ) THEN 'link'
+  ELSE 'pdf'
+END
+WHERE format IS NULL;
+
+ALTER TABLE pdfs ALTER COLUMN format SET DEFAULT 'pdf';
+ALTER TABLE pdfs ALTER COLUMN format SET NOT NULL;
@@ -0,0 +1,52 @@
+-- RSS/Atom feed subscriptions
+-- Users subscribe to feeds; a scheduled job polls them and ingests new
+-- entries as links. Every ingested entry is remembered so it is never
+-- ingested twice, and its document is tagged with the feed name.
+
+-- 1. Labels on documents (feed entries carry the name of their feed)
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS tags TEXT[] DEFAULT '{}' NOT NULL;
+
+CREATE INDEX IF NOT EXISTS pdfs_tags_idx ON pdfs USING gin (tags);
+
+-- 2. Feeds each user follows
+CREATE TABLE IF NOT EXISTS feed_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  name TEXT NOT NULL,
+  poll_interval_minutes INTEGER DEFAULT 60 NOT NULL CHECK (poll_interval_minutes > 0),
+  last_polled_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, url)
+);
+
+-- 3. Entries already seen in each feed, with the document they became
+CREATE TABLE IF NOT EXISTS feed_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  feed_id UUID NOT NULL REFERENCES feed_subscriptions(id) ON DELETE CASCADE,
+  guid TEXT NOT NULL,
+  link TEXT NOT NULL,
+  title TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  pdf_id UUID REFERENCES pdfs(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (feed_id, guid)
+);
+
+-- 4. Row-level security: users only see their own subscriptions and entries
+ALTER TABLE feed_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feed_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Manage own feed subscriptions" ON feed_subscriptions
+  FOR ALL USING (user_id = auth.uid()::text)
+  WITH CHECK (user_id = auth.uid()::text);
+
+CREATE POLICY "Read entries of own feeds" ON feed_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM feed_subscriptions
+      WHERE feed_subscriptions.id = feed_items.feed_id
+        AND feed_subscriptions.user_id = auth.uid()::text
+    )
+  );
@@ -0,0 +1,20 @@
+-- Link refreshes
+-- Saved links can be re-fetched to pick up changes to the page. The URL and
+-- the crawl options are kept so a refresh loads the link the same way, and
+-- each link can be refreshed on its own schedule.
+
+-- 1. Where a link was loaded from, and how
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS source_url TEXT;
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS crawl_options JSONB DEFAULT '{}' NOT NULL;
+
+-- Links saved before this migration were named after their URL
+UPDATE pdfs SET source_url = name WHERE format = 'link' AND source_url IS NULL;
+
+-- 2. Refresh schedule (NULL means manual refreshes only) and last result
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS refresh_interval_minutes INTEGER
+  CHECK (refresh_interval_minutes IS NULL OR refresh_interval_minutes > 0);
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS last_refreshed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS last_change_summary TEXT;
+
+CREATE INDEX IF NOT EXISTS pdfs_refresh_schedule_idx ON pdfs (refresh_interval_minutes)
+  WHERE refresh_interval_minutes IS NOT NULL;
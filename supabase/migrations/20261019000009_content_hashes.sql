@@ -0,0 +1,22 @@
+-- Content hashes for duplicate detection
+-- Documents store SHA-256 hashes (hex) of their file bytes and of their
+-- normalized text, so re-uploads are recognized before they are embedded.
+-- See src/lib/deduplication.ts.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS file_sha256 TEXT;
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS content_sha256 TEXT;
+
+-- Existing documents only get a text hash: their original bytes aren't kept.
+-- Same normalization as normalizeText(): NFC, collapsed whitespace, trimmed.
+UPDATE pdfs
+SET content_sha256 = encode(
+  extensions.digest(btrim(regexp_replace(normalize(content, NFC), '\s+', ' ', 'g')), 'sha256'),
+  'hex'
+)
+WHERE content_sha256 IS NULL AND content IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS pdfs_user_file_sha256_idx ON pdfs (user_id, file_sha256);
+CREATE INDEX IF NOT EXISTS pdfs_user_content_sha256_idx ON pdfs (user_id, content_sha256);
+CREATE INDEX IF NOT EXISTS pdfs_user_source_url_idx ON pdfs (user_id, source_url);
@@ -0,0 +1,36 @@
+-- Document versions
+-- A library item can hold several versions of a document (e.g. revisions of
+-- a contract). Each version is its own row in pdfs with its own chunks, so
+-- chat and summaries work on any version; the rows of one item share a
+-- document_id, which is the id of its first version.
+-- See src/lib/document-versions.ts.
+
+-- 1. The library item a row belongs to, and its version number within it
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS document_id UUID;
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS version_number INTEGER DEFAULT 1 NOT NULL
+  CHECK (version_number > 0);
+
+-- Every existing document is the first version of its own item
+UPDATE pdfs SET document_id = id WHERE document_id IS NULL;
+
+-- 2. New documents start a new item unless a document_id is given
+CREATE OR REPLACE FUNCTION set_pdf_document_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.document_id := COALESCE(NEW.document_id, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS pdfs_set_document_id ON pdfs;
+CREATE TRIGGER pdfs_set_document_id
+  BEFORE INSERT ON pdfs
+  FOR EACH ROW EXECUTE FUNCTION set_pdf_document_id();
+
+ALTER TABLE pdfs ALTER COLUMN document_id SET NOT NULL;
+
+-- 3. Version numbers are unique within an item
+CREATE UNIQUE INDEX IF NOT EXISTS pdfs_document_version_idx
+  ON pdfs (document_id, version_number);
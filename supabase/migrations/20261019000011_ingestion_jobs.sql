@@ -0,0 +1,49 @@
+-- Background ingestion jobs
+-- Uploads and links are ingested by jobs that run in stages (extract, store,
+-- chunk, embed, summarize) and save their state after each one, so a large
+-- file doesn't block the page and a failed job can resume where it stopped.
+-- See src/lib/ingestion-jobs.ts.
+
+-- 1. Jobs
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  status TEXT DEFAULT 'queued' NOT NULL
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  stage TEXT DEFAULT 'extract' NOT NULL
+    CHECK (stage IN ('extract', 'store', 'chunk', 'embed', 'summarize', 'done')),
+  -- What to ingest: the uploaded file or the URL and its crawl options
+  input JSONB NOT NULL,
+  -- ID of the document the job creates, reserved when the job is queued
+  pdf_id UUID NOT NULL,
+  -- Extracted sections and prepared chunks, kept until the job completes
+  documents JSONB,
+  chunks JSONB,
+  -- Chunks embedded so far, out of all chunks
+  progress_done INTEGER DEFAULT 0 NOT NULL,
+  progress_total INTEGER DEFAULT 0 NOT NULL,
+  -- The existing document, if the content was already in the library
+  duplicate JSONB,
+  summary TEXT,
+  summary_sections INTEGER DEFAULT 0 NOT NULL,
+  error TEXT,
+  -- Last time the worker running the job saved progress
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS ingestion_jobs_pending_idx ON ingestion_jobs (created_at)
+  WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS ingestion_jobs_user_id_idx ON ingestion_jobs (user_id);
+
+-- 2. Row-level security: users only see their own jobs
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Read own ingestion jobs" ON ingestion_jobs
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+-- 3. Private bucket keeping uploaded files until their text is extracted
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('ingestion-uploads', 'ingestion-uploads', false)
+ON CONFLICT (id) DO NOTHING;
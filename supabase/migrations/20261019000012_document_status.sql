@@ -0,0 +1,13 @@
+-- Document status
+-- A document is 'pending' while it is being ingested and only becomes
+-- 'ready' once every chunk is embedded, so chat, summaries and the library
+-- never work on a half-ingested document. 'failed' marks a document whose
+-- ingestion job failed; it is retried or rolled back (see
+-- src/lib/ingestion-jobs.ts).
+
+-- 1. Status column; documents that already exist are complete
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'ready' NOT NULL
+  CHECK (status IN ('pending', 'ready', 'failed'));
+
+-- 2. New documents start pending
+ALTER TABLE pdfs ALTER COLUMN status SET DEFAULT 'pending';
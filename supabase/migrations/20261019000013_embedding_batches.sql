@@ -0,0 +1,8 @@
+-- Failed embedding batches
+-- Chunks are embedded in batches that are retried with backoff. A batch
+-- that still fails is recorded on its job, so retrying the job embeds only
+-- the failed batches instead of the whole document. See
+-- src/lib/embedding-batches.ts.
+
+ALTER TABLE ingestion_jobs
+  ADD COLUMN IF NOT EXISTS failed_batches JSONB DEFAULT '[]' NOT NULL;
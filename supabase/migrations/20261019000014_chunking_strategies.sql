@@ -0,0 +1,7 @@
+-- Chunking strategies
+-- Records how each document was split into chunks (see
+-- src/lib/chunking-config.ts), so refreshes, new versions and summaries
+-- split it the same way. Existing documents were split at a fixed size.
+
+ALTER TABLE pdfs ADD COLUMN IF NOT EXISTS chunking_strategy TEXT DEFAULT 'fixed' NOT NULL
+  CHECK (chunking_strategy IN ('fixed', 'sentence', 'semantic', 'page', 'heading'));
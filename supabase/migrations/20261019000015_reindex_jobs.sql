@@ -0,0 +1,103 @@
+-- Re-indexing
+-- Re-chunks and re-embeds existing documents from their stored content, e.g.
+-- after changing the embedding model or a document's chunking strategy.
+-- New chunks are built in a shadow table while the old ones keep serving
+-- chat, and replace them in a single transaction. See
+-- src/lib/reindex-jobs.ts.
+
+-- 1. Shadow chunks, built per document before the switch-over
+CREATE TABLE IF NOT EXISTS pdf_chunks_shadow (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content TEXT NOT NULL,
+  embedding vector,
+  metadata JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS pdf_chunks_shadow_pdf_id_idx
+  ON pdf_chunks_shadow ((metadata->>'pdf_id'));
+
+-- Only the service role writes shadow chunks; nobody reads them
+ALTER TABLE pdf_chunks_shadow ENABLE ROW LEVEL SECURITY;
+
+-- 2. Replace a document's chunks with its shadow chunks atomically
+--    Fails, leaving the old chunks in place, if the document was deleted or
+--    its content changed (e.g. by a link refresh) while it was re-indexed.
+CREATE OR REPLACE FUNCTION swap_document_chunks(
+  p_pdf_id UUID,
+  p_content_sha256 TEXT,
+  p_chunking_strategy TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_sha256 TEXT;
+  swapped INTEGER;
+BEGIN
+  SELECT content_sha256 INTO current_sha256
+  FROM pdfs
+  WHERE id = p_pdf_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % no longer exists', p_pdf_id;
+  END IF;
+  IF current_sha256 IS DISTINCT FROM p_content_sha256 THEN
+    RAISE EXCEPTION 'Document % changed while it was re-indexed', p_pdf_id;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM pdf_chunks_shadow WHERE metadata->>'pdf_id' = p_pdf_id::text
+  ) THEN
+    RAISE EXCEPTION 'No new chunks were built for document %', p_pdf_id;
+  END IF;
+
+  DELETE FROM pdf_chunks WHERE metadata->>'pdf_id' = p_pdf_id::text;
+
+  INSERT INTO pdf_chunks (id, content, embedding, metadata)
+  SELECT id, content, embedding, metadata
+  FROM pdf_chunks_shadow
+  WHERE metadata->>'pdf_id' = p_pdf_id::text;
+  GET DIAGNOSTICS swapped = ROW_COUNT;
+
+  DELETE FROM pdf_chunks_shadow WHERE metadata->>'pdf_id' = p_pdf_id::text;
+
+  UPDATE pdfs SET chunking_strategy = p_chunking_strategy WHERE id = p_pdf_id;
+
+  RETURN swapped;
+END;
+$$;
+
+-- 3. Re-index jobs
+CREATE TABLE IF NOT EXISTS reindex_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The administrator (or "cli") who started the job
+  requested_by TEXT NOT NULL,
+  status TEXT DEFAULT 'queued' NOT NULL
+    CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  -- The documents to re-index, chosen when the job is queued
+  pdf_ids UUID[] NOT NULL,
+  -- Strategy to re-chunk with; NULL keeps each document's own
+  chunking_strategy TEXT
+    CHECK (chunking_strategy IN ('fixed', 'sentence', 'semantic', 'page', 'heading')),
+  -- Documents finished so far, out of all documents
+  progress_done INTEGER DEFAULT 0 NOT NULL,
+  progress_total INTEGER DEFAULT 0 NOT NULL,
+  -- The document being re-indexed and its chunks embedded so far
+  current_pdf_id UUID,
+  current_chunks_done INTEGER DEFAULT 0 NOT NULL,
+  current_chunks_total INTEGER DEFAULT 0 NOT NULL,
+  -- Documents that could not be re-indexed and kept their old chunks
+  failed JSONB DEFAULT '[]' NOT NULL,
+  error TEXT,
+  -- Last time the worker running the job saved progress
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS reindex_jobs_pending_idx ON reindex_jobs (created_at)
+  WHERE status IN ('queued', 'running');
+
+-- Only the service role reads and writes re-index jobs
+ALTER TABLE reindex_jobs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,10 @@
+-- Feed entries ingested by background jobs
+-- Feed polling queues an ingestion job per new entry instead of ingesting it
+-- on the spot, so an entry records its job; the document doesn't exist yet
+-- when the entry is recorded. An entry whose job failed is queued again by
+-- the next poll. See src/lib/feeds.ts.
+
+ALTER TABLE feed_items
+  ADD COLUMN IF NOT EXISTS job_id UUID REFERENCES ingestion_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS feed_items_job_id_idx ON feed_items (job_id);
@@ -0,0 +1,56 @@
+-- Link refreshes in one transaction
+-- A refresh embeds the chunks that changed, then stores them, deletes the
+-- chunks no longer on the page and saves the new content together, so a
+-- failed refresh leaves the link as it was. See src/lib/link-refresh.ts.
+
+-- Replace some of a link's chunks and store its new content atomically
+-- p_chunks is a JSON array of {content, embedding, metadata}. Fails, changing
+-- nothing, if the document was deleted or its content changed (e.g. by
+-- another refresh) since the refresh loaded it.
+CREATE OR REPLACE FUNCTION replace_link_chunks(
+  p_pdf_id UUID,
+  p_previous_sha256 TEXT,
+  p_chunks JSONB,
+  p_remove_ids UUID[],
+  p_content TEXT,
+  p_content_sha256 TEXT,
+  p_change_summary TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_sha256 TEXT;
+  added INTEGER;
+BEGIN
+  SELECT content_sha256 INTO current_sha256
+  FROM pdfs
+  WHERE id = p_pdf_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Document % no longer exists', p_pdf_id;
+  END IF;
+  IF current_sha256 IS DISTINCT FROM p_previous_sha256 THEN
+    RAISE EXCEPTION 'Document % changed while it was refreshed', p_pdf_id;
+  END IF;
+
+  DELETE FROM pdf_chunks
+  WHERE id = ANY(p_remove_ids)
+    AND metadata->>'pdf_id' = p_pdf_id::text;
+
+  INSERT INTO pdf_chunks (content, embedding, metadata)
+  SELECT chunk->>'content', (chunk->>'embedding')::vector, chunk->'metadata'
+  FROM jsonb_array_elements(p_chunks) AS chunk;
+  GET DIAGNOSTICS added = ROW_COUNT;
+
+  UPDATE pdfs
+  SET content = p_content,
+      content_sha256 = p_content_sha256,
+      last_refreshed_at = now(),
+      last_change_summary = p_change_summary
+  WHERE id = p_pdf_id;
+
+  RETURN added;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Feed entry attempts
+-- Counts the ingestion jobs queued for each feed entry, so an entry whose
+-- jobs keep failing (e.g. a page that no longer exists) stops being queued
+-- again after a few attempts. Entries recorded before this migration were
+-- queued once. See src/lib/feeds.ts.
+
+ALTER TABLE feed_items
+  ADD COLUMN IF NOT EXISTS attempts INTEGER DEFAULT 1 NOT NULL;
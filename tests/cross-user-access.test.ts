@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { formData } from "./support/form-data";
+import { session } from "./support/mock-auth";
+import { db, resetDatabase } from "./support/mock-supabase";
+
+vi.mock("@supabase/supabase-js", () => import("./support/mock-supabase"));
+vi.mock("@/lib/auth", () => import("./support/mock-auth"));
+
+const {
+  checkLatestChunkMetadata,
+  deleteDocument,
+  fetchDocumentVersions,
+  fetchUserPdfs,
+  queryDocument,
+} = await import("@/lib/rag-service");
+const { generateSummary } = await import("@/lib/summary-service");
+const { checkDatabaseContent, testDatabaseAccess } = await import(
+  "@/lib/test-service"
+);
+
+// Alice owns "pdf-a" and shared it with Carol; Bob owns "pdf-b"
+const ALICE = "user-a";
+const BOB = "user-b";
+const CAROL = "user-c";
+
+function pdf(id: string, userId: string, content: string) {
+  return {
+    id,
+    user_id: userId,
+    name: `Document ${id}`,
+    content,
+    status: "ready",
+    format: "pdf",
+    chunking_strategy: "fixed",
+    document_id: id,
+    version_number: 1,
+    created_at: "2026-10-19T00:00:00Z",
+  };
+}
+
+function chunk(pdfId: string, userId: string, content: string) {
+  return {
+    id: `chunk-${pdfId}`,
+    content,
+    metadata: { pdf_id: pdfId, user_id: userId },
+    created_at: "2026-10-19T00:00:00Z",
+  };
+}
+
+function signInAs(userId: string) {
+  session.userId = userId;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", "http://localhost:54321");
+  vi.stubEnv("SUPABASE_SERVICE_ROLE_KEY", "service-role-key");
+  vi.stubEnv("LLM_PROVIDER", "fake");
+  vi.stubEnv("LLM_FAKE_RESPONSE", "A summary of the plan.");
+
+  resetDatabase({
+    pdfs: [
+      pdf("pdf-a", ALICE, "Alice's confidential plan."),
+      pdf("pdf-b", BOB, "Bob's notes."),
+    ],
+    pdf_shares: [{ pdf_id: "pdf-a", user_id: CAROL }],
+    pdf_chunks: [
+      chunk("pdf-a", ALICE, "Alice's confidential plan."),
+      chunk("pdf-b", BOB, "Bob's notes."),
+    ],
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("documents", () => {
+  it("lists only the user's own and shared documents", async () => {
+    signInAs(BOB);
+    expect((await fetchUserPdfs()).map((doc) => doc.id)).toEqual(["pdf-b"]);
+
+    signInAs(CAROL);
+    expect(await fetchUserPdfs()).toMatchObject([
+      { id: "pdf-a", shared: true },
+    ]);
+  });
+
+  it("refuses another user's versions", async () => {
+    signInAs(BOB);
+    await expect(
+      fetchDocumentVersions(formData({ pdfId: "pdf-a" })),
+    ).rejects.toThrow("Document not found");
+
+    signInAs(CAROL);
+    expect(
+      (await fetchDocumentVersions(formData({ pdfId: "pdf-a" }))).map(
+        (version) => version.id,
+      ),
+    ).toEqual(["pdf-a"]);
+  });
+
+  it("refuses to delete another user's document, even a shared one", async () => {
+    for (const userId of [BOB, CAROL]) {
+      signInAs(userId);
+      await expect(
+        deleteDocument(formData({ pdfId: "pdf-a" })),
+      ).rejects.toThrow("Document not found");
+    }
+
+    expect(db.tables.pdfs.map((row) => row.id)).toContain("pdf-a");
+    expect(
+      db.tables.pdf_chunks.map(
+        (row) => (row.metadata as { pdf_id: string }).pdf_id,
+      ),
+    ).toContain("pdf-a");
+  });
+});
+
+describe("chunks", () => {
+  it("refuses to show another user's chunks", async () => {
+    signInAs(BOB);
+    const refused = await testDatabaseAccess("pdf-a");
+    expect(refused.status).toBe("error");
+    expect(refused.message).toContain("Document not found");
+
+    signInAs(ALICE);
+    const allowed = await testDatabaseAccess("pdf-a");
+    expect(allowed.status).toBe("success");
+    expect(allowed.data?.sampleChunks).toHaveLength(1);
+  });
+
+  it("only inspects the user's own latest chunks", async () => {
+    signInAs(BOB);
+    const chunks = await checkLatestChunkMetadata();
+    expect(chunks?.map((row) => row.content)).toEqual(["Bob's notes."]);
+  });
+
+  it("keeps database-wide diagnostics to administrators", async () => {
+    signInAs(BOB);
+    await expect(checkDatabaseContent()).rejects.toThrow(
+      "Only administrators can do that",
+    );
+  });
+});
+
+describe("chat", () => {
+  it("refuses to chat with another user's document", async () => {
+    signInAs(BOB);
+    await expect(
+      queryDocument(formData({ query: "What is the plan?", pdfId: "pdf-a" })),
+    ).rejects.toThrow("Document not found");
+  });
+
+  it("refuses a multi-document chat that includes another user's document", async () => {
+    signInAs(BOB);
+    const data = formData({ query: "What is the plan?" });
+    data.append("pdfIds", "pdf-b");
+    data.append("pdfIds", "pdf-a");
+
+    await expect(queryDocument(data)).rejects.toThrow("Document not found");
+  });
+});
+
+describe("summary", () => {
+  it("refuses to summarize another user's document", async () => {
+    signInAs(BOB);
+    await expect(
+      generateSummary(formData({ contentId: "pdf-a" })),
+    ).rejects.toThrow("Document not found");
+  });
+
+  it("summarizes a document shared with the user", async () => {
+    signInAs(CAROL);
+    const { summary } = await generateSummary(formData({ contentId: "pdf-a" }));
+    expect(summary).toBe("A summary of the plan.");
+  });
+});
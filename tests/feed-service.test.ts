@@ -0,0 +1,314 @@
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { Row } from "./support/fake-supabase";
+import { FixtureServer, startFixtureServer } from "./support/fixture-server";
+import { formData } from "./support/form-data";
+import { session } from "./support/mock-auth";
+import { db, resetDatabase } from "./support/mock-supabase";
+
+// The work deferred with after(), shared with the mock
+const deferred = vi.hoisted(() => ({ tasks: [] as Array<() => unknown> }));
+
+vi.mock("@supabase/supabase-js", () => import("./support/mock-supabase"));
+vi.mock("@/lib/auth", () => import("./support/mock-auth"));
+vi.mock("next/server", () => ({
+  after: (task: () => unknown) => deferred.tasks.push(task),
+}));
+
+const { checkFeedNow, subscribeToFeed } = await import("@/lib/feed-service");
+const { parseFeed } = await import("@/lib/feeds");
+
+const ALICE = "user-a";
+const BOB = "user-b";
+
+/**
+ * A saved feed from tests/fixtures/feeds
+ */
+function savedFeed(name: string): string {
+  return readFileSync(
+    path.join(__dirname, "fixtures", "feeds", `${name}.xml`),
+    "utf8",
+  );
+}
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+  server = await startFixtureServer(() => ({
+    "/rss.xml": { contentType: "application/rss+xml", body: savedFeed("rss") },
+    "/atom.xml": {
+      contentType: "application/atom+xml",
+      body: savedFeed("atom"),
+    },
+    "/page": { body: "<html><body><p>Not a feed</p></body></html>" },
+  }));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  session.userId = ALICE;
+  deferred.tasks.length = 0;
+
+  resetDatabase({
+    feed_subscriptions: [
+      {
+        id: "feed-rss",
+        user_id: ALICE,
+        url: `${server.url}/rss.xml`,
+        name: "Coastal Notes",
+        poll_interval_minutes: 60,
+        last_polled_at: null,
+        last_error: null,
+      },
+    ],
+    feed_items: [],
+    ingestion_jobs: [],
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+/**
+ * The URLs queued for ingestion, in the order they were queued
+ */
+function queuedLinks(): string[] {
+  return db.tables.ingestion_jobs.map(
+    (job) => (job.input as { url: string }).url,
+  );
+}
+
+describe("parseFeed", () => {
+  it("reads an RSS feed", () => {
+    const feed = parseFeed(
+      savedFeed("rss"),
+      "https://coastal-notes.example/rss.xml",
+    );
+
+    expect(feed.title).toBe("Coastal Notes");
+    expect(feed.entries).toEqual([
+      {
+        guid: "coastal-notes-42",
+        link: "https://coastal-notes.example/shorebirds",
+        title: "Ten shorebirds to spot this spring",
+        publishedAt: "2026-03-21T08:00:00.000Z",
+      },
+      {
+        // No guid: the resolved link stands in for it
+        guid: "https://coastal-notes.example/tide-pools",
+        link: "https://coastal-notes.example/tide-pools",
+        title: "Tide Pools of the North Coast",
+        publishedAt: "2026-03-14T09:30:00.000Z",
+      },
+      {
+        guid: "coastal-notes-40",
+        link: "https://coastal-notes.example/storms",
+        title: "Storm season, looking back",
+        publishedAt: "2026-03-01T18:15:00.000Z",
+      },
+    ]);
+  });
+
+  it("reads an Atom feed", () => {
+    const feed = parseFeed(
+      savedFeed("atom"),
+      "https://harbor-bikes.example/atom.xml",
+    );
+
+    expect(feed.title).toBe("Harbor Bikes Blog");
+    expect(feed.entries).toEqual([
+      {
+        guid: "urn:uuid:harbor-bikes-entry-2",
+        link: "https://harbor-bikes.example/blog/e-bikes",
+        title: "New e-bikes for the summer",
+        publishedAt: "2026-04-02T12:00:00.000Z",
+      },
+      {
+        guid: "urn:uuid:harbor-bikes-entry-1",
+        link: "https://harbor-bikes.example/blog/easter-hours",
+        title: "Opening hours over Easter",
+        publishedAt: "2026-03-30T09:00:00.000Z",
+      },
+    ]);
+  });
+});
+
+describe("subscribeToFeed", () => {
+  it("names the subscription after the feed", async () => {
+    const feed = await subscribeToFeed(
+      formData({ url: `${server.url}/atom.xml` }),
+    );
+
+    expect(feed).toMatchObject({
+      user_id: ALICE,
+      name: "Harbor Bikes Blog",
+      poll_interval_minutes: 60,
+    });
+  });
+
+  it("rejects a polling interval that isn't a positive number", async () => {
+    for (const pollIntervalMinutes of ["-5", "0", "soon"]) {
+      await expect(
+        subscribeToFeed(
+          formData({ url: `${server.url}/atom.xml`, pollIntervalMinutes }),
+        ),
+      ).rejects.toThrow(
+        "The polling interval must be a positive number of minutes",
+      );
+    }
+    expect(db.tables.feed_subscriptions).toHaveLength(1);
+  });
+
+  it("rejects a page that isn't a feed", async () => {
+    await expect(
+      subscribeToFeed(formData({ url: `${server.url}/page` })),
+    ).rejects.toThrow("This URL is not an RSS or Atom feed");
+  });
+});
+
+describe("checkFeedNow", () => {
+  it("queues a background job per new entry, oldest first", async () => {
+    const { queued } = await checkFeedNow(formData({ feedId: "feed-rss" }));
+
+    expect(queued).toBe(3);
+    expect(queuedLinks()).toEqual([
+      "https://coastal-notes.example/storms",
+      // Relative links are resolved against the feed URL
+      `${server.url}/tide-pools`,
+      "https://coastal-notes.example/shorebirds",
+    ]);
+    expect(db.tables.ingestion_jobs[0]).toMatchObject({
+      user_id: ALICE,
+      input: {
+        kind: "link",
+        crawlMode: "single",
+        name: "Storm season, looking back",
+        tags: ["Coastal Notes"],
+      },
+    });
+
+    // Nothing is ingested inside the action; the jobs start after it responds
+    expect(deferred.tasks).toHaveLength(1);
+    expect(db.tables.pdfs ?? []).toEqual([]);
+  });
+
+  it("records each entry with its job", async () => {
+    await checkFeedNow(formData({ feedId: "feed-rss" }));
+
+    const jobIds = db.tables.ingestion_jobs.map((job) => job.id);
+    expect(db.tables.feed_items.map((item) => item.job_id)).toEqual(jobIds);
+    expect(db.tables.feed_subscriptions[0].last_polled_at).not.toBeNull();
+  });
+
+  it("doesn't queue entries it has seen", async () => {
+    await checkFeedNow(formData({ feedId: "feed-rss" }));
+    const { queued } = await checkFeedNow(formData({ feedId: "feed-rss" }));
+
+    expect(queued).toBe(0);
+    expect(db.tables.ingestion_jobs).toHaveLength(3);
+  });
+
+  it("queues an entry again when its job failed", async () => {
+    await checkFeedNow(formData({ feedId: "feed-rss" }));
+    const failed = db.tables.ingestion_jobs.find((job) =>
+      (job.input as { url: string }).url.endsWith("/shorebirds"),
+    ) as Row;
+    failed.status = "failed";
+
+    const { queued } = await checkFeedNow(formData({ feedId: "feed-rss" }));
+
+    expect(queued).toBe(1);
+    const retry = db.tables.ingestion_jobs[3];
+    expect(retry.input).toMatchObject({
+      url: "https://coastal-notes.example/shorebirds",
+    });
+    expect(db.tables.feed_items).toHaveLength(3);
+    expect(
+      db.tables.feed_items.find((item) => item.guid === "coastal-notes-42"),
+    ).toMatchObject({ job_id: retry.id, attempts: 2 });
+  });
+
+  it("gives up on an entry whose jobs failed three times", async () => {
+    const failLatestJob = () => {
+      const item = db.tables.feed_items.find(
+        (item) => item.guid === "coastal-notes-42",
+      ) as Row;
+      const job = db.tables.ingestion_jobs.find(
+        (job) => job.id === item.job_id,
+      ) as Row;
+      job.status = "failed";
+    };
+
+    await checkFeedNow(formData({ feedId: "feed-rss" }));
+    failLatestJob();
+    await checkFeedNow(formData({ feedId: "feed-rss" }));
+    failLatestJob();
+    await checkFeedNow(formData({ feedId: "feed-rss" }));
+    failLatestJob();
+    const { queued } = await checkFeedNow(formData({ feedId: "feed-rss" }));
+
+    expect(queued).toBe(0);
+    expect(db.tables.ingestion_jobs).toHaveLength(5);
+  });
+
+  it("records an entry already in the library instead of queuing it", async () => {
+    db.tables.pdfs = [
+      {
+        id: "pdf-storms",
+        user_id: ALICE,
+        status: "ready",
+        source_url: "https://coastal-notes.example/storms",
+        created_at: "2026-03-02T00:00:00.000Z",
+      },
+    ];
+
+    const { queued } = await checkFeedNow(formData({ feedId: "feed-rss" }));
+
+    expect(queued).toBe(2);
+    expect(queuedLinks()).not.toContain("https://coastal-notes.example/storms");
+    expect(
+      db.tables.feed_items.find((item) => item.guid === "coastal-notes-40"),
+    ).toMatchObject({ pdf_id: "pdf-storms", job_id: null });
+
+    // Seen, so the next poll leaves it alone
+    expect((await checkFeedNow(formData({ feedId: "feed-rss" }))).queued).toBe(
+      0,
+    );
+  });
+
+  it("queues at most FEED_MAX_ITEMS_PER_POLL entries, newest first", async () => {
+    vi.stubEnv("FEED_MAX_ITEMS_PER_POLL", "1");
+
+    const { queued } = await checkFeedNow(formData({ feedId: "feed-rss" }));
+
+    expect(queued).toBe(1);
+    expect(queuedLinks()).toEqual(["https://coastal-notes.example/shorebirds"]);
+  });
+
+  it("refuses another user's feed", async () => {
+    session.userId = BOB;
+
+    await expect(
+      checkFeedNow(formData({ feedId: "feed-rss" })),
+    ).rejects.toThrow("Feed not found");
+    expect(db.tables.ingestion_jobs).toEqual([]);
+  });
+});
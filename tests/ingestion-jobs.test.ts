@@ -0,0 +1,261 @@
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { Row } from "./support/fake-supabase";
+import { FixtureServer, startFixtureServer } from "./support/fixture-server";
+import { embedding, resetEmbedding } from "./support/mock-embeddings";
+import { db, resetDatabase } from "./support/mock-supabase";
+
+vi.mock("@supabase/supabase-js", () => import("./support/mock-supabase"));
+vi.mock("@/lib/embedding-provider", () => import("./support/mock-embeddings"));
+
+const { runIngestionJob, runPendingIngestionJobs } = await import(
+  "@/lib/ingestion-jobs"
+);
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+  server = await startFixtureServer(() => ({
+    "/tide-pools": {
+      body: readFileSync(
+        path.join(__dirname, "fixtures", "pages", "article.html"),
+        "utf8",
+      ),
+    },
+    // Ten paragraphs, split into one chunk each by the fixed strategy
+    "/tide-pools-guide": {
+      body: `<html><body><article>${Array.from(
+        { length: 10 },
+        (_, i) =>
+          `<p>Paragraph ${i + 1}. ${"Tide pools hold many creatures. ".repeat(25)}</p>`,
+      ).join("")}</article></body></html>`,
+    },
+  }));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.stubEnv("EMBEDDING_MAX_RETRIES", "0");
+  resetEmbedding();
+  resetDatabase({ pdfs: [], pdf_chunks: [], ingestion_jobs: [] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+/**
+ * Queue a job ingesting a page of the fixture server, with the defaults the
+ * 'ingestion_jobs' table fills in
+ */
+function queueLinkJob(pagePath: string): Row {
+  const job = {
+    id: "job-1",
+    user_id: "user-a",
+    status: "queued",
+    stage: "extract",
+    input: {
+      kind: "link",
+      url: `${server.url}${pagePath}`,
+      crawlMode: "single",
+      chunkingStrategy: "fixed",
+    },
+    pdf_id: "pdf-1",
+    documents: null,
+    chunks: null,
+    progress_done: 0,
+    progress_total: 0,
+    failed_batches: [],
+    duplicate: null,
+    summary: null,
+    summary_sections: 0,
+    error: null,
+    locked_at: null,
+  };
+  db.tables.ingestion_jobs.push(job);
+  return job;
+}
+
+describe("runIngestionJob", () => {
+  it("stores a ready document with its chunks", async () => {
+    const job = queueLinkJob("/tide-pools");
+
+    await runIngestionJob("job-1");
+
+    expect(job.status).toBe("completed");
+    expect(db.tables.pdfs).toMatchObject([{ id: "pdf-1", status: "ready" }]);
+    expect(db.tables.pdf_chunks.length).toBeGreaterThan(0);
+  });
+
+  it("deletes the document as soon as the job fails", async () => {
+    const job = queueLinkJob("/tide-pools");
+    embedding.fails = () => true;
+
+    await runIngestionJob("job-1");
+
+    expect(job).toMatchObject({
+      status: "failed",
+      error: expect.stringContaining("could not be embedded"),
+    });
+    expect(db.tables.pdfs).toEqual([]);
+    expect(db.tables.pdf_chunks).toEqual([]);
+    expect(db.tables.ingestion_jobs).toHaveLength(1);
+  });
+
+  it("stores the document again when a failed job is retried", async () => {
+    const job = queueLinkJob("/tide-pools");
+    embedding.fails = () => true;
+    await runIngestionJob("job-1");
+
+    // The extracted text is kept, so the retry doesn't load the page again
+    expect(job).toMatchObject({ stage: "store", progress_done: 0 });
+    expect(job.documents).not.toBeNull();
+    server.requests.length = 0;
+
+    embedding.fails = () => false;
+    job.status = "queued";
+    await runIngestionJob("job-1");
+
+    expect(job.status).toBe("completed");
+    expect(server.requests).toEqual([]);
+    expect(db.tables.pdfs).toMatchObject([{ id: "pdf-1", status: "ready" }]);
+    expect(db.tables.pdf_chunks.length).toBeGreaterThan(0);
+  });
+
+  it("embeds only the missing chunks when a failed job is retried", async () => {
+    vi.stubEnv("EMBEDDING_BATCH_SIZE", "2");
+    const job = queueLinkJob("/tide-pools-guide");
+    // The first batch is stored, then the provider goes down
+    embedding.fails = (call) => call > 1;
+    await runIngestionJob("job-1");
+
+    expect(job).toMatchObject({
+      status: "failed",
+      stage: "store",
+      progress_done: 2,
+      progress_total: 10,
+      error: expect.stringContaining("Retry to embed only these chunks"),
+    });
+    expect(job.failed_batches).toHaveLength(3);
+    expect(db.tables.pdfs).toEqual([]);
+    const storedIds = db.tables.pdf_chunks.map((chunk) => chunk.id);
+    expect(storedIds).toHaveLength(2);
+
+    embedding.calls = [];
+    embedding.fails = () => false;
+    job.status = "queued";
+    await runIngestionJob("job-1");
+
+    expect(job.status).toBe("completed");
+    expect(embedding.calls.flat()).toHaveLength(8);
+    expect(db.tables.pdfs).toMatchObject([{ id: "pdf-1", status: "ready" }]);
+    expect(db.tables.pdf_chunks).toHaveLength(10);
+    expect(db.tables.pdf_chunks.map((chunk) => chunk.id)).toEqual(
+      expect.arrayContaining(storedIds),
+    );
+  });
+
+  it("finishes a job whose document is ready when a later save fails", async () => {
+    const job = queueLinkJob("/tide-pools");
+    // Saving the end of the embed stage fails after the document is ready
+    db.failUpdate = (table, changes) =>
+      table === "ingestion_jobs" && changes.stage === "done" && !changes.status;
+
+    await runIngestionJob("job-1");
+
+    expect(db.failUpdate).toBeNull();
+    expect(job).toMatchObject({ status: "completed", stage: "done" });
+    expect(db.tables.pdfs).toMatchObject([{ id: "pdf-1", status: "ready" }]);
+    const chunkCount = db.tables.pdf_chunks.length;
+    expect(embedding.calls.flat()).toHaveLength(chunkCount);
+
+    // Nothing is left to run, so the chunks are never stored twice
+    await runIngestionJob("job-1");
+    expect(db.tables.pdf_chunks).toHaveLength(chunkCount);
+  });
+
+  it("extracts again when extraction failed", async () => {
+    const job = queueLinkJob("/missing");
+
+    await runIngestionJob("job-1");
+
+    expect(job).toMatchObject({
+      status: "failed",
+      stage: "extract",
+      error: expect.stringContaining("404"),
+    });
+    expect(db.tables.pdfs).toEqual([]);
+  });
+
+  it("refreshes its lock while a long stage runs", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    const job = queueLinkJob("/tide-pools");
+    let finishEmbedding = () => {};
+    embedding.pending = new Promise((resolve) => {
+      finishEmbedding = resolve;
+    });
+    const started = new Promise<void>((resolve) => {
+      embedding.onStart = resolve;
+    });
+
+    const run = runIngestionJob("job-1");
+    await started;
+    job.locked_at = "2026-01-01T00:00:00.000Z";
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(job.locked_at).not.toBe("2026-01-01T00:00:00.000Z");
+
+    finishEmbedding();
+    await run;
+    expect(job.status).toBe("completed");
+  });
+});
+
+describe("runPendingIngestionJobs", () => {
+  it("picks up a job whose worker stopped saving progress", async () => {
+    const job = queueLinkJob("/tide-pools");
+    Object.assign(job, {
+      status: "running",
+      stage: "store",
+      documents: [{ pageContent: "Tide pools", metadata: {} }],
+      // Well past the five-minute lock timeout
+      locked_at: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+    });
+
+    const { run } = await runPendingIngestionJobs();
+
+    expect(run).toBe(1);
+    expect(job.status).toBe("completed");
+    expect(db.tables.pdfs).toMatchObject([{ id: "pdf-1", status: "ready" }]);
+  });
+
+  it("leaves a job whose worker is still alive", async () => {
+    const job = queueLinkJob("/tide-pools");
+    const lockedAt = new Date(Date.now() - 60 * 1000).toISOString();
+    Object.assign(job, { status: "running", locked_at: lockedAt });
+
+    const { run } = await runPendingIngestionJobs();
+    await runIngestionJob("job-1");
+
+    expect(run).toBe(0);
+    expect(job).toMatchObject({ status: "running", locked_at: lockedAt });
+  });
+});
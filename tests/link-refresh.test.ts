@@ -0,0 +1,203 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { Row } from "./support/fake-supabase";
+import {
+  FixtureRoute,
+  FixtureServer,
+  startFixtureServer,
+} from "./support/fixture-server";
+import { embedding, resetEmbedding } from "./support/mock-embeddings";
+import { db, resetDatabase } from "./support/mock-supabase";
+
+vi.mock("@supabase/supabase-js", () => import("./support/mock-supabase"));
+vi.mock("@/lib/embedding-provider", () => import("./support/mock-embeddings"));
+vi.mock("@/lib/change-summary", () => ({
+  summarizeChanges: async () => "The last paragraph changed.",
+}));
+
+const { getEmbeddingConfig } = await import("@/lib/embedding-provider");
+const { refreshLinkDocument } = await import("@/lib/link-refresh");
+const { joinLinkContent, loadLinkDocuments, splitLinkDocuments } = await import(
+  "@/lib/link-ingestion"
+);
+
+/**
+ * A page of ten paragraphs, split into one chunk each by the fixed strategy
+ */
+function page(lastParagraph: string): string {
+  const paragraphs = Array.from(
+    { length: 9 },
+    (_, i) =>
+      `Paragraph ${i + 1}. ${"Tide pools hold many creatures. ".repeat(25)}`,
+  );
+  return `<html><body><article>${[...paragraphs, lastParagraph]
+    .map((text) => `<p>${text}</p>`)
+    .join("")}</article></body></html>`;
+}
+
+// Set to fail replace_link_chunks, as the SQL function does when the link
+// changed meanwhile
+let replaceError: Error | null = null;
+
+/**
+ * Apply the whole refresh at once, like the replace_link_chunks SQL function
+ */
+function replaceLinkChunks(args: Row): number {
+  if (replaceError) {
+    throw replaceError;
+  }
+  const chunks = args.p_chunks as Row[];
+  const removed = new Set(args.p_remove_ids as string[]);
+  db.tables.pdf_chunks = [
+    ...db.tables.pdf_chunks.filter((chunk) => !removed.has(chunk.id as string)),
+    ...chunks.map((chunk, i) => ({
+      id: `new-${db.tables.pdf_chunks.length + i}`,
+      ...chunk,
+      embedding_model: (chunk.metadata as Row).embedding_model,
+    })),
+  ];
+  Object.assign(db.tables.pdfs[0], {
+    content: args.p_content,
+    content_sha256: args.p_content_sha256,
+    last_change_summary: args.p_change_summary,
+  });
+  return chunks.length;
+}
+
+const CHANGED_PARAGRAPH = `Paragraph 10. ${"The pools are closed this winter. ".repeat(20)}`;
+
+let server: FixtureServer;
+let route: FixtureRoute;
+
+beforeAll(async () => {
+  route = {};
+  server = await startFixtureServer(() => ({ "/tide-pools": route }));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+/**
+ * The chunks the page currently splits into, as the refresh stores them
+ */
+async function currentChunks(): Promise<string[]> {
+  const url = `${server.url}/tide-pools`;
+  const docs = await loadLinkDocuments(url);
+  const chunks = await splitLinkDocuments(
+    docs,
+    "pdf-1",
+    "user-a",
+    url,
+    getEmbeddingConfig(),
+    "fixed",
+  );
+  return chunks.map((chunk) => chunk.pageContent);
+}
+
+/**
+ * Save the page as it is now, with chunks embedded by the given model
+ */
+async function saveLink(embeddingModel: string): Promise<void> {
+  const url = `${server.url}/tide-pools`;
+  const content = joinLinkContent(await loadLinkDocuments(url));
+  Object.assign(db.tables, {
+    pdfs: [
+      {
+        id: "pdf-1",
+        user_id: "user-a",
+        format: "link",
+        status: "ready",
+        content,
+        content_sha256: "sha",
+        source_url: url,
+        crawl_options: { crawlMode: "single" },
+        chunking_strategy: "fixed",
+      },
+    ],
+    pdf_chunks: (await currentChunks()).map((content, i) => ({
+      id: `chunk-${i}`,
+      content,
+      metadata: {
+        pdf_id: "pdf-1",
+        source: url,
+        embedding_model: embeddingModel,
+      },
+      embedding_model: embeddingModel,
+    })),
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  resetEmbedding();
+  replaceError = null;
+  route.body = page(
+    `Paragraph 10. ${"Tide pools hold many creatures. ".repeat(25)}`,
+  );
+  resetDatabase({}, { replace_link_chunks: replaceLinkChunks });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function storedChunks(): string[] {
+  return db.tables.pdf_chunks.map((chunk) => chunk.content as string).sort();
+}
+
+describe("refreshLinkDocument", () => {
+  it("re-embeds only the chunks that changed", async () => {
+    await saveLink("test-model");
+    route.body = page(CHANGED_PARAGRAPH);
+
+    const result = await refreshLinkDocument("pdf-1");
+
+    const expected = await currentChunks();
+    expect(result).toMatchObject({
+      changed: true,
+      summary: "The last paragraph changed.",
+    });
+    expect(result.addedChunks).toBeGreaterThan(0);
+    expect(result.addedChunks).toBeLessThan(expected.length);
+    expect(embedding.calls.flat()).toHaveLength(result.addedChunks);
+    expect(storedChunks()).toEqual([...expected].sort());
+    expect(db.tables.pdfs[0].content).toContain("closed this winter");
+  });
+
+  it("re-embeds every chunk when the embedding model changed", async () => {
+    await saveLink("old-model");
+    route.body = page(CHANGED_PARAGRAPH);
+
+    const result = await refreshLinkDocument("pdf-1");
+
+    const expected = await currentChunks();
+    expect(result.addedChunks).toBe(expected.length);
+    expect(embedding.calls.flat()).toHaveLength(expected.length);
+    expect(db.tables.pdf_chunks.map((chunk) => chunk.embedding_model)).toEqual(
+      expected.map(() => "test-model"),
+    );
+  });
+
+  it("leaves the link as it was when the refresh can't be stored", async () => {
+    await saveLink("test-model");
+    const before = structuredClone(db.tables);
+    route.body = page(CHANGED_PARAGRAPH);
+    replaceError = new Error("Document pdf-1 changed while it was refreshed");
+
+    await expect(refreshLinkDocument("pdf-1")).rejects.toThrow(
+      "Failed to store refreshed content: Document pdf-1 changed while it was refreshed",
+    );
+    expect(db.tables).toEqual(before);
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Document } from "@langchain/core/documents";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { createChatModel, getLlmConfig } from "@/lib/llm-provider";
+import { summarizeChunks } from "@/lib/summary-chain";
+
+const FINAL_PROMPT = PromptTemplate.fromTemplate("Summarize:\n{text}");
+
+describe("fake LLM provider", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.stubEnv("LLM_PROVIDER", "fake");
+    vi.stubEnv("LLM_FAKE_RESPONSE", "A fixed summary.");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("needs no credentials", () => {
+    expect(getLlmConfig()).toEqual({ provider: "fake", model: "fake" });
+  });
+
+  it("rejects unknown providers, including inherited property names", () => {
+    for (const provider of ["unknown", "constructor", "toString"]) {
+      vi.stubEnv("LLM_PROVIDER", provider);
+      expect(() => getLlmConfig()).toThrow(/Unknown LLM_PROVIDER/);
+    }
+  });
+
+  it("always gives the configured reply", async () => {
+    const model = createChatModel();
+
+    const first = await model.invoke("What is this document about?");
+    const second = await model.invoke("Something else entirely");
+
+    expect(first.content).toBe("A fixed summary.");
+    expect(second.content).toBe("A fixed summary.");
+  });
+
+  it("summarizes a short document in one pass", async () => {
+    const result = await summarizeChunks(
+      [new Document({ pageContent: "A short document." })],
+      { model: createChatModel(), finalPrompt: FINAL_PROMPT },
+    );
+
+    expect(result).toEqual({
+      summary: "A fixed summary.",
+      sectionCount: 1,
+      reducePasses: 0,
+    });
+  });
+
+  it("streams the final summary token by token", async () => {
+    const tokens: string[] = [];
+
+    const { summary } = await summarizeChunks(
+      [new Document({ pageContent: "A short document." })],
+      {
+        model: createChatModel(),
+        finalPrompt: FINAL_PROMPT,
+        onToken: (token) => tokens.push(token),
+      },
+    );
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join("")).toBe(summary);
+    expect(summary).toBe("A fixed summary.");
+  });
+});
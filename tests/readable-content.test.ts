@@ -0,0 +1,103 @@
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { loadReadableWebPage } from "@/lib/readable-content";
+import { FixtureServer, startFixtureServer } from "./support/fixture-server";
+
+/**
+ * A saved page from tests/fixtures/pages
+ */
+function savedPage(name: string): string {
+  return readFileSync(
+    path.join(__dirname, "fixtures", "pages", `${name}.html`),
+    "utf8",
+  );
+}
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+  server = await startFixtureServer(() => ({
+    "/tide-pools": { body: savedPage("article") },
+    "/harbor-bikes": { body: savedPage("landing") },
+    "/gone": { status: 410, body: "Gone" },
+  }));
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("loadReadableWebPage", () => {
+  it("keeps the article and drops the page chrome", async () => {
+    const doc = await loadReadableWebPage(`${server.url}/tide-pools`);
+
+    expect(doc.metadata.extraction).toBe("readability");
+    expect(doc.pageContent).toContain("Twice a day the sea pulls back");
+    expect(doc.pageContent).toContain("Leave every animal where you found it");
+    for (const chrome of [
+      "Accept all cookies",
+      "Subscribe to the newsletter",
+      "Ten shorebirds",
+      "All rights reserved",
+      "window.analytics",
+    ]) {
+      expect(doc.pageContent).not.toContain(chrome);
+    }
+  });
+
+  it("keeps paragraph breaks in the article text", async () => {
+    const doc = await loadReadableWebPage(`${server.url}/tide-pools`);
+
+    expect(doc.pageContent).toMatch(
+      /waiting for the water to return\.\n\n[^\n]*When to visit/,
+    );
+  });
+
+  it("records the article details as metadata", async () => {
+    const url = `${server.url}/tide-pools`;
+    const doc = await loadReadableWebPage(url);
+
+    expect(doc.metadata).toMatchObject({
+      source: url,
+      title: expect.stringContaining("Tide Pools of the North Coast"),
+      byline: expect.stringContaining("Maren Holt"),
+      published_time: "2026-03-14T09:30:00Z",
+    });
+    expect(doc.metadata.headings).toContain("When to visit | What to bring");
+  });
+
+  it("falls back to the whole body when there is no article", async () => {
+    const doc = await loadReadableWebPage(`${server.url}/harbor-bikes`);
+
+    expect(doc.metadata).toMatchObject({
+      extraction: "body",
+      title: "Harbor Bikes",
+      headings: "Harbor Bikes | Rentals | Opening hours",
+    });
+    expect(doc.metadata).not.toHaveProperty("byline");
+    expect(doc.pageContent).toContain("City bike\n$15 a day");
+    expect(doc.pageContent).toContain("Every day, 9am to 6pm");
+    expect(doc.pageContent).not.toContain("font-family");
+    expect(doc.pageContent).not.toContain("Changed by script");
+  });
+
+  it("fails on an error response", async () => {
+    await expect(loadReadableWebPage(`${server.url}/gone`)).rejects.toThrow(
+      "410",
+    );
+  });
+});
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Row } from "./support/fake-supabase";
+import { embedding, resetEmbedding } from "./support/mock-embeddings";
+import { db, resetDatabase } from "./support/mock-supabase";
+
+vi.mock("@supabase/supabase-js", () => import("./support/mock-supabase"));
+vi.mock("@/lib/embedding-provider", () => import("./support/mock-embeddings"));
+
+const { createReindexJob, runPendingReindexJobs, runReindexJob } = await import(
+  "@/lib/reindex-jobs"
+);
+
+// Ten paragraphs, split into one chunk each by the fixed strategy
+const CONTENT = Array.from(
+  { length: 10 },
+  (_, i) =>
+    `Paragraph ${i + 1}. ${"Tide pools hold many creatures. ".repeat(25)}`,
+).join("\n\n");
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.stubEnv("EMBEDDING_BATCH_SIZE", "2");
+  vi.stubEnv("EMBEDDING_MAX_RETRIES", "0");
+  resetEmbedding();
+  resetDatabase({
+    pdfs: [
+      {
+        id: "pdf-1",
+        user_id: "user-a",
+        format: "pdf",
+        status: "ready",
+        content: CONTENT,
+        content_sha256: "sha",
+        chunking_strategy: "fixed",
+      },
+    ],
+    pdf_chunks: [
+      {
+        id: "chunk-1",
+        content: CONTENT,
+        metadata: { pdf_id: "pdf-1", embedding_model: "old-model" },
+      },
+    ],
+    pdf_chunks_shadow: [
+      // Left behind by an earlier job
+      { id: "stale-chunk", content: "Old", metadata: { pdf_id: "pdf-1" } },
+    ],
+    reindex_jobs: [
+      {
+        id: "job-1",
+        requested_by: "admin",
+        status: "queued",
+        pdf_ids: ["pdf-1"],
+        chunking_strategy: null,
+        progress_done: 0,
+        progress_total: 1,
+        current_pdf_id: null,
+        current_chunks_done: 0,
+        current_chunks_total: 0,
+        failed: [],
+        error: null,
+        locked_at: null,
+      },
+    ],
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+function job(): Row {
+  return db.tables.reindex_jobs[0];
+}
+
+/**
+ * Queue another job for the same document, as a later re-index would
+ */
+function queueSecondJob(): Row {
+  const second = {
+    ...job(),
+    id: "job-2",
+    status: "queued",
+    progress_done: 0,
+    failed: [],
+  };
+  db.tables.reindex_jobs.push(second);
+  return second;
+}
+
+describe("runReindexJob", () => {
+  it("embeds every chunk of a document into the shadow table", async () => {
+    await runReindexJob("job-1");
+
+    expect(job()).toMatchObject({ status: "completed", progress_done: 1 });
+    expect(embedding.calls.flat()).toHaveLength(10);
+  });
+
+  it("resumes a document at the batch its worker stopped at", async () => {
+    // The worker dies while embedding the third batch
+    embedding.hangs = (call) => call >= 3;
+    void runReindexJob("job-1");
+    await vi.waitFor(() => expect(embedding.calls).toHaveLength(3));
+
+    expect(job()).toMatchObject({
+      current_pdf_id: "pdf-1",
+      current_chunks_done: 4,
+      current_chunks_total: 10,
+    });
+    const storedBefore = db.tables.pdf_chunks_shadow.map((row) => row.id);
+    expect(storedBefore).toHaveLength(4);
+    expect(storedBefore).not.toContain("stale-chunk");
+
+    // Another worker picks the job up once its lock is stale
+    embedding.calls = [];
+    embedding.hangs = () => false;
+    job().locked_at = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    expect(await runPendingReindexJobs()).toEqual({ run: 1 });
+
+    expect(job()).toMatchObject({ status: "completed", progress_done: 1 });
+    expect(embedding.calls.flat()).toHaveLength(6);
+    expect(db.tables.pdf_chunks_shadow.map((row) => row.id)).toEqual(
+      expect.arrayContaining(storedBefore),
+    );
+    expect(db.tables.pdf_chunks_shadow).toHaveLength(10);
+  });
+
+  it("keeps the batches of a document whose batch failed for the next job", async () => {
+    // The provider goes down during the third batch
+    embedding.fails = (call) => call >= 3;
+    await runReindexJob("job-1");
+
+    expect(job()).toMatchObject({
+      status: "completed",
+      failed: [{ pdf_id: "pdf-1", error: expect.stringContaining("Invalid") }],
+    });
+    const storedBefore = db.tables.pdf_chunks_shadow.map((row) => row.id);
+    expect(storedBefore).toHaveLength(4);
+
+    embedding.calls = [];
+    embedding.fails = () => false;
+    const second = queueSecondJob();
+    await runReindexJob("job-2");
+
+    expect(second).toMatchObject({ status: "completed", failed: [] });
+    expect(embedding.calls.flat()).toHaveLength(6);
+    expect(db.tables.pdf_chunks_shadow.map((row) => row.id)).toEqual(
+      expect.arrayContaining(storedBefore),
+    );
+  });
+
+  it("refreshes its lock while a batch is embedded", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    embedding.hangs = () => true;
+    void runReindexJob("job-1");
+    await vi.waitFor(() => expect(embedding.calls).toHaveLength(1));
+    job().locked_at = "2026-01-01T00:00:00.000Z";
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(job().locked_at).not.toBe("2026-01-01T00:00:00.000Z");
+  });
+});
+
+describe("createReindexJob", () => {
+  it("finds documents with chunks of another model or of none", async () => {
+    db.tables.pdfs = ["pdf-1", "pdf-2", "pdf-3"].map((id, i) => ({
+      id,
+      status: "ready",
+      created_at: `2026-01-0${i + 1}T00:00:00.000Z`,
+    }));
+    db.tables.pdf_chunks = [
+      // Stored before models were recorded
+      { id: "chunk-1", metadata: { pdf_id: "pdf-1" }, embedding_model: null },
+      {
+        id: "chunk-2",
+        metadata: { pdf_id: "pdf-2" },
+        embedding_model: "test-model",
+      },
+      {
+        id: "chunk-3",
+        metadata: { pdf_id: "pdf-3" },
+        embedding_model: "old-model",
+      },
+    ];
+
+    const queued = await createReindexJob({ staleModel: true }, null, "admin");
+
+    expect(queued.pdf_ids).toEqual(["pdf-1", "pdf-3"]);
+  });
+});
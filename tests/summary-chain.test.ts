@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Document } from "@langchain/core/documents";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import {
+  groupTexts,
+  SECTION_CHAR_LIMIT,
+  SINGLE_PASS_CHAR_LIMIT,
+  summarizeChunks,
+} from "@/lib/summary-chain";
+
+/**
+ * Chunks adding up to about the given number of characters
+ */
+function chunksOf(totalChars: number): Document[] {
+  const chunk = "lorem ipsum ".repeat(80);
+  return Array.from(
+    { length: Math.ceil(totalChars / chunk.length) },
+    () => new Document({ pageContent: chunk }),
+  );
+}
+
+describe("summarizeChunks", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("packs texts into groups up to the limit", () => {
+    expect(groupTexts(["aaaa", "bbbb", "cccc"], 10)).toEqual([
+      "aaaa\n\nbbbb",
+      "cccc",
+    ]);
+  });
+
+  it("merges partial summaries too long to share a section in pairs", async () => {
+    // Every partial summary is longer than half a section, so grouping alone
+    // can't merge any two of them
+    const partial = "p".repeat(SECTION_CHAR_LIMIT / 2 + 1000);
+    const model = new FakeListChatModel({ responses: [partial] });
+    const finalPrompt = PromptTemplate.fromTemplate("{text}");
+    const finalInvoke = vi.spyOn(finalPrompt, "invoke");
+
+    const result = await summarizeChunks(
+      chunksOf(SINGLE_PASS_CHAR_LIMIT * 2.5),
+      { model, finalPrompt },
+    );
+
+    expect(result.sectionCount).toBeGreaterThan(4);
+    expect(result.reducePasses).toBeGreaterThan(0);
+
+    // The final prompt gets every merged summary, none cut off
+    const { text } = finalInvoke.mock.calls[0][0] as { text: string };
+    expect(text.length).toBeLessThanOrEqual(SINGLE_PASS_CHAR_LIMIT);
+    expect(text.split("\n\n").every((summary) => summary === partial)).toBe(
+      true,
+    );
+  });
+
+  it("fails instead of cutting off summaries that never fit", async () => {
+    const model = new FakeListChatModel({
+      responses: ["p".repeat(SINGLE_PASS_CHAR_LIMIT + 1)],
+    });
+
+    await expect(
+      summarizeChunks(chunksOf(SINGLE_PASS_CHAR_LIMIT * 2), {
+        model,
+        finalPrompt: PromptTemplate.fromTemplate("{text}"),
+      }),
+    ).rejects.toThrow(/too long to summarize/);
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * In-memory stand-in for the Supabase client
+ *
+ * Implements the part of the PostgREST query builder the server code uses
+ * (select/insert/update/delete with eq, neq, in, or, order, limit, single...)
+ * over plain arrays of rows, so server actions can be tested without a
+ * database. JSON paths like "metadata->>pdf_id" read the nested value as
+ * text, like Postgres. RPCs succeed without doing anything unless the test
+ * implements them; storage is not implemented.
+ */
+
+export type Row = Record<string, unknown>;
+export type Tables = Record<string, Row[]>;
+
+/**
+ * A test's stand-in for a database function; throwing fails the call
+ */
+export type FakeFunction = (args: Row) => unknown;
+
+type Filter = (row: Row) => boolean;
+
+interface QueryResult {
+  data: unknown;
+  error: null | { message: string };
+  count: number | null;
+}
+
+/**
+ * Read a column, or a JSON path like "metadata->>pdf_id", from a row
+ */
+function readColumn(row: Row, column: string): unknown {
+  const [name, key] = column.split("->>");
+  const value = row[name];
+  if (key === undefined) {
+    return value;
+  }
+  const nested = (value as Row | null | undefined)?.[key];
+  return nested === undefined || nested === null ? null : String(nested);
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return a !== null && a !== undefined && String(a) === String(b);
+}
+
+// Like SQL, NULL is neither equal nor unequal to anything
+function differs(a: unknown, b: unknown): boolean {
+  return a !== null && a !== undefined && String(a) !== String(b);
+}
+
+/**
+ * Split a list of conditions on the commas outside parentheses
+ */
+function splitConditions(expression: string): string[] {
+  const conditions: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of expression) {
+    if (char === "," && depth === 0) {
+      conditions.push(current);
+      current = "";
+      continue;
+    }
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    current += char;
+  }
+  return [...conditions, current];
+}
+
+/**
+ * Parse one condition of .or(), e.g. "status.eq.queued" or a nested
+ * "and(status.eq.running,locked_at.lt.2026-01-01T00:00:00Z)"
+ */
+function parseCondition(condition: string): Filter {
+  const nested = condition.match(/^(and|or)\((.*)\)$/);
+  if (nested) {
+    const conditions = splitConditions(nested[2]).map(parseCondition);
+    return nested[1] === "and"
+      ? (row) => conditions.every((filter) => filter(row))
+      : (row) => conditions.some((filter) => filter(row));
+  }
+
+  const [column, operator, ...rest] = condition.split(".");
+  // Values can be quoted, e.g. URLs
+  const value = rest.join(".").replace(/^"(.*)"$/, "$1");
+  switch (operator) {
+    case "eq":
+      return (row) => same(readColumn(row, column), value);
+    case "neq":
+      return (row) => differs(readColumn(row, column), value);
+    case "lt":
+      // Timestamps in ISO format compare like text
+      return (row) => {
+        const current = readColumn(row, column);
+        return (
+          current !== null && current !== undefined && String(current) < value
+        );
+      };
+    case "is":
+      return (row) =>
+        value === "null"
+          ? readColumn(row, column) === null ||
+            readColumn(row, column) === undefined
+          : same(readColumn(row, column), value);
+    case "in": {
+      const values = value.replace(/^\(|\)$/g, "").split(",");
+      return (row) => values.some((v) => same(readColumn(row, column), v));
+    }
+    default:
+      throw new Error(`Unsupported .or() operator: ${operator}`);
+  }
+}
+
+/**
+ * Parse a filter of .or(), e.g. "user_id.eq.abc,id.in.(a,b)"
+ */
+function parseOr(expression: string): Filter {
+  return parseCondition(`or(${expression})`);
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private filters: Filter[] = [];
+  private action: "select" | "insert" | "update" | "delete" = "select";
+  private payload: Row[] = [];
+  private changes: Row = {};
+  private returnRows = false;
+  private orderBy: { column: string; ascending: boolean } | null = null;
+  private rowLimit: number | null = null;
+  private rowOffset = 0;
+  private mode: "many" | "single" | "maybeSingle" = "many";
+  private countRows = false;
+  private headOnly = false;
+  private conflictColumns: string[] = [];
+  private aliases: [alias: string, column: string][] = [];
+
+  constructor(private rows: Row[]) {}
+
+  // Every column is returned, whichever are selected, plus aliased ones
+  // like "pdf_id:metadata->>pdf_id"
+  select(
+    ...[columns = "", options = {}]: [
+      columns?: string,
+      options?: { count?: string; head?: boolean },
+    ]
+  ) {
+    this.aliases = [...columns.matchAll(/(\w+):([\w>-]+)/g)].map(
+      ([, alias, column]) => [alias, column],
+    );
+    if (this.action !== "select") {
+      this.returnRows = true;
+    }
+    this.countRows = !!options.count;
+    this.headOnly = !!options.head;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = "insert";
+    this.payload = (Array.isArray(values) ? values : [values]).map((row) => ({
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+      ...row,
+    }));
+    return this;
+  }
+
+  // Rows matching an existing row on the onConflict columns (the primary
+  // key by default) update it
+  upsert(values: Row | Row[], { onConflict = "id" } = {}) {
+    this.conflictColumns = onConflict.split(",").filter(Boolean);
+    return this.insert(values);
+  }
+
+  update(changes: Row) {
+    this.action = "update";
+    this.changes = changes;
+    return this;
+  }
+
+  delete() {
+    this.action = "delete";
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => same(readColumn(row, column), value));
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => differs(readColumn(row, column), value));
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) =>
+      values.some((value) => same(readColumn(row, column), value)),
+    );
+    return this;
+  }
+
+  filter(column: string, operator: string, value: unknown) {
+    if (operator !== "eq") {
+      throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+    return this.eq(column, value);
+  }
+
+  is(column: string, value: null) {
+    this.filters.push((row) => (readColumn(row, column) ?? null) === value);
+    return this;
+  }
+
+  overlaps(column: string, values: unknown[]) {
+    this.filters.push((row) =>
+      ((readColumn(row, column) as unknown[]) ?? []).some((item) =>
+        values.includes(item),
+      ),
+    );
+    return this;
+  }
+
+  or(expression: string) {
+    this.filters.push(parseOr(expression));
+    return this;
+  }
+
+  order(column: string, { ascending = true } = {}) {
+    this.orderBy = { column, ascending };
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.rowOffset = from;
+    this.rowLimit = to - from + 1;
+    return this;
+  }
+
+  single() {
+    this.mode = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.mode = "maybeSingle";
+    return this;
+  }
+
+  private run(): QueryResult {
+    const matches = (row: Row) => this.filters.every((filter) => filter(row));
+    let result: Row[];
+
+    switch (this.action) {
+      case "insert":
+        result = this.payload.map((row) => {
+          const existing =
+            this.conflictColumns.length > 0 &&
+            this.rows.find((candidate) =>
+              this.conflictColumns.every((column) =>
+                same(candidate[column], row[column]),
+              ),
+            );
+          if (existing) {
+            // Keep the existing row's generated columns
+            return Object.assign(
+              existing,
+              Object.fromEntries(
+                Object.entries(row).filter(
+                  ([column]) => column !== "id" && column !== "created_at",
+                ),
+              ),
+            );
+          }
+          this.rows.push(row);
+          return row;
+        });
+        break;
+      case "update":
+        result = this.rows.filter(matches);
+        result.forEach((row) => Object.assign(row, this.changes));
+        break;
+      case "delete":
+        result = this.rows.filter(matches);
+        for (const row of result) {
+          this.rows.splice(this.rows.indexOf(row), 1);
+        }
+        break;
+      default:
+        result = this.rows.filter(matches).map((row) =>
+          this.aliases.length === 0
+            ? row
+            : {
+                ...row,
+                ...Object.fromEntries(
+                  this.aliases.map(([alias, column]) => [
+                    alias,
+                    readColumn(row, column),
+                  ]),
+                ),
+              },
+        );
+    }
+
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy;
+      result = [...result].sort(
+        (a, b) =>
+          String(readColumn(a, column)).localeCompare(
+            String(readColumn(b, column)),
+          ) * (ascending ? 1 : -1),
+      );
+    }
+    const count = result.length;
+    result = result.slice(
+      this.rowOffset,
+      this.rowLimit === null ? undefined : this.rowOffset + this.rowLimit,
+    );
+
+    if (this.action !== "select" && !this.returnRows) {
+      return { data: null, error: null, count: null };
+    }
+    if (this.mode !== "many") {
+      if (result.length === 0 && this.mode === "single") {
+        return { data: null, error: { message: "No rows found" }, count };
+      }
+      return { data: result[0] ?? null, error: null, count };
+    }
+    return {
+      data: this.headOnly ? null : result,
+      error: null,
+      count: this.countRows ? count : null,
+    };
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?:
+      | ((value: QueryResult) => TResult1 | PromiseLike<TResult1>)
+      | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.run())
+      .then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * Create a client over the given tables; rows are changed in place
+ *
+ * @param functions - Database functions the test implements, by name
+ */
+export function createFakeSupabase(
+  tables: Tables,
+  functions: Record<string, FakeFunction> = {},
+) {
+  return {
+    from(table: string) {
+      tables[table] ??= [];
+      return new FakeQuery(tables[table]);
+    },
+    async rpc(name: string, args: Row = {}) {
+      try {
+        return { data: functions[name]?.(args) ?? null, error: null };
+      } catch (error) {
+        return {
+          data: null,
+          error: {
+            message: error instanceof Error ? error.message : String(error),
+          },
+        };
+      }
+    },
+  };
+}
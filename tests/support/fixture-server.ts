@@ -0,0 +1,70 @@
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * A canned response of the fixture server
+ * - redirect: Path or URL to redirect to, with a 302
+ */
+export interface FixtureRoute {
+  status?: number;
+  contentType?: string;
+  body?: string;
+  redirect?: string;
+}
+
+export interface FixtureServer {
+  // Base URL, e.g. http://127.0.0.1:34567
+  url: string;
+  // Paths requested so far, in order
+  requests: string[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve canned responses on a free local port; other paths get a 404
+ *
+ * @param routesFor - The routes by path, given the server's base URL so
+ *   responses can link back to it
+ */
+export async function startFixtureServer(
+  routesFor: (url: string) => Record<string, FixtureRoute>,
+): Promise<FixtureServer> {
+  const requests: string[] = [];
+  let routes: Record<string, FixtureRoute> = {};
+
+  const server = createServer((request, response) => {
+    const path = request.url ?? "/";
+    requests.push(path);
+
+    const route = routes[path];
+    if (!route) {
+      response.writeHead(404, { "Content-Type": "text/plain" });
+      response.end("Not found");
+      return;
+    }
+    if (route.redirect) {
+      response.writeHead(302, { Location: route.redirect });
+      response.end();
+      return;
+    }
+
+    response.writeHead(route.status ?? 200, {
+      "Content-Type": route.contentType ?? "text/html; charset=utf-8",
+    });
+    response.end(route.body ?? "");
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+  routes = routesFor(url);
+
+  return {
+    url,
+    requests,
+    close: () =>
+      new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
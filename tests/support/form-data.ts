@@ -0,0 +1,8 @@
+/**
+ * Build the form data a server action receives from a form
+ */
+export function formData(values: Record<string, string>): FormData {
+  const data = new FormData();
+  Object.entries(values).forEach(([key, value]) => data.append(key, value));
+  return data;
+}
@@ -0,0 +1,25 @@
+/**
+ * Mock of @/lib/auth
+ *
+ * The signed-in user is `session.userId`, who is never an administrator. A
+ * test file registers it with
+ *   vi.mock("@/lib/auth", () => import("./support/mock-auth"));
+ */
+
+export const session = { userId: "" };
+
+export async function requireUserId() {
+  return session.userId;
+}
+
+export async function getSessionUser() {
+  return { id: session.userId };
+}
+
+export function isAdmin() {
+  return false;
+}
+
+export async function requireAdmin() {
+  throw new Error("Only administrators can do that");
+}
@@ -0,0 +1,61 @@
+import type { EmbeddingConfig } from "@/lib/embedding-provider";
+
+/**
+ * Mock of @/lib/embedding-provider
+ *
+ * Every text embeds to the same small vector, under the model ID
+ * "test-model". The requests are recorded in `embedding`, where tests can
+ * also make them fail or wait. A test file registers it with
+ *   vi.mock("@/lib/embedding-provider", () => import("./support/mock-embeddings"));
+ */
+
+export const embedding = {
+  // The texts of each embedding request, in order
+  calls: [] as string[][],
+  // Whether the request with this number (from 1) fails, like a bad API key
+  fails: (() => false) as (call: number) => boolean,
+  // Whether the request with this number never answers, like a worker that
+  // died
+  hangs: (() => false) as (call: number) => boolean,
+  // Set to hold embedding requests until the test resolves it
+  pending: null as Promise<void> | null,
+  onStart: () => {},
+};
+
+/**
+ * Forget the recorded requests and let every request succeed again
+ */
+export function resetEmbedding() {
+  embedding.calls = [];
+  embedding.fails = () => false;
+  embedding.hangs = () => false;
+  embedding.pending = null;
+  embedding.onStart = () => {};
+}
+
+export function getEmbeddingConfig(): EmbeddingConfig {
+  return {
+    provider: "local",
+    model: "test-model",
+    dimensions: 3,
+    modelId: "test-model",
+  };
+}
+
+export function createEmbeddings() {
+  return {
+    embedDocuments: async (texts: string[]) => {
+      embedding.calls.push(texts);
+      const call = embedding.calls.length;
+      embedding.onStart();
+      await embedding.pending;
+      if (embedding.hangs(call)) {
+        await new Promise(() => {});
+      }
+      if (embedding.fails(call)) {
+        throw new Error("Invalid API key");
+      }
+      return texts.map(() => [0.1, 0.2, 0.3]);
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import {
+  createFakeSupabase,
+  type FakeFunction,
+  type Row,
+  type Tables,
+} from "./fake-supabase";
+
+/**
+ * Mock of @supabase/supabase-js over the fake database
+ *
+ * Every client the server modules create reads and changes the same rows,
+ * kept in `db` so tests can set them up and inspect them. A test file
+ * registers it with
+ *   vi.mock("@supabase/supabase-js", () => import("./support/mock-supabase"));
+ */
+
+export const db = {
+  tables: {} as Tables,
+  // Database functions the test implements, by name
+  functions: {} as Record<string, FakeFunction>,
+  // Set to fail the next update that matches, like a lost connection
+  failUpdate: null as ((table: string, changes: Row) => boolean) | null,
+};
+
+/**
+ * Replace the rows and functions of the fake database and stop failing
+ * updates
+ */
+export function resetDatabase(
+  tables: Tables,
+  functions: Record<string, FakeFunction> = {},
+) {
+  // Clients keep the objects they were created with, so these are changed
+  // in place
+  for (const table of Object.keys(db.tables)) {
+    delete db.tables[table];
+  }
+  Object.assign(db.tables, tables);
+  for (const name of Object.keys(db.functions)) {
+    delete db.functions[name];
+  }
+  Object.assign(db.functions, functions);
+  db.failUpdate = null;
+}
+
+export function createClient() {
+  const client = createFakeSupabase(db.tables, db.functions);
+  return {
+    ...client,
+    from(table: string) {
+      const query = client.from(table);
+      const update = query.update.bind(query);
+      query.update = (changes: Row) => {
+        if (db.failUpdate?.(table, changes)) {
+          db.failUpdate = null;
+          throw new Error("Connection lost");
+        }
+        return update(changes);
+      };
+      return query;
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { crawlWebsite, parseRobotsTxt } from "@/lib/web-crawler";
+import { FixtureServer, startFixtureServer } from "./support/fixture-server";
+
+/**
+ * A page of the fixture site linking to other paths
+ */
+function page(title: string, links: string[] = []): string {
+  return `<html><head><title>${title}</title></head><body>
+    <h1>${title}</h1>
+    <p>This is the ${title} page of the fixture site.</p>
+    ${links.map((link) => `<a href="${link}">${link}</a>`).join("\n")}
+  </body></html>`;
+}
+
+let server: FixtureServer;
+// Another origin, which pages of the fixture site redirect to
+let elsewhere: FixtureServer;
+
+beforeAll(async () => {
+  elsewhere = await startFixtureServer(() => ({
+    "/b": { body: page("Elsewhere") },
+  }));
+  server = await startFixtureServer((url) => ({
+    "/robots.txt": {
+      contentType: "text/plain",
+      body: [
+        // An empty User-agent names no crawler and must not match ours
+        "User-agent:",
+        "Disallow: /",
+        "",
+        "User-agent: *",
+        "Disallow: /private",
+      ].join("\n"),
+    },
+    "/": { body: page("Home", ["/a", "/b", "/private/secret", "/moved"]) },
+    "/a": { body: page("A", ["/a/deep", "#top", "/"]) },
+    "/a/deep": { body: page("Deep", ["/a/deeper"]) },
+    "/a/deeper": { body: page("Deeper") },
+    "/b": { body: page("B") },
+    "/private/secret": { body: page("Secret") },
+    "/sitemap.xml": {
+      contentType: "application/xml",
+      body: `<?xml version="1.0" encoding="UTF-8"?>
+        <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <url><loc>${url}/b</loc></url>
+          <url><loc>${url}/a/deeper</loc></url>
+          <url><loc>${url}/private/secret</loc></url>
+          <url><loc>https://elsewhere.example/page</loc></url>
+        </urlset>`,
+    },
+    "/moved": { redirect: `${elsewhere.url}/b` },
+  }));
+});
+
+afterAll(async () => {
+  await server.close();
+  await elsewhere.close();
+});
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  server.requests.length = 0;
+  elsewhere.requests.length = 0;
+});
+
+/**
+ * Paths of the crawled pages, in crawl order
+ */
+function crawledPaths(docs: { metadata: Record<string, unknown> }[]) {
+  return docs.map((doc) => new URL(doc.metadata.source as string).pathname);
+}
+
+describe("parseRobotsTxt", () => {
+  it("ignores groups with an empty User-agent", () => {
+    const rules = parseRobotsTxt("User-agent:\nDisallow: /\n");
+    expect(rules.disallow).toEqual([]);
+  });
+});
+
+describe("crawlWebsite", () => {
+  it("follows links up to the maximum depth", async () => {
+    const docs = await crawlWebsite(`${server.url}/`, {
+      mode: "links",
+      maxDepth: 1,
+    });
+
+    expect(crawledPaths(docs)).toEqual(["/", "/a", "/b"]);
+    expect(server.requests).not.toContain("/a/deep");
+  });
+
+  it("goes deeper when allowed", async () => {
+    const docs = await crawlWebsite(`${server.url}/`, {
+      mode: "links",
+      maxDepth: 3,
+    });
+
+    expect(crawledPaths(docs)).toEqual([
+      "/",
+      "/a",
+      "/b",
+      "/a/deep",
+      "/a/deeper",
+    ]);
+  });
+
+  it("stops at the maximum number of pages", async () => {
+    const docs = await crawlWebsite(`${server.url}/`, {
+      mode: "links",
+      maxDepth: 3,
+      maxPages: 2,
+    });
+
+    expect(crawledPaths(docs)).toEqual(["/", "/a"]);
+  });
+
+  it("never fetches pages robots.txt disallows", async () => {
+    const docs = await crawlWebsite(`${server.url}/`, {
+      mode: "links",
+      maxDepth: 3,
+    });
+
+    expect(crawledPaths(docs)).not.toContain("/private/secret");
+    expect(server.requests).not.toContain("/private/secret");
+    expect(server.requests[0]).toBe("/robots.txt");
+  });
+
+  it("skips pages that redirect to another origin", async () => {
+    const docs = await crawlWebsite(`${server.url}/`, {
+      mode: "links",
+      maxDepth: 1,
+    });
+
+    expect(server.requests).toContain("/moved");
+    expect(elsewhere.requests).toEqual(["/b"]);
+    expect(docs.map((doc) => doc.metadata.title)).not.toContain("Elsewhere");
+  });
+
+  it("reads the pages listed in the sitemap", async () => {
+    const docs = await crawlWebsite(`${server.url}/sitemap.xml`, {
+      mode: "sitemap",
+    });
+
+    expect(crawledPaths(docs)).toEqual(["/b", "/a/deeper"]);
+    expect(server.requests).not.toContain("/a");
+  });
+});